@@ -0,0 +1,105 @@
+// 알림 SSE 연결 확인용 로컬 모의 서버
+// 사용법: npm run mock:sse 실행 후 .env.local에 NEXT_PUBLIC_ALARM_API_URL=http://localhost:8090 설정
+// - /alarms/subscribe: connect 이벤트 후 연결된 동안 생성된 알림을 alarm 이벤트로 전송
+// - DROP_AFTER_MS마다 연결을 끊어 백오프 재연결과 /alarms 재동기화를 확인할 수 있다
+// - 연결이 끊긴 동안에도 알림은 계속 생성되므로 재연결 후 놓친 알림이 채워지는지 확인한다
+import http from 'node:http'
+
+const PORT = Number(process.env.PORT || 8090)
+const ALARM_INTERVAL_MS = Number(process.env.ALARM_INTERVAL_MS || 5000)
+const DROP_AFTER_MS = Number(process.env.DROP_AFTER_MS || 20000)
+
+const alarmTypes = ['SYSTEM', 'MESSAGE', 'SUBSCRIBE', 'PARTY_APPLY', 'PARTY_STATUS']
+const alarms = []
+const clients = new Set()
+let nextAlarmId = 1
+
+const createAlarm = () => {
+    const id = nextAlarmId++
+    const alarmType = alarmTypes[id % alarmTypes.length]
+    const alarm = {
+        id,
+        receiverId: 1,
+        title: `테스트 알림 #${id}`,
+        content: `${alarmType} 유형의 모의 알림입니다.`,
+        readStatus: false,
+        alarmType,
+        relId: 1,
+        createdAt: new Date().toISOString(),
+        modifiedAt: new Date().toISOString(),
+    }
+    alarms.unshift(alarm)
+
+    clients.forEach((res) => res.write(`event: alarm\ndata: ${JSON.stringify(alarm)}\n\n`))
+    console.log(`알림 #${id} 생성 (연결 ${clients.size}개)`)
+}
+
+const sendJson = (res, data) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ message: 'OK', data }))
+}
+
+const server = http.createServer((req, res) => {
+    // 프론트 개발 서버(다른 포트)에서 쿠키를 포함해 요청하므로 요청 Origin을 그대로 허용
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+    res.setHeader('Access-Control-Allow-Credentials', 'true')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, OPTIONS')
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204)
+        res.end()
+        return
+    }
+
+    const url = new URL(req.url, `http://localhost:${PORT}`)
+
+    if (url.pathname === '/alarms/subscribe') {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        })
+        res.write(`event: connect\ndata: connected\n\n`)
+        clients.add(res)
+        console.log(`SSE 연결 (연결 ${clients.size}개)`)
+
+        const dropTimer = setTimeout(() => {
+            console.log('SSE 연결을 강제로 끊습니다.')
+            res.end()
+        }, DROP_AFTER_MS)
+
+        req.on('close', () => {
+            clearTimeout(dropTimer)
+            clients.delete(res)
+        })
+        return
+    }
+
+    if (url.pathname === '/alarms') {
+        const page = Number(url.searchParams.get('pageable[page]') || url.searchParams.get('page') || 0)
+        const size = Number(url.searchParams.get('pageable[size]') || url.searchParams.get('size') || 10)
+        sendJson(res, {
+            currentPageNumber: page,
+            pageSize: size,
+            totalPages: Math.ceil(alarms.length / size),
+            totalItems: alarms.length,
+            items: alarms.slice(page * size, (page + 1) * size),
+        })
+        return
+    }
+
+    if (url.pathname === '/alarms/count') {
+        sendJson(res, { unreadCount: alarms.filter((alarm) => !alarm.readStatus).length })
+        return
+    }
+
+    res.writeHead(404)
+    res.end()
+})
+
+setInterval(createAlarm, ALARM_INTERVAL_MS)
+
+server.listen(PORT, () => {
+    console.log(`모의 SSE 서버: http://localhost:${PORT}`)
+})
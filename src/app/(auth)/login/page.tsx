@@ -1,9 +1,13 @@
 'use client'
 
+import { saveLoginRedirectPath } from '@/stores/auth/routeAccess'
 import Image from 'next/image'
 import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
 
 export default function LoginPage() {
+    const searchParams = useSearchParams()
+
     // API URL과 Frontend URL을 환경 변수에서 직접 가져옴
     const apiUrl = process.env.NEXT_PUBLIC_API_URL
     const frontendUrl = process.env.NEXT_PUBLIC_FRONTEND_URL
@@ -24,6 +28,7 @@ export default function LoginPage() {
                     <a
                         className="w-full flex items-center justify-center gap-2 bg-[#FEE500] hover:bg-[#FDD800] text-[#191919] px-4 py-3 rounded-lg"
                         href={`${socialLoginForKakaoUrl}?redirectUrl=${redirectUrlAfterSocialLogin}`}
+                        onClick={() => saveLoginRedirectPath(searchParams.get('redirect'))}
                     >
                         <Image src="/kakao.svg" alt="카카오 로고" width={20} height={20} />
                         카카오 1초 안에 시작하기
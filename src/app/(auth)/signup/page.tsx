@@ -3,6 +3,7 @@
 import type { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { ChangeEvent, FormEvent, useEffect, useState } from 'react'
@@ -12,6 +13,7 @@ type Tag = Required<components['schemas']['ThemeTagResponse']>
 
 export default function SignupPage() {
     const { isLogin } = useGlobalLoginMember()
+    const { toast } = useFeedback()
     const router = useRouter()
 
     // 로그인 상태 확인 및 리다이렉트
@@ -134,17 +136,12 @@ export default function SignupPage() {
     const handleTagToggle = (tagId: number | undefined) => {
         if (tagId === undefined) return
 
-        setSelectedTags((prev) => {
-            if (prev.includes(tagId)) {
-                return prev.filter((id) => id !== tagId)
-            } else {
-                if (prev.length >= 5) {
-                    alert('태그는 최대 5개까지 선택 가능합니다')
-                    return prev
-                }
-                return [...prev, tagId]
-            }
-        })
+        if (!selectedTags.includes(tagId) && selectedTags.length >= 5) {
+            toast.error('태그는 최대 5개까지 선택 가능합니다')
+            return
+        }
+
+        setSelectedTags((prev) => (prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]))
     }
 
     // 폼 제출 핸들러
@@ -153,22 +150,22 @@ export default function SignupPage() {
 
         // 입력값 검증
         if (!nickname || !isNicknameValid) {
-            alert('유효한 닉네임을 입력해주세요')
+            toast.error('유효한 닉네임을 입력해주세요')
             return
         }
 
         if (!gender) {
-            alert('성별을 선택해주세요')
+            toast.error('성별을 선택해주세요')
             return
         }
 
         if (!introduction.trim()) {
-            alert('자기소개를 입력해주세요')
+            toast.error('자기소개를 입력해주세요')
             return
         }
 
         if (selectedTags.length === 0) {
-            alert('최소 1개 이상의 태그를 선택해주세요')
+            toast.error('최소 1개 이상의 태그를 선택해주세요')
             return
         }
 
@@ -246,7 +243,7 @@ export default function SignupPage() {
             return
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : '회원가입 중 오류가 발생했습니다'
-            alert(errorMessage)
+            toast.error(errorMessage)
             console.error('회원가입 중 오류:', err)
         } finally {
             setIsSubmitting(false)
@@ -1,13 +1,18 @@
 'use client'
 
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { PageLoading } from '@/components/common/PageLoading'
+import { ToastList } from '@/components/common/Toast'
 import { Navigation } from '@/components/layout/Navigation'
+import { RouteGuard } from '@/components/layout/RouteGuard'
 import { Notification } from '@/components/layout/SseConnector'
 import { components } from '@/lib/backend/apiV1/schema'
-import client from '@/lib/backend/client'
+import client, { setAuthErrorHandler } from '@/lib/backend/client'
 import { LoginMemberContext, useLoginMember } from '@/stores/auth/loginMember'
+import { FeedbackContext, useFeedbackStore } from '@/stores/feedback/feedback'
 import { ThemeProvider as NextThemesProvider } from 'next-themes'
-import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import React, { useEffect, useRef, useState } from 'react'
 
 type AlarmResponse = components['schemas']['AlarmResponse']
 
@@ -27,8 +32,19 @@ export const NotificationContext = React.createContext<{
 })
 
 export function ClientLayout({ children }: React.ComponentProps<typeof NextThemesProvider>) {
-    const { loginMember, setLoginMember, isLoginMemberPending, setNoLoginMember, isLogin, logout, logoutAndHome } =
-        useLoginMember()
+    const {
+        loginMember,
+        setLoginMember,
+        isLoginMemberPending,
+        setNoLoginMember,
+        removeLoginMember,
+        isLogin,
+        isAdmin,
+        logout,
+        logoutAndHome,
+    } = useLoginMember()
+    const router = useRouter()
+    const { toasts, dismissToast, undoToast, confirmRequest, resolveConfirm, toast, confirm } = useFeedbackStore()
 
     const [notifications, setNotifications] = useState<AlarmResponse[]>([])
     const [unreadCount, setUnreadCount] = useState(0)
@@ -39,6 +55,7 @@ export function ClientLayout({ children }: React.ComponentProps<typeof NextTheme
         isLoginMemberPending,
         setNoLoginMember,
         isLogin,
+        isAdmin,
         logout,
         logoutAndHome,
     }
@@ -60,10 +77,23 @@ export function ClientLayout({ children }: React.ComponentProps<typeof NextTheme
         setUnreadCount,
     }
 
+    // 관리자 API 접근 가능 여부로 운영자 권한 확인
+    const checkAdmin = async () => {
+        try {
+            const res = await client.POST('/api/v1/admin/boards/search', {
+                params: { query: { page: 0, size: 1 } },
+                body: {},
+            })
+            return !res.error
+        } catch {
+            return false
+        }
+    }
+
+    // 회원 정보와 관리자 권한은 서로 기다리지 않도록 동시에 확인한다
     const fetchMember = () => {
-        client
-            .GET('/api/v1/members/me', {})
-            .then((res) => {
+        Promise.all([client.GET('/api/v1/members/me', {}), checkAdmin()])
+            .then(([res, admin]) => {
                 if (res.error) {
                     // 로그인되지 않은 상태로 처리
                     setNoLoginMember()
@@ -71,7 +101,7 @@ export function ClientLayout({ children }: React.ComponentProps<typeof NextTheme
                 }
                 // API 응답에서 data 필드의 멤버 정보를 추출
                 if (res.data && res.data.data) {
-                    setLoginMember(res.data.data)
+                    setLoginMember(res.data.data, admin)
                 } else {
                     setNoLoginMember()
                 }
@@ -86,6 +116,36 @@ export function ClientLayout({ children }: React.ComponentProps<typeof NextTheme
         fetchMember()
     }, [])
 
+    // 로그인 만료 처리 (401/403 응답 시 client 미들웨어에서 호출)
+    const isLoginRef = useRef(isLogin)
+    isLoginRef.current = isLogin
+    const isCheckingSessionRef = useRef(false)
+
+    useEffect(() => {
+        setAuthErrorHandler(async (status) => {
+            if (!isLoginRef.current || isCheckingSessionRef.current) return
+
+            isCheckingSessionRef.current = true
+            try {
+                // 403은 권한 부족일 수도 있으므로 세션이 살아있는지 확인 후 판단
+                if (status === 403) {
+                    const res = await client.GET('/api/v1/members/me', {})
+                    if (!res.error) return
+                }
+
+                isLoginRef.current = false
+                removeLoginMember()
+                toast.error('로그인이 만료되었습니다. 다시 로그인해주세요.')
+                const currentPath = window.location.pathname + window.location.search
+                router.replace(`/login?redirect=${encodeURIComponent(currentPath)}`)
+            } finally {
+                isCheckingSessionRef.current = false
+            }
+        })
+
+        return () => setAuthErrorHandler(null)
+    }, [removeLoginMember, router, toast])
+
     if (isLoginMemberPending) {
         return <PageLoading isLoading={true} />
     }
@@ -93,11 +153,17 @@ export function ClientLayout({ children }: React.ComponentProps<typeof NextTheme
     return (
         <NextThemesProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
             <LoginMemberContext value={loginMemberContextValue}>
-                <NotificationContext.Provider value={notificationContextValue}>
-                    <Notification onNotification={notificationContextValue.addNotification} />
-                    <Navigation />
-                    <main>{children}</main>
-                </NotificationContext.Provider>
+                <FeedbackContext value={{ toast, confirm }}>
+                    <NotificationContext.Provider value={notificationContextValue}>
+                        <Notification onNotification={notificationContextValue.addNotification} />
+                        <Navigation />
+                        <main>
+                            <RouteGuard>{children}</RouteGuard>
+                        </main>
+                    </NotificationContext.Provider>
+                    <ToastList toasts={toasts} onDismiss={dismissToast} onUndo={undoToast} />
+                    <ConfirmDialog request={confirmRequest} onResolve={resolveConfirm} />
+                </FeedbackContext>
             </LoginMemberContext>
         </NextThemesProvider>
     )
@@ -0,0 +1,398 @@
+'use client'
+
+import { inquiryTypeLabels } from '@/components/admin/InquiryColumn'
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { use, useEffect, useState } from 'react'
+
+type AdminPostDetailResponse = components['schemas']['AdminPostDetailResponse']
+type PostReplyDto = components['schemas']['PostReplyDto']
+type InquiryDetail = Omit<AdminPostDetailResponse, 'replies' | 'attachments'> & {
+    replies: PostReplyDto[]
+    attachments: NonNullable<AdminPostDetailResponse['attachments']>
+}
+
+const isImageFile = (fileName?: string) => /\.(jpe?g|png|gif|webp|bmp|svg)$/i.test(fileName || '')
+
+export default function AdminInquiryDetailPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = use(params)
+    const router = useRouter()
+    const { toast, confirm } = useFeedback()
+    const inquiryId = Number(id)
+    const [inquiry, setInquiry] = useState<InquiryDetail | null>(null)
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [replyContent, setReplyContent] = useState('')
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    // 수정 중인 답변 id와 내용
+    const [editingReplyId, setEditingReplyId] = useState<number | null>(null)
+    const [editingContent, setEditingContent] = useState('')
+
+    useEffect(() => {
+        const fetchInquiryDetail = async () => {
+            try {
+                setIsLoading(true)
+                const response = await client.GET('/api/v1/admin/boards/{id}', {
+                    params: {
+                        path: {
+                            id: inquiryId,
+                        },
+                    },
+                })
+
+                if (response.data?.data) {
+                    setInquiry({
+                        ...response.data.data,
+                        replies: response.data.data.replies || [],
+                        attachments: response.data.data.attachments || [],
+                    })
+                } else {
+                    setError('문의를 찾을 수 없습니다.')
+                }
+            } catch (error) {
+                console.error('관리자 문의 상세 조회 에러:', error)
+                setError('문의 내용을 불러오는데 실패했습니다.')
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchInquiryDetail()
+    }, [inquiryId])
+
+    // 답변 등록
+    const handleCreateReply = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!replyContent.trim() || !inquiry) return
+
+        setIsSubmitting(true)
+        try {
+            const response = await client.POST('/api/v1/admin/boards/{id}/reply', {
+                params: {
+                    path: { id: inquiryId },
+                },
+                body: { content: replyContent.trim() },
+            })
+
+            if (response.error || !response.data?.data) {
+                throw new Error('답변 등록에 실패했습니다.')
+            }
+
+            const reply = response.data.data
+            setInquiry((prev) => (prev ? { ...prev, replies: [...prev.replies, reply] } : prev))
+            setReplyContent('')
+        } catch (error) {
+            console.error('답변 등록 에러:', error)
+            toast.error('답변 등록에 실패했습니다.')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    // 답변 수정
+    const handleUpdateReply = async (replyId: number) => {
+        if (!editingContent.trim()) return
+
+        setIsSubmitting(true)
+        try {
+            const response = await client.PUT('/api/v1/admin/boards/{id}/reply/{replyId}', {
+                params: {
+                    path: { id: inquiryId, replyId },
+                },
+                body: { content: editingContent.trim() },
+            })
+
+            if (response.error) {
+                throw new Error('답변 수정에 실패했습니다.')
+            }
+
+            const content = response.data?.data?.content ?? editingContent.trim()
+            setInquiry((prev) =>
+                prev
+                    ? {
+                          ...prev,
+                          replies: prev.replies.map((reply) => (reply.id === replyId ? { ...reply, content } : reply)),
+                      }
+                    : prev,
+            )
+            setEditingReplyId(null)
+            setEditingContent('')
+        } catch (error) {
+            console.error('답변 수정 에러:', error)
+            toast.error('답변 수정에 실패했습니다.')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    // 답변 삭제 (실행 취소할 수 있도록 토스트가 닫힌 뒤에 삭제 요청)
+    const handleDeleteReply = (replyId: number) => {
+        const index = inquiry?.replies.findIndex((reply) => reply.id === replyId) ?? -1
+        const deletedReply = inquiry?.replies[index]
+        if (!deletedReply) return
+
+        const restoreReply = () =>
+            setInquiry((prev) => {
+                if (!prev) return prev
+                const replies = [...prev.replies]
+                replies.splice(index, 0, deletedReply)
+                return { ...prev, replies }
+            })
+
+        setInquiry((prev) => (prev ? { ...prev, replies: prev.replies.filter((reply) => reply.id !== replyId) } : prev))
+
+        toast.undo('답변이 삭제되었습니다.', {
+            onUndo: restoreReply,
+            onCommit: async () => {
+                try {
+                    const response = await client.DELETE('/api/v1/admin/boards/{id}/reply/{replyId}', {
+                        params: {
+                            path: { id: inquiryId, replyId },
+                        },
+                        // 페이지를 떠나면서 확정될 때도 요청이 끝까지 전송되도록
+                        keepalive: true,
+                    })
+
+                    if (response.error) {
+                        throw new Error('답변 삭제에 실패했습니다.')
+                    }
+                } catch (error) {
+                    console.error('답변 삭제 에러:', error)
+                    toast.error('답변 삭제에 실패했습니다.')
+                    restoreReply()
+                }
+            },
+        })
+    }
+
+    // 문의 삭제
+    const handleDelete = async () => {
+        if (!(await confirm({ message: '문의를 삭제하시겠습니까?', confirmText: '삭제', danger: true }))) return
+
+        try {
+            const response = await client.DELETE('/api/v1/admin/boards/{id}', {
+                params: {
+                    path: { id: inquiryId },
+                },
+            })
+
+            if (response.error) {
+                throw new Error('문의 삭제에 실패했습니다.')
+            }
+
+            toast.success('문의가 삭제되었습니다.')
+            router.push('/admin/inquiries')
+        } catch (error) {
+            console.error('관리자 문의 삭제 에러:', error)
+            toast.error('문의 삭제에 실패했습니다.')
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-900">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-200"></div>
+            </div>
+        )
+    }
+
+    if (error || !inquiry) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-900">
+                <div className="text-red-400">{error || '문의를 찾을 수 없습니다.'}</div>
+            </div>
+        )
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-900">
+            <div className="max-w-3xl mx-auto px-4 py-8">
+                {/* 문의 내용 */}
+                <div className="bg-gray-800 rounded-lg shadow-sm mb-6 border border-gray-700">
+                    <div className="p-8">
+                        <div className="flex justify-between items-start mb-6">
+                            <div>
+                                <span className="text-sm text-gray-400 mb-2 block">
+                                    {inquiry.type && inquiryTypeLabels[inquiry.type]}
+                                </span>
+                                <h1 className="text-2xl font-bold text-white">{inquiry.title}</h1>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span
+                                    className={`px-3 py-1 text-sm rounded-full ${
+                                        inquiry.replies.length > 0
+                                            ? 'bg-green-900 text-green-300'
+                                            : 'bg-yellow-900 text-yellow-300'
+                                    }`}
+                                >
+                                    {inquiry.replies.length > 0 ? '답변 완료' : '답변 대기'}
+                                </span>
+                                <button
+                                    onClick={handleDelete}
+                                    className="px-3 py-1 text-sm text-red-400 hover:text-red-300"
+                                >
+                                    삭제
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-6">
+                            <div className="text-sm text-gray-400">
+                                <span className="font-medium">작성시간</span>
+                                <span className="ml-2">
+                                    {inquiry.createdAt ? new Date(inquiry.createdAt).toLocaleString('ko-KR') : ''}
+                                </span>
+                            </div>
+
+                            <div>
+                                <h2 className="text-sm font-medium text-gray-300 mb-2">내용</h2>
+                                <p className="text-gray-300 whitespace-pre-wrap">{inquiry.content}</p>
+                            </div>
+
+                            {inquiry.attachments.length > 0 && (
+                                <div>
+                                    <h2 className="text-sm font-medium text-gray-300 mb-2">첨부 파일</h2>
+                                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                                        {inquiry.attachments.map((file) => {
+                                            const fileUrl = file.url || `/api/v1/posts/attachment/${file.id}`
+
+                                            return (
+                                                <a
+                                                    key={file.id}
+                                                    href={fileUrl}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="block"
+                                                >
+                                                    {isImageFile(file.fileName) ? (
+                                                        <div className="aspect-square relative rounded-lg overflow-hidden border border-gray-700">
+                                                            <Image
+                                                                src={fileUrl}
+                                                                alt={file.fileName || ''}
+                                                                fill
+                                                                className="object-cover"
+                                                            />
+                                                        </div>
+                                                    ) : (
+                                                        <div className="aspect-square flex flex-col items-center justify-center gap-2 p-3 rounded-lg border border-gray-700 bg-gray-900 text-gray-300">
+                                                            <span className="text-2xl">📄</span>
+                                                            <span className="text-xs text-center break-all line-clamp-2">
+                                                                {file.fileName}
+                                                            </span>
+                                                        </div>
+                                                    )}
+                                                </a>
+                                            )
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* 답변 목록 및 작성 */}
+                <div className="bg-gray-800 rounded-lg shadow-sm mb-6 border border-gray-700">
+                    <div className="p-8">
+                        <h2 className="text-xl font-bold mb-6 text-white">답변</h2>
+
+                        <div className="space-y-4 mb-6">
+                            {inquiry.replies.map((reply) => (
+                                <div key={reply.id} className="p-4 rounded-lg bg-gray-900 border border-gray-700">
+                                    {editingReplyId === reply.id ? (
+                                        <div className="space-y-2">
+                                            <textarea
+                                                value={editingContent}
+                                                onChange={(e) => setEditingContent(e.target.value)}
+                                                rows={4}
+                                                className="w-full px-4 py-2 border border-gray-600 rounded-lg focus:outline-none focus:border-[#FFB130] bg-gray-700 text-white"
+                                            />
+                                            <div className="flex justify-end gap-2">
+                                                <button
+                                                    onClick={() => setEditingReplyId(null)}
+                                                    className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200"
+                                                >
+                                                    취소
+                                                </button>
+                                                <button
+                                                    onClick={() => reply.id && handleUpdateReply(reply.id)}
+                                                    disabled={isSubmitting}
+                                                    className="px-3 py-1 text-sm bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90 disabled:opacity-50"
+                                                >
+                                                    저장
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <p className="text-gray-300 whitespace-pre-wrap">{reply.content}</p>
+                                            <div className="flex justify-end gap-2 mt-2">
+                                                <button
+                                                    onClick={() => {
+                                                        setEditingReplyId(reply.id ?? null)
+                                                        setEditingContent(reply.content || '')
+                                                    }}
+                                                    className="px-3 py-1 text-sm text-blue-400 hover:text-blue-300"
+                                                >
+                                                    수정
+                                                </button>
+                                                <button
+                                                    onClick={() => reply.id && handleDeleteReply(reply.id)}
+                                                    className="px-3 py-1 text-sm text-red-400 hover:text-red-300"
+                                                >
+                                                    삭제
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
+                            {inquiry.replies.length === 0 && (
+                                <p className="text-sm text-gray-400">아직 등록된 답변이 없습니다.</p>
+                            )}
+                        </div>
+
+                        <form onSubmit={handleCreateReply} className="space-y-2">
+                            <textarea
+                                value={replyContent}
+                                onChange={(e) => setReplyContent(e.target.value)}
+                                rows={5}
+                                placeholder="답변 내용을 입력해주세요"
+                                className="w-full px-4 py-2 border border-gray-600 rounded-lg focus:outline-none focus:border-[#FFB130] bg-gray-700 text-white"
+                            />
+                            <div className="flex justify-end">
+                                <button
+                                    type="submit"
+                                    disabled={isSubmitting || !replyContent.trim()}
+                                    className="px-6 py-2 bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90 disabled:opacity-50"
+                                >
+                                    {isSubmitting ? '등록 중...' : '답변 등록'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+
+                {/* 목록으로 버튼 */}
+                <Link
+                    href="/admin/inquiries"
+                    className="inline-flex items-center text-sm text-gray-400 hover:text-gray-200"
+                >
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth="2"
+                            d="M10 19l-7-7m0 0l7-7m-7 7h18"
+                        />
+                    </svg>
+                    목록으로 돌아가기
+                </Link>
+            </div>
+        </main>
+    )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { AnsweredFilter, InquiryColumn, InquiryType } from '@/components/admin/InquiryColumn'
+import Image from 'next/image'
+import { useState } from 'react'
+
+const inquiryTypes: InquiryType[] = ['QNA', 'REPORT', 'THEME']
+
+const answeredFilters: { value: AnsweredFilter; label: string }[] = [
+    { value: 'ALL', label: '전체' },
+    { value: 'UNANSWERED', label: '답변 대기' },
+    { value: 'ANSWERED', label: '답변 완료' },
+]
+
+export default function AdminInquiriesPage() {
+    const [searchKeyword, setSearchKeyword] = useState('')
+    const [appliedKeyword, setAppliedKeyword] = useState('')
+    const [answeredFilter, setAnsweredFilter] = useState<AnsweredFilter>('ALL')
+    const [includeDeleted, setIncludeDeleted] = useState(false)
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setAppliedKeyword(searchKeyword)
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-900">
+            <div className="max-w-7xl mx-auto px-4 py-8">
+                <div className="mb-8">
+                    <h1 className="text-2xl font-bold mb-2 text-white">문의 관리</h1>
+                    <p className="text-gray-400">답변 대기 중인 문의가 먼저 표시됩니다.</p>
+                </div>
+
+                {/* 검색 및 필터 */}
+                <div className="flex flex-wrap items-center gap-2 mb-6">
+                    <form onSubmit={handleSearch} className="relative flex-1 min-w-[240px]">
+                        <div className="absolute left-4 top-[14px] pointer-events-none">
+                            <Image src="/placeholder_search.svg" alt="검색" width={16} height={16} />
+                        </div>
+                        <input
+                            type="text"
+                            value={searchKeyword}
+                            onChange={(e) => setSearchKeyword(e.target.value)}
+                            placeholder="제목 또는 내용으로 검색"
+                            className="w-full pl-9 pr-4 py-2.5 h-10 border border-gray-700 rounded-lg focus:outline-none focus:border-gray-700 placeholder:text-gray-400 text-white bg-gray-800"
+                        />
+                    </form>
+                    <div className="flex gap-2">
+                        {answeredFilters.map((filter) => (
+                            <button
+                                key={filter.value}
+                                onClick={() => setAnsweredFilter(filter.value)}
+                                className={`px-4 h-10 rounded-lg text-sm ${
+                                    answeredFilter === filter.value
+                                        ? 'bg-[#FFB130] text-white'
+                                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                                }`}
+                            >
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 px-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={includeDeleted}
+                            onChange={(e) => setIncludeDeleted(e.target.checked)}
+                            className="accent-[#FFB130]"
+                        />
+                        삭제된 문의 포함
+                    </label>
+                </div>
+
+                {/* 유형별 문의 목록 */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {inquiryTypes.map((type) => (
+                        <InquiryColumn
+                            key={type}
+                            type={type}
+                            keyword={appliedKeyword}
+                            answeredFilter={answeredFilter}
+                            includeDeleted={includeDeleted}
+                        />
+                    ))}
+                </div>
+            </div>
+        </main>
+    )
+}
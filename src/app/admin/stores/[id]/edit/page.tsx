@@ -0,0 +1,17 @@
+'use client'
+
+import { AdminStoreForm } from '@/components/admin/AdminStoreForm'
+import { useParams } from 'next/navigation'
+
+export default function AdminEditStorePage() {
+    const params = useParams()
+    const storeId = Number(params?.id)
+
+    return (
+        <main className="bg-gray-900 min-h-screen">
+            <div className="max-w-6xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
+                <AdminStoreForm storeId={storeId} />
+            </div>
+        </main>
+    )
+}
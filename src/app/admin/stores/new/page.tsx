@@ -0,0 +1,13 @@
+'use client'
+
+import { AdminStoreForm } from '@/components/admin/AdminStoreForm'
+
+export default function AdminCreateStorePage() {
+    return (
+        <main className="bg-gray-900 min-h-screen">
+            <div className="max-w-6xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
+                <AdminStoreForm />
+            </div>
+        </main>
+    )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { StoreStatusBadge, storeStatuses } from '@/components/admin/StoreStatusBadge'
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+type StoreResponse = components['schemas']['StoreResponse']
+
+export default function AdminStoresPage() {
+    const { toast, confirm } = useFeedback()
+    const [stores, setStores] = useState<StoreResponse[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [searchKeyword, setSearchKeyword] = useState('')
+    const [appliedKeyword, setAppliedKeyword] = useState('')
+    const [statusFilter, setStatusFilter] = useState<string>('ALL')
+    const [selectedIds, setSelectedIds] = useState<number[]>([])
+    const [bulkStatus, setBulkStatus] = useState<string>('OPENED')
+    const [isUpdating, setIsUpdating] = useState(false)
+
+    const fetchStores = async (keyword: string) => {
+        setLoading(true)
+        setError(null)
+        try {
+            const response = await client.GET('/api/v1/admin/stores', {
+                params: {
+                    query: {
+                        keyword: keyword || undefined,
+                    },
+                },
+            })
+
+            if (response.error) {
+                throw new Error('매장 목록을 불러오는데 실패했습니다.')
+            }
+
+            setStores(response.data?.data || [])
+        } catch (err) {
+            console.error('관리자 매장 목록 조회 중 오류:', err)
+            setError('매장 목록을 불러오는데 실패했습니다.')
+            setStores([])
+        } finally {
+            setLoading(false)
+            setSelectedIds([])
+        }
+    }
+
+    useEffect(() => {
+        fetchStores(appliedKeyword)
+    }, [appliedKeyword])
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setAppliedKeyword(searchKeyword)
+    }
+
+    const filteredStores = statusFilter === 'ALL' ? stores : stores.filter((store) => store.status === statusFilter)
+
+    const isAllSelected =
+        filteredStores.length > 0 && filteredStores.every((store) => store.id && selectedIds.includes(store.id))
+
+    const toggleSelect = (id?: number) => {
+        if (!id) return
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id]))
+    }
+
+    const toggleSelectAll = () => {
+        setSelectedIds(isAllSelected ? [] : filteredStores.map((store) => store.id).filter((id): id is number => !!id))
+    }
+
+    // 매장 한 곳의 상태 변경 (DELETED는 삭제 API 사용)
+    // 필수값인 이름과 상태만 보내고, 목록에 없는 지역/전화번호와 바꾸지 않는 주소는 보내지 않는다
+    const updateStoreStatus = async (store: StoreResponse, status: string) => {
+        const response =
+            status === 'DELETED'
+                ? await client.DELETE('/api/v1/admin/stores/{id}', {
+                      params: {
+                          path: { id: store.id! },
+                      },
+                  })
+                : await client.PUT('/api/v1/admin/stores/{id}', {
+                      params: {
+                          path: { id: store.id! },
+                      },
+                      body: {
+                          name: store.name || '',
+                          status,
+                      },
+                  })
+
+        if (response.error) {
+            throw new Error(`매장(${store.id}) 상태 변경에 실패했습니다.`)
+        }
+    }
+
+    // 선택한 매장 일괄 상태 변경
+    const handleBulkUpdate = async () => {
+        if (selectedIds.length === 0) return
+
+        const statusLabel = storeStatuses.find((s) => s.value === bulkStatus)?.label
+        if (!(await confirm(`선택한 ${selectedIds.length}개 매장을 '${statusLabel}' 상태로 변경하시겠습니까?`))) return
+
+        setIsUpdating(true)
+        const targets = stores.filter((store) => store.id && selectedIds.includes(store.id))
+        const results = await Promise.allSettled(targets.map((store) => updateStoreStatus(store, bulkStatus)))
+
+        const failedCount = results.filter((result) => result.status === 'rejected').length
+        results.forEach((result) => {
+            if (result.status === 'rejected') {
+                console.error('매장 상태 일괄 변경 중 오류:', result.reason)
+            }
+        })
+
+        if (failedCount > 0) {
+            toast.error(`${targets.length}개 중 ${failedCount}개 매장의 상태 변경에 실패했습니다.`)
+        } else {
+            toast.success('매장 상태가 변경되었습니다.')
+        }
+
+        setIsUpdating(false)
+        fetchStores(appliedKeyword)
+    }
+
+    // 매장 삭제 (soft delete)
+    const handleDelete = async (store: StoreResponse) => {
+        if (!store.id) return
+
+        if (
+            !(await confirm({ message: `'${store.name}' 매장을 삭제하시겠습니까?`, confirmText: '삭제', danger: true }))
+        )
+            return
+
+        try {
+            await updateStoreStatus(store, 'DELETED')
+            setStores((prev) => prev.map((s) => (s.id === store.id ? { ...s, status: 'DELETED' } : s)))
+            toast.success('매장이 삭제되었습니다.')
+        } catch (err) {
+            console.error('매장 삭제 중 오류:', err)
+            toast.error('매장 삭제에 실패했습니다.')
+        }
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-900">
+            <div className="max-w-6xl mx-auto px-4 py-8">
+                <div className="flex justify-between items-center mb-8">
+                    <div>
+                        <h1 className="text-2xl font-bold mb-2 text-white">매장 관리</h1>
+                        <p className="text-gray-400">매장을 검색하고 등록, 수정, 상태 변경을 할 수 있습니다.</p>
+                    </div>
+                    <Link
+                        href="/admin/stores/new"
+                        className="px-4 py-2 bg-[#FFB130] text-white rounded-lg text-sm hover:bg-[#FFB130]/90"
+                    >
+                        매장 등록
+                    </Link>
+                </div>
+
+                {/* 검색 */}
+                <form onSubmit={handleSearch} className="relative mb-4">
+                    <div className="absolute left-4 top-[14px] pointer-events-none">
+                        <Image src="/placeholder_search.svg" alt="검색" width={16} height={16} />
+                    </div>
+                    <input
+                        type="text"
+                        value={searchKeyword}
+                        onChange={(e) => setSearchKeyword(e.target.value)}
+                        placeholder="매장명 또는 주소로 검색"
+                        className="w-full pl-9 pr-4 py-2.5 h-10 border border-gray-700 rounded-lg focus:outline-none focus:border-gray-700 placeholder:text-gray-400 text-white bg-gray-800"
+                    />
+                </form>
+
+                {/* 상태 필터 탭 */}
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {[{ value: 'ALL', label: '전체' }, ...storeStatuses].map((status) => (
+                        <button
+                            key={status.value}
+                            onClick={() => {
+                                setStatusFilter(status.value)
+                                setSelectedIds([])
+                            }}
+                            className={`px-4 py-2 rounded-full text-sm ${
+                                statusFilter === status.value
+                                    ? 'bg-[#FFB130] text-white'
+                                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                            }`}
+                        >
+                            {status.label}
+                            <span className="ml-1 text-xs opacity-80">
+                                {status.value === 'ALL'
+                                    ? stores.length
+                                    : stores.filter((store) => store.status === status.value).length}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+
+                {/* 일괄 상태 변경 */}
+                {selectedIds.length > 0 && (
+                    <div className="flex items-center gap-2 mb-4 p-3 bg-gray-800 rounded-lg border border-gray-700">
+                        <span className="text-sm text-gray-300">{selectedIds.length}개 선택됨</span>
+                        <select
+                            value={bulkStatus}
+                            onChange={(e) => setBulkStatus(e.target.value)}
+                            className="ml-auto px-3 py-1.5 border border-gray-600 rounded-lg bg-gray-700 text-white text-sm focus:outline-none"
+                        >
+                            {storeStatuses.map((status) => (
+                                <option key={status.value} value={status.value}>
+                                    {status.label}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleBulkUpdate}
+                            disabled={isUpdating}
+                            className="px-4 py-1.5 bg-[#FFB130] text-white rounded-lg text-sm hover:bg-[#FFB130]/90 disabled:opacity-50"
+                        >
+                            {isUpdating ? '변경 중...' : '상태 변경'}
+                        </button>
+                    </div>
+                )}
+
+                {/* 매장 목록 */}
+                <div className="w-full">
+                    <div className="grid bg-gray-800 grid-cols-12 items-center text-sm text-white border-y border-gray-700 py-4 px-4">
+                        <div className="col-span-1 text-center">
+                            <input
+                                type="checkbox"
+                                checked={isAllSelected}
+                                onChange={toggleSelectAll}
+                                className="accent-[#FFB130]"
+                            />
+                        </div>
+                        <div className="col-span-1 text-center">ID</div>
+                        <div className="col-span-3">매장명</div>
+                        <div className="col-span-4">주소</div>
+                        <div className="col-span-1 text-center">상태</div>
+                        <div className="col-span-2 text-center">관리</div>
+                    </div>
+
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-200"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-8 text-red-400 bg-gray-800 border-b border-gray-700">
+                            {error}
+                        </div>
+                    ) : filteredStores.length > 0 ? (
+                        filteredStores.map((store) => (
+                            <div
+                                key={store.id}
+                                className="grid grid-cols-12 items-center text-sm border-b border-gray-700 py-4 px-4 hover:bg-gray-800 text-gray-300"
+                            >
+                                <div className="col-span-1 text-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!store.id && selectedIds.includes(store.id)}
+                                        onChange={() => toggleSelect(store.id)}
+                                        className="accent-[#FFB130]"
+                                    />
+                                </div>
+                                <div className="col-span-1 text-center">{store.id}</div>
+                                <div className="col-span-3 truncate">{store.name}</div>
+                                <div className="col-span-4 truncate">{store.address}</div>
+                                <div className="col-span-1 text-center">
+                                    <StoreStatusBadge status={store.status} />
+                                </div>
+                                <div className="col-span-2 flex justify-center gap-2">
+                                    <Link
+                                        href={`/admin/stores/${store.id}/edit`}
+                                        className="px-3 py-1 text-blue-400 hover:text-blue-300"
+                                    >
+                                        수정
+                                    </Link>
+                                    {store.status !== 'DELETED' && (
+                                        <button
+                                            onClick={() => handleDelete(store)}
+                                            className="px-3 py-1 text-red-400 hover:text-red-300"
+                                        >
+                                            삭제
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    ) : (
+                        <div className="text-center py-8 text-gray-400 bg-gray-800 border-b border-gray-700">
+                            검색된 매장이 없습니다.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </main>
+    )
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { AdminThemeForm } from '@/components/admin/AdminThemeForm'
+import { useParams } from 'next/navigation'
+
+export default function AdminEditThemePage() {
+    const params = useParams()
+    const themeId = Number(params?.id)
+
+    return (
+        <main className="bg-gray-900 min-h-screen">
+            <div className="max-w-6xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
+                <AdminThemeForm themeId={themeId} />
+            </div>
+        </main>
+    )
+}
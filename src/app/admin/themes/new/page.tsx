@@ -0,0 +1,13 @@
+'use client'
+
+import { AdminThemeForm } from '@/components/admin/AdminThemeForm'
+
+export default function AdminCreateThemePage() {
+    return (
+        <main className="bg-gray-900 min-h-screen">
+            <div className="max-w-6xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
+                <AdminThemeForm />
+            </div>
+        </main>
+    )
+}
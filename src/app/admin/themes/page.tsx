@@ -0,0 +1,239 @@
+'use client'
+
+import { FilterValues, ThemeFilterModal } from '@/components/theme/ThemeFilterModal'
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+type SimpleThemeResponse = components['schemas']['SimpleThemeResponse']
+
+const ITEMS_PER_PAGE = 20
+
+export default function AdminThemesPage() {
+    const { toast, confirm } = useFeedback()
+    const [themes, setThemes] = useState<SimpleThemeResponse[]>([])
+    const [page, setPage] = useState(0)
+    const [hasNext, setHasNext] = useState(false)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [searchKeyword, setSearchKeyword] = useState('')
+    const [appliedKeyword, setAppliedKeyword] = useState('')
+    const [filters, setFilters] = useState<FilterValues>({
+        regions: [],
+        genres: [],
+        participant: '',
+        subRegions: [],
+        genreNames: [],
+    })
+    const [filterModalOpen, setFilterModalOpen] = useState(false)
+
+    useEffect(() => {
+        const fetchThemes = async () => {
+            setLoading(true)
+            setError(null)
+            try {
+                const response = await client.POST('/api/v1/admin/themes/search', {
+                    params: {
+                        query: {
+                            page,
+                            size: ITEMS_PER_PAGE,
+                        },
+                    },
+                    body: {
+                        regionId: filters.regions.map((region) => parseInt(region)),
+                        tagIds: filters.genres,
+                        participants: filters.participant ? parseInt(filters.participant) : undefined,
+                        keyword: appliedKeyword || undefined,
+                    },
+                })
+
+                if (response.error) {
+                    throw new Error('테마 목록을 불러오는데 실패했습니다.')
+                }
+
+                setThemes(response.data?.data?.content || [])
+                setHasNext(response.data?.data?.hasNext || false)
+            } catch (err) {
+                console.error('관리자 테마 목록 조회 중 오류:', err)
+                setError('테마 목록을 불러오는데 실패했습니다.')
+                setThemes([])
+                setHasNext(false)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchThemes()
+    }, [page, appliedKeyword, filters])
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setPage(0)
+        setAppliedKeyword(searchKeyword)
+    }
+
+    const handleFilterApply = (newFilters: FilterValues) => {
+        setPage(0)
+        setFilters(newFilters)
+    }
+
+    // 테마 삭제 (soft delete)
+    const handleDelete = async (theme: SimpleThemeResponse) => {
+        if (!theme.themeId) return
+
+        if (
+            !(await confirm({
+                message: `'${theme.themeName}' 테마를 삭제하시겠습니까?`,
+                confirmText: '삭제',
+                danger: true,
+            }))
+        )
+            return
+
+        try {
+            const response = await client.DELETE('/api/v1/admin/themes/{id}', {
+                params: {
+                    path: { id: theme.themeId },
+                },
+            })
+
+            if (response.error) {
+                throw new Error('테마 삭제에 실패했습니다.')
+            }
+
+            setThemes((prev) => prev.filter((t) => t.themeId !== theme.themeId))
+            toast.success('테마가 삭제되었습니다.')
+        } catch (err) {
+            console.error('테마 삭제 중 오류:', err)
+            toast.error('테마 삭제에 실패했습니다.')
+        }
+    }
+
+    const appliedFilterText = [
+        filters.subRegions.length > 0 ? `지역: ${filters.subRegions.join(', ')}` : '',
+        filters.genreNames.length > 0 ? `장르: ${filters.genreNames.join(', ')}` : '',
+        filters.participant ? `인원: ${filters.participant}명` : '',
+    ]
+        .filter(Boolean)
+        .join(' | ')
+
+    return (
+        <main className="min-h-screen bg-gray-900">
+            <div className="max-w-6xl mx-auto px-4 py-8">
+                <div className="flex justify-between items-center mb-8">
+                    <div>
+                        <h1 className="text-2xl font-bold mb-2 text-white">테마 관리</h1>
+                        <p className="text-gray-400">테마를 검색하고 등록, 수정, 삭제할 수 있습니다.</p>
+                    </div>
+                    <Link
+                        href="/admin/themes/new"
+                        className="px-4 py-2 bg-[#FFB130] text-white rounded-lg text-sm hover:bg-[#FFB130]/90"
+                    >
+                        테마 등록
+                    </Link>
+                </div>
+
+                {/* 검색 및 필터 */}
+                <div className="flex items-center gap-2 mb-3">
+                    <form onSubmit={handleSearch} className="relative flex-1">
+                        <div className="absolute left-4 top-[14px] pointer-events-none">
+                            <Image src="/placeholder_search.svg" alt="검색" width={16} height={16} />
+                        </div>
+                        <input
+                            type="text"
+                            value={searchKeyword}
+                            onChange={(e) => setSearchKeyword(e.target.value)}
+                            placeholder="테마 이름으로 검색"
+                            className="w-full pl-9 pr-4 py-2.5 h-10 border border-gray-700 rounded-lg focus:outline-none focus:border-gray-700 placeholder:text-gray-400 text-white bg-gray-800"
+                        />
+                    </form>
+                    <button
+                        onClick={() => setFilterModalOpen(true)}
+                        className="px-4 h-10 bg-black text-white text-sm rounded-lg hover:bg-gray-800"
+                    >
+                        검색필터
+                    </button>
+                </div>
+                {appliedFilterText && <p className="text-sm text-gray-400 mb-6">{appliedFilterText}</p>}
+
+                {/* 테마 목록 */}
+                <div className="w-full mt-6">
+                    <div className="grid bg-gray-800 grid-cols-12 text-sm text-white border-y border-gray-700 py-4 px-4">
+                        <div className="col-span-1 text-center">ID</div>
+                        <div className="col-span-5">테마명</div>
+                        <div className="col-span-4">매장</div>
+                        <div className="col-span-2 text-center">관리</div>
+                    </div>
+
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-200"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-8 text-red-400 bg-gray-800 border-b border-gray-700">
+                            {error}
+                        </div>
+                    ) : themes.length > 0 ? (
+                        themes.map((theme) => (
+                            <div
+                                key={theme.themeId}
+                                className="grid grid-cols-12 items-center text-sm border-b border-gray-700 py-4 px-4 hover:bg-gray-800 text-gray-300"
+                            >
+                                <div className="col-span-1 text-center">{theme.themeId}</div>
+                                <div className="col-span-5 truncate">{theme.themeName}</div>
+                                <div className="col-span-4 truncate">{theme.storeName}</div>
+                                <div className="col-span-2 flex justify-center gap-2">
+                                    <Link
+                                        href={`/admin/themes/${theme.themeId}/edit`}
+                                        className="px-3 py-1 text-blue-400 hover:text-blue-300"
+                                    >
+                                        수정
+                                    </Link>
+                                    <button
+                                        onClick={() => handleDelete(theme)}
+                                        className="px-3 py-1 text-red-400 hover:text-red-300"
+                                    >
+                                        삭제
+                                    </button>
+                                </div>
+                            </div>
+                        ))
+                    ) : (
+                        <div className="text-center py-8 text-gray-400 bg-gray-800 border-b border-gray-700">
+                            검색된 테마가 없습니다.
+                        </div>
+                    )}
+                </div>
+
+                {/* 페이지 이동 */}
+                <div className="flex justify-center mt-8 gap-2">
+                    <button
+                        onClick={() => setPage((prev) => Math.max(0, prev - 1))}
+                        disabled={page === 0 || loading}
+                        className="px-4 h-8 flex items-center justify-center border border-gray-700 rounded hover:bg-gray-800 disabled:opacity-50 text-gray-300"
+                    >
+                        이전
+                    </button>
+                    <span className="px-3 h-8 flex items-center text-gray-300">{page + 1}</span>
+                    <button
+                        onClick={() => setPage((prev) => prev + 1)}
+                        disabled={!hasNext || loading}
+                        className="px-4 h-8 flex items-center justify-center border border-gray-700 rounded hover:bg-gray-800 disabled:opacity-50 text-gray-300"
+                    >
+                        다음
+                    </button>
+                </div>
+            </div>
+
+            <ThemeFilterModal
+                isOpen={filterModalOpen}
+                onClose={() => setFilterModalOpen(false)}
+                onApply={handleFilterApply}
+                currentFilters={filters}
+            />
+        </main>
+    )
+}
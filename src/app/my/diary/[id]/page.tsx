@@ -1,10 +1,16 @@
 'use client'
 
+import { DiaryExportModal } from '@/components/diary/DiaryExportModal'
+import { DiaryGalleryLightbox } from '@/components/diary/DiaryGalleryLightbox'
 import { paths } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { forgetDiaryAnalytics } from '@/stores/diary/diaryAnalytics'
+import { forgetDiaryGallery, getDiaryImages, useDiaryGalleries } from '@/stores/diary/diaryGalleries'
+import { forgetDiary } from '@/stores/diary/partyDiaries'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { use, useEffect, useState } from 'react'
+import { use, useCallback, useEffect, useState } from 'react'
 import 'slick-carousel/slick/slick-theme.css'
 import 'slick-carousel/slick/slick.css'
 
@@ -47,33 +53,23 @@ const CircularRating = ({ value, label }: { value: number; label: string }) => {
     )
 }
 
-// 이미지 모달 컴포넌트
-const ImageModal = ({ imageUrl, onClose }: { imageUrl: string; onClose: () => void }) => {
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
-            <div className="relative w-[70vw] h-[70vh]" onClick={(e) => e.stopPropagation()}>
-                <img src={imageUrl} alt="확대된 탈출 사진" className="w-full h-full object-contain" />
-                <button onClick={onClose} className="absolute top-4 right-4 text-white hover:text-gray-300">
-                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                </button>
-            </div>
-        </div>
-    )
-}
-
 export default function Page({ params }: { params: Promise<{ id: string }> }) {
     const unwrappedParams = use(params)
     const [diary, setDiary] = useState<DiaryResponse['data'] | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
-    const [showImageModal, setShowImageModal] = useState(false)
+    // 크게 보고 있는 사진 위치 (null이면 닫힘)
+    const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+    const [isExportOpen, setIsExportOpen] = useState(false)
+    const diaryGalleries = useDiaryGalleries()
     const router = useRouter()
+    const { toast, confirm } = useFeedback()
 
     // 삭제 핸들러 함수 추가
     const handleDelete = async () => {
-        if (!confirm('정말로 이 탈출일지를 삭제하시겠습니까?')) {
+        if (
+            !(await confirm({ message: '정말로 이 탈출일지를 삭제하시겠습니까?', confirmText: '삭제', danger: true }))
+        ) {
             return
         }
 
@@ -91,12 +87,15 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
             }
 
             if (data) {
-                alert('탈출일지가 성공적으로 삭제되었습니다.')
+                forgetDiary(Number(unwrappedParams.id))
+                forgetDiaryGallery(Number(unwrappedParams.id))
+                forgetDiaryAnalytics(Number(unwrappedParams.id))
+                toast.success('탈출일지가 성공적으로 삭제되었습니다.')
                 router.push('/my/diary')
             }
         } catch (error) {
             console.error('Error deleting diary:', error)
-            alert('탈출일지 삭제에 실패했습니다.')
+            toast.error('탈출일지 삭제에 실패했습니다.')
         }
     }
 
@@ -134,6 +133,9 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
         fetchDiary()
     }, [unwrappedParams.id])
 
+    const closeLightbox = useCallback(() => setLightboxIndex(null), [])
+    const closeExport = useCallback(() => setIsExportOpen(false), [])
+
     if (isLoading) {
         return (
             <main className="min-h-screen bg-gray-50">
@@ -159,6 +161,9 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
         )
     }
 
+    // 이 브라우저에 저장한 사진 목록 (없으면 대표 사진 하나)
+    const images = getDiaryImages(Number(unwrappedParams.id), diary.imageUrl, diaryGalleries)
+
     return (
         <main className="min-h-screen bg-gray-900">
             <div className="max-w-7xl mx-auto px-4 py-8">
@@ -174,6 +179,12 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
                         목록으로
                     </Link>
                     <div className="flex gap-2">
+                        <button
+                            onClick={() => setIsExportOpen(true)}
+                            className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                        >
+                            내보내기
+                        </button>
                         <Link
                             href={`/my/diary/${diary.id}/edit`}
                             className="px-4 py-2 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] transition-colors"
@@ -232,13 +243,20 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
                         <h2 className="text-lg font-semibold mb-4 text-white">탈출 사진</h2>
                         <div className="flex-1 relative h-[200px]">
                             <div className="absolute inset-0 rounded-lg overflow-hidden bg-gray-700">
-                                {diary.imageUrl ? (
-                                    <img
-                                        src={diary.imageUrl}
-                                        alt="탈출 사진"
-                                        className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                                        onClick={() => setShowImageModal(true)}
-                                    />
+                                {images.length > 0 ? (
+                                    <>
+                                        <img
+                                            src={images[0]}
+                                            alt="탈출 사진"
+                                            className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                                            onClick={() => setLightboxIndex(0)}
+                                        />
+                                        {images.length > 1 && (
+                                            <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-black/60 text-xs text-white">
+                                                1 / {images.length}
+                                            </span>
+                                        )}
+                                    </>
                                 ) : (
                                     <div className="w-full h-full flex items-center justify-center">
                                         <svg
@@ -258,6 +276,29 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
                                 )}
                             </div>
                         </div>
+                        {images.length > 1 && (
+                            <>
+                                <div className="flex gap-2 mt-3 overflow-x-auto">
+                                    {images.map((url, index) => (
+                                        <button
+                                            key={url}
+                                            type="button"
+                                            onClick={() => setLightboxIndex(index)}
+                                            className="flex-shrink-0 w-16 h-16 rounded-md overflow-hidden bg-gray-700 hover:opacity-80 transition-opacity"
+                                        >
+                                            <img
+                                                src={url}
+                                                alt={`탈출 사진 ${index + 1}`}
+                                                className="w-full h-full object-cover"
+                                            />
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-2">
+                                    대표 사진 외의 사진은 이 브라우저에만 저장되어 다른 기기에서는 보이지 않습니다.
+                                </p>
+                            </>
+                        )}
                     </div>
 
                     {/* 플레이 정보 카드 */}
@@ -489,10 +530,13 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
                     </div>
                 </div>
 
-                {/* 이미지 모달 */}
-                {showImageModal && diary.imageUrl && (
-                    <ImageModal imageUrl={diary.imageUrl} onClose={() => setShowImageModal(false)} />
+                {/* 사진 크게 보기 */}
+                {lightboxIndex !== null && images.length > 0 && (
+                    <DiaryGalleryLightbox images={images} initialIndex={lightboxIndex} onClose={closeLightbox} />
                 )}
+
+                {/* 카드 이미지 / PDF 내보내기 */}
+                {isExportOpen && <DiaryExportModal diary={diary} onClose={closeExport} />}
             </div>
         </main>
     )
@@ -0,0 +1,63 @@
+'use client'
+
+import { DiaryPrintSheet } from '@/components/diary/DiaryPrintSheet'
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { getDiaryImages, useDiaryGalleries } from '@/stores/diary/diaryGalleries'
+import Link from 'next/link'
+import { use, useEffect, useState } from 'react'
+
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 탈출일지 인쇄 (브라우저 인쇄 창에서 "PDF로 저장"을 고르면 PDF로 내보낼 수 있다)
+export default function Page({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = use(params)
+    const diaryId = Number(id)
+    const [diary, setDiary] = useState<DiaryDto | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const diaryGalleries = useDiaryGalleries()
+
+    useEffect(() => {
+        unwrap(
+            client.GET('/api/v1/diaries/{id}', {
+                params: {
+                    path: { id: diaryId },
+                },
+            }),
+        ).then(({ data, error }) => {
+            if (error || !data) {
+                console.error('일지 조회 실패:', error)
+                setError('탈출일지를 불러오는데 실패했습니다.')
+                return
+            }
+            setDiary(data)
+        })
+    }, [diaryId])
+
+    return (
+        <main className="min-h-screen bg-gray-900 print:bg-white py-8 print:py-0">
+            <div className="max-w-3xl mx-auto px-4 mb-6 flex justify-between items-center print:hidden">
+                <Link href={`/my/diary/${diaryId}`} className="text-[#FFB130] hover:text-[#F0A120] transition-colors">
+                    일지로 돌아가기
+                </Link>
+                <button
+                    onClick={() => window.print()}
+                    disabled={!diary}
+                    className="px-4 py-2 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] transition-colors disabled:opacity-50"
+                >
+                    인쇄 / PDF 저장
+                </button>
+            </div>
+
+            {error ? (
+                <p className="text-center text-red-400">{error}</p>
+            ) : diary ? (
+                <DiaryPrintSheet diary={diary} images={getDiaryImages(diaryId, diary.imageUrl, diaryGalleries)} />
+            ) : (
+                <div className="flex justify-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                </div>
+            )}
+        </main>
+    )
+}
@@ -4,9 +4,10 @@ import { PageLoading } from '@/components/common/PageLoading'
 import { DiarySearch } from '@/components/diary/DiarySearch'
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { parseDiaryListQuery } from '@/lib/diaryStats'
 import Image from 'next/image'
 import Link from 'next/link'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useEffect, useRef, useState } from 'react'
 
 // DiaryListDto 타입 사용
@@ -30,12 +31,20 @@ interface PaginationInfo {
 
 export default function DiaryPage() {
     const router = useRouter()
+    const searchParams = useSearchParams()
+    // 통계 화면에서 넘어온 검색 조건 (장르, 기간)
+    const [linkedQuery] = useState(() => parseDiaryListQuery(searchParams))
     const [diaries, setDiaries] = useState<Diary[]>([])
     const [loading, setLoading] = useState(false)
     const [initialLoading, setInitialLoading] = useState(true)
     const [searchKeyword, setSearchKeyword] = useState('')
     const [isFilterModalOpen, setIsFilterModalOpen] = useState(false)
-    const [filter, setFilter] = useState<DiaryFilter>({ keyword: '' })
+    const [filter, setFilter] = useState<DiaryFilter>({
+        keyword: '',
+        tagIds: linkedQuery.tagIds?.length ? linkedQuery.tagIds : undefined,
+        startDate: linkedQuery.startDate,
+        endDate: linkedQuery.endDate,
+    })
     const [appliedFiltersCount, setAppliedFiltersCount] = useState(0)
     const [pagination, setPagination] = useState<PaginationInfo>({
         totalPages: 1,
@@ -45,7 +54,7 @@ export default function DiaryPage() {
     const searchInputRef = useRef<HTMLInputElement>(null)
     const filterModalRef = useRef<HTMLDivElement>(null)
     const [filterSubRegions, setFilterSubRegions] = useState<string[]>([])
-    const [filterGenreNames, setFilterGenreNames] = useState<string[]>([])
+    const [filterGenreNames, setFilterGenreNames] = useState<string[]>(linkedQuery.genreNames ?? [])
 
     // 검색어 입력 지연 처리를 위한 타이머
     const searchTimer = useRef<NodeJS.Timeout | null>(null)
@@ -347,12 +356,20 @@ export default function DiaryPage() {
             <main className="container mx-auto px-4 py-10">
                 <div className="flex justify-between items-center mb-8">
                     <h1 className="text-3xl font-bold text-white">나의 탈출일지</h1>
-                    <Link
-                        href="/my/diary/new"
-                        className="bg-[#FFB130] text-black px-5 py-2 rounded-full font-medium hover:bg-[#F0A420] transition"
-                    >
-                        일지 작성하기
-                    </Link>
+                    <div className="flex gap-2">
+                        <Link
+                            href="/my/diary/review"
+                            className="border border-gray-600 text-gray-300 px-5 py-2 rounded-full font-medium hover:bg-gray-800 transition"
+                        >
+                            연말 결산
+                        </Link>
+                        <Link
+                            href="/my/diary/new"
+                            className="bg-[#FFB130] text-black px-5 py-2 rounded-full font-medium hover:bg-[#F0A420] transition"
+                        >
+                            일지 작성하기
+                        </Link>
+                    </div>
                 </div>
 
                 {/* 검색 및 필터 섹션 */}
@@ -0,0 +1,222 @@
+'use client'
+
+import { DiaryPrintSheet } from '@/components/diary/DiaryPrintSheet'
+import { components } from '@/lib/backend/apiV1/schema'
+import { fetchAllDiaries, fetchDiaryDetails } from '@/lib/backend/diaryList'
+import { formatElapsedTime } from '@/lib/diaryCard'
+import { getDiaryImages, useDiaryGalleries } from '@/stores/diary/diaryGalleries'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 최근 몇 해까지 고를 수 있게 할지
+const YEAR_OPTIONS = 5
+
+type Progress = { loaded: number; total: number }
+
+// 한 해 동안의 일지 요약
+const summarize = (diaries: DiaryDto[]) => {
+    const successes = diaries.filter((diary) => diary.escapeResult)
+    const timedSuccesses = successes.filter((diary) => diary.elapsedTime)
+
+    const monthly = Array.from({ length: 12 }, () => 0)
+    const storeCounts = new Map<string, number>()
+    diaries.forEach((diary) => {
+        if (diary.escapeDate) monthly[Number(diary.escapeDate.slice(5, 7)) - 1]++
+        if (diary.storeName) storeCounts.set(diary.storeName, (storeCounts.get(diary.storeName) ?? 0) + 1)
+    })
+
+    return {
+        count: diaries.length,
+        successRate: diaries.length ? Math.round((successes.length / diaries.length) * 100) : 0,
+        averageTime: timedSuccesses.length
+            ? Math.round(
+                  timedSuccesses.reduce((sum, diary) => sum + (diary.elapsedTime ?? 0), 0) / timedSuccesses.length,
+              )
+            : 0,
+        noHintCount: diaries.filter((diary) => diary.escapeResult && !diary.hintCount).length,
+        monthly,
+        topStores: [...storeCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3),
+        bestThemes: [...diaries]
+            .filter((diary) => diary.satisfaction)
+            .sort((a, b) => (b.satisfaction ?? 0) - (a.satisfaction ?? 0))
+            .slice(0, 3),
+    }
+}
+
+// 연말 결산 책자 (한 해의 탈출일지를 표지 요약 + 일지별 한 장으로 인쇄)
+export default function Page() {
+    const currentYear = new Date().getFullYear()
+    const [year, setYear] = useState(currentYear)
+    const [diaries, setDiaries] = useState<DiaryDto[] | null>(null)
+    const [progress, setProgress] = useState<Progress | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const diaryGalleries = useDiaryGalleries()
+
+    useEffect(() => {
+        let cancelled = false
+
+        const load = async () => {
+            setDiaries(null)
+            setError(null)
+            setProgress(null)
+
+            const list = await fetchAllDiaries({ startDate: `${year}-01-01`, endDate: `${year}-12-31` })
+            if (cancelled) return
+            if (list.error) {
+                console.error('일지 목록 조회 실패:', list.error)
+                setError('탈출일지 목록을 불러오지 못했습니다.')
+                return
+            }
+
+            const ids = list.data.flatMap((diary) => (diary.id ? [diary.id] : []))
+            setProgress({ loaded: 0, total: ids.length })
+
+            const details = await fetchDiaryDetails(ids, (loaded) => {
+                if (!cancelled) setProgress({ loaded, total: ids.length })
+            })
+            if (cancelled) return
+            if (details.error) {
+                console.error('일지 상세 조회 실패:', details.error)
+                setError('탈출일지를 불러오지 못했습니다.')
+                return
+            }
+
+            setDiaries(details.data.sort((a, b) => (a.escapeDate ?? '').localeCompare(b.escapeDate ?? '')))
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [year])
+
+    const summary = diaries ? summarize(diaries) : null
+    const maxMonthly = summary ? Math.max(...summary.monthly, 1) : 1
+
+    return (
+        <main className="min-h-screen bg-gray-900 print:bg-white py-8 print:py-0">
+            <div className="max-w-3xl mx-auto px-4 mb-6 flex flex-wrap gap-2 justify-between items-center print:hidden">
+                <Link href="/my/diary" className="text-[#FFB130] hover:text-[#F0A120] transition-colors">
+                    일지 목록으로
+                </Link>
+                <div className="flex gap-2">
+                    <select
+                        value={year}
+                        onChange={(e) => setYear(Number(e.target.value))}
+                        className="px-3 py-2 bg-gray-800 text-white border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FFB130]"
+                    >
+                        {Array.from({ length: YEAR_OPTIONS }, (_, index) => currentYear - index).map((option) => (
+                            <option key={option} value={option}>
+                                {option}년
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => window.print()}
+                        disabled={!diaries?.length}
+                        className="px-4 py-2 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] transition-colors disabled:opacity-50"
+                    >
+                        인쇄 / PDF 저장
+                    </button>
+                </div>
+            </div>
+
+            {error ? (
+                <p className="text-center text-red-400">{error}</p>
+            ) : !diaries || !summary ? (
+                <div className="flex flex-col items-center gap-3 text-gray-400">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                    {progress && progress.total > 0 && (
+                        <p className="text-sm">
+                            일지 불러오는 중 ({progress.loaded}/{progress.total})
+                        </p>
+                    )}
+                </div>
+            ) : diaries.length === 0 ? (
+                <p className="text-center text-gray-400">{year}년에 작성한 탈출일지가 없습니다.</p>
+            ) : (
+                <>
+                    {/* 표지 */}
+                    <section className="bg-white text-gray-900 max-w-3xl mx-auto p-8 mb-8 rounded-lg shadow print:shadow-none print:rounded-none print:m-0 print:p-0 break-after-page">
+                        <p className="text-sm font-semibold text-[#F0A120] mb-1">ESCAPE DIARY</p>
+                        <h1 className="text-4xl font-bold mb-8">{year}년 방탈출 결산</h1>
+
+                        <div className="grid grid-cols-4 gap-3 mb-8">
+                            {[
+                                { label: '탈출한 방', value: `${summary.count}개` },
+                                { label: '탈출 성공률', value: `${summary.successRate}%` },
+                                { label: '평균 탈출 시간', value: formatElapsedTime(summary.averageTime) },
+                                { label: '노힌트 탈출', value: `${summary.noHintCount}회` },
+                            ].map((item) => (
+                                <div key={item.label} className="border border-gray-200 rounded-lg p-3">
+                                    <p className="text-xs text-gray-500 mb-1">{item.label}</p>
+                                    <p className="text-xl font-bold">{item.value}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <h2 className="font-semibold mb-3">월별 기록</h2>
+                        <div className="flex items-end gap-2 h-40 mb-8">
+                            {summary.monthly.map((count, index) => (
+                                <div key={index} className="flex-1 flex flex-col items-center justify-end h-full">
+                                    <span className="text-xs text-gray-500 mb-1">{count || ''}</span>
+                                    <div
+                                        className="w-full bg-[#FFB130] rounded-t print:[print-color-adjust:exact]"
+                                        style={{ height: `${(count / maxMonthly) * 100}%` }}
+                                    />
+                                    <span className="text-xs text-gray-500 mt-1">{index + 1}월</span>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-6">
+                            <div>
+                                <h2 className="font-semibold mb-3">자주 간 매장</h2>
+                                <ol className="space-y-1 text-sm">
+                                    {summary.topStores.map(([storeName, count], index) => (
+                                        <li key={storeName} className="flex justify-between">
+                                            <span>
+                                                {index + 1}. {storeName}
+                                            </span>
+                                            <span className="text-gray-500">{count}회</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            <div>
+                                <h2 className="font-semibold mb-3">만족도 높았던 테마</h2>
+                                <ol className="space-y-1 text-sm">
+                                    {summary.bestThemes.map((diary, index) => (
+                                        <li key={diary.id} className="flex justify-between">
+                                            <span>
+                                                {index + 1}. {diary.themeName}
+                                            </span>
+                                            <span className="text-gray-500">{diary.satisfaction} / 5</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                        </div>
+                    </section>
+
+                    {diaries.map((diary) => (
+                        <DiaryPrintSheet
+                            key={diary.id}
+                            diary={diary}
+                            images={
+                                diary.id !== undefined
+                                    ? getDiaryImages(diary.id, diary.imageUrl, diaryGalleries)
+                                    : diary.imageUrl
+                                      ? [diary.imageUrl]
+                                      : []
+                            }
+                        />
+                    ))}
+                </>
+            )}
+        </main>
+    )
+}
@@ -3,74 +3,57 @@
 import { KakaoMap } from '@/components/common/KakaoMap'
 import PartyReviewModal from '@/components/party/PartyReviewModal'
 import { components } from '@/lib/backend/apiV1/schema'
-import client from '@/lib/backend/client'
+import client, { unwrap } from '@/lib/backend/client'
+import { fetchPartyHistory, partyHistoryKey } from '@/lib/backend/partyQueries'
+import { invalidateQueries, useQuery } from '@/lib/backend/queryCache'
+import { downloadPartyCalendar, PartyCalendarEvent } from '@/lib/partyCalendar'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { usePartyDiaries } from '@/stores/diary/partyDiaries'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 
 type MyJoinedPartySummaryResponse = components['schemas']['MyJoinedPartySummaryResponse']
-type SuccessResponsePageDtoMyJoinedPartySummaryResponse =
-    components['schemas']['SuccessResponsePageDtoMyJoinedPartySummaryResponse']
+type PageDtoMyJoinedPartySummaryResponse = components['schemas']['PageDtoMyJoinedPartySummaryResponse']
+
+// 캘린더로 내보낼 때 모임 상세를 동시에 조회하는 수
+const EXPORT_CONCURRENCY = 4
 
 export default function HistoryPage() {
     const router = useRouter()
     const { isLogin } = useGlobalLoginMember()
+    const { toast } = useFeedback()
+    const partyDiaries = usePartyDiaries()
     // 상태 관리
     const [activeTab, setActiveTab] = useState<'upcoming' | 'past'>('upcoming')
     const [statusFilter, setStatusFilter] = useState<'ALL' | 'WRITABLE' | 'COMPLETED' | 'NOT_WRITABLE'>('ALL')
     const [roleFilter, setRoleFilter] = useState<'ALL' | 'HOST' | 'PARTICIPANT'>('ALL')
-    const [allParties, setAllParties] = useState<MyJoinedPartySummaryResponse[]>([])
     const [filteredParties, setFilteredParties] = useState<MyJoinedPartySummaryResponse[]>([])
     const [currentPage, setCurrentPage] = useState(1)
-    const [isLoading, setIsLoading] = useState(false)
-    const [error, setError] = useState<string | null>(null)
     const [selectedMapParty, setSelectedMapParty] = useState<number | null>(null)
     const [isModalOpen, setIsModalOpen] = useState(false)
     const [selectedPartyId, setSelectedPartyId] = useState<number | null>(null)
     const [selectedThemeDetail, setSelectedThemeDetail] = useState<any>(null)
-
-    // 모임 데이터 가져오기
-    useEffect(() => {
-        if (!isLogin) {
-            setError('로그인이 필요합니다.')
-            setIsLoading(false)
-            return
-        }
-
-        setIsLoading(true)
-        setError(null)
-
-        // 전체 데이터를 한 번에 가져오기
-        client
-            .GET('/api/v1/parties/joins/me', {
-                params: {
-                    query: {
-                        page: currentPage - 1,
-                        size: 100,
-                    },
-                },
-            })
-            .then((response) => {
-                console.log('API 응답 데이터:', response)
-
-                const responseData = response.data as SuccessResponsePageDtoMyJoinedPartySummaryResponse
-                if (!responseData?.data?.items) {
-                    setError('데이터를 불러오는데 실패했습니다.')
-                    setIsLoading(false)
-                    return
-                }
-
-                setAllParties(responseData.data.items)
-                setIsLoading(false)
-            })
-            .catch((error: Error) => {
-                console.error('API 요청 에러:', error)
-                setError('데이터를 불러오는 중 오류가 발생했습니다.')
-                setIsLoading(false)
-            })
-    }, [isLogin])
+    const [isExporting, setIsExporting] = useState(false)
+
+    // 모임 데이터 가져오기 (전체 데이터를 한 번에 가져오기)
+    // 모임 상세에서 바뀐 참가 인원은 쿼리 캐시를 통해 바로 반영된다
+    const {
+        data: historyPage,
+        error: historyError,
+        loading: isLoading,
+    } = useQuery<PageDtoMyJoinedPartySummaryResponse>(partyHistoryKey, fetchPartyHistory, { enabled: isLogin })
+    const allParties = useMemo(() => historyPage?.items || [], [historyPage])
+
+    const getErrorMessage = () => {
+        if (!isLogin) return '로그인이 필요합니다.'
+        if (historyError) return '데이터를 불러오는 중 오류가 발생했습니다.'
+        if (historyPage && !historyPage.items) return '데이터를 불러오는데 실패했습니다.'
+        return null
+    }
+    const error = getErrorMessage()
 
     // 필터링 로직
     useEffect(() => {
@@ -112,6 +95,55 @@ export default function HistoryPage() {
         setCurrentPage(1) // 필터가 변경될 때마다 첫 페이지로 리셋
     }, [allParties, activeTab, statusFilter, roleFilter])
 
+    // 예정된 모임 전체를 캘린더 파일로 내보내기
+    // 내 모임 목록에는 매장 주소가 없으므로 모임 상세를 조회해 채운다
+    const handleExportCalendar = async () => {
+        const now = new Date()
+        const upcomingParties = allParties.filter(
+            (party) =>
+                party.partyId !== undefined &&
+                party.scheduledAt &&
+                new Date(party.scheduledAt) >= now &&
+                party.status !== 'CANCELLED',
+        )
+
+        if (upcomingParties.length === 0) {
+            toast.info('캘린더에 추가할 예정된 모임이 없습니다.')
+            return
+        }
+
+        setIsExporting(true)
+        const events: PartyCalendarEvent[] = new Array(upcomingParties.length)
+        let next = 0
+        const worker = async () => {
+            while (next < upcomingParties.length) {
+                const index = next++
+                const party = upcomingParties[index]
+                const { data } = await unwrap(
+                    client.GET('/api/v1/parties/{id}', {
+                        params: {
+                            path: { id: party.partyId as number },
+                        },
+                    }),
+                )
+
+                events[index] = {
+                    partyId: party.partyId as number,
+                    title: party.title,
+                    scheduledAt: data?.scheduledAt || (party.scheduledAt as string),
+                    themeName: party.themeName,
+                    storeName: party.storeName,
+                    storeAddress: data?.storeAddress,
+                }
+            }
+        }
+        await Promise.all(Array.from({ length: Math.min(EXPORT_CONCURRENCY, upcomingParties.length) }, worker))
+        setIsExporting(false)
+
+        downloadPartyCalendar(events, 'my-parties.ics')
+        toast.success(`예정된 모임 ${events.length}개를 캘린더 파일로 저장했습니다.`)
+    }
+
     // 마감 임박 모임 필터링
     const getDeadlineParties = () => {
         const now = new Date()
@@ -167,8 +199,8 @@ export default function HistoryPage() {
     const closeModal = () => {
         setIsModalOpen(false)
         setSelectedPartyId(null)
-        // 페이지 새로고침
-        window.location.reload()
+        // 리뷰 작성 여부가 바뀌었을 수 있으므로 내 모임 목록만 다시 조회
+        invalidateQueries('/api/v1/parties/joins/me')
     }
 
     // 리뷰 버튼 표시 여부 및 스타일 결정 함수
@@ -197,6 +229,32 @@ export default function HistoryPage() {
         }
     }
 
+    // 완료된 모임은 바로 탈출일지를 쓸 수 있고, 이미 쓴 경우 일지로 이동
+    const getDiaryButton = (party: MyJoinedPartySummaryResponse) => {
+        if (party.status !== 'COMPLETED' || party.partyId === undefined) return null
+
+        const diaryId = partyDiaries[party.partyId]
+        if (diaryId) {
+            return (
+                <Link
+                    href={`/my/diary/${diaryId}`}
+                    className="px-6 py-2 bg-gray-700 text-gray-200 text-sm rounded hover:bg-gray-600 transition-colors"
+                >
+                    일지 보기
+                </Link>
+            )
+        }
+
+        return (
+            <Link
+                href={`/my/diary/new?partyId=${party.partyId}`}
+                className="px-6 py-2 border border-[#FFB130] text-[#FFB130] text-sm rounded hover:bg-[#FFB130]/10 transition-colors"
+            >
+                일지 쓰기
+            </Link>
+        )
+    }
+
     // 상태에 따른 뱃지 스타일 반환 함수
     const getStatusBadgeStyle = (status: MyJoinedPartySummaryResponse['status']) => {
         switch (status) {
@@ -369,12 +427,21 @@ export default function HistoryPage() {
                 <div className="mb-8">
                     <div className="flex justify-between items-center mb-6">
                         <h1 className="text-2xl font-bold text-gray-100">나의 모임 히스토리</h1>
-                        <Link
-                            href="/parties/new"
-                            className="bg-[#FFB230] text-white px-4 py-2 text-sm font-medium rounded-md"
-                        >
-                            모임 만들기
-                        </Link>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleExportCalendar}
+                                disabled={isExporting}
+                                className="border border-gray-600 text-gray-300 px-4 py-2 text-sm font-medium rounded-md hover:bg-gray-800 disabled:opacity-50"
+                            >
+                                {isExporting ? '내보내는 중...' : '예정된 모임 캘린더로 내보내기'}
+                            </button>
+                            <Link
+                                href="/parties/new"
+                                className="bg-[#FFB230] text-white px-4 py-2 text-sm font-medium rounded-md"
+                            >
+                                모임 만들기
+                            </Link>
+                        </div>
                     </div>
 
                     {/* 탭 필터 */}
@@ -469,8 +536,16 @@ export default function HistoryPage() {
                                             >
                                                 {getStatusText(party.status || 'RECRUITING')}
                                             </span>
+                                            {party.partyId !== undefined && partyDiaries[party.partyId] && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-emerald-900 text-emerald-200">
+                                                    일지 작성됨
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="flex gap-2">
+                                            {getDiaryButton(party)}
+                                            {getReviewButton(party)}
                                         </div>
-                                        <div>{getReviewButton(party)}</div>
                                     </div>
                                     <div className="flex mt-3 gap-4">
                                         {party.themeThumbnailUrl ? (
@@ -1,7 +1,10 @@
 'use client'
 
 import { components } from '@/lib/backend/apiV1/schema'
+import { DraftStatus } from '@/components/common/DraftStatus'
 import client from '@/lib/backend/client'
+import { useFormDraft } from '@/stores/draft/formDraft'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { use, useEffect, useState } from 'react'
@@ -17,6 +20,7 @@ const INQUIRY_TYPES = {
 export default function EditInquiryPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = use(params)
     const router = useRouter()
+    const { toast } = useFeedback()
     const [inquiryType, setInquiryType] = useState('')
     const [title, setTitle] = useState('')
     const [content, setContent] = useState('')
@@ -25,8 +29,21 @@ export default function EditInquiryPage({ params }: { params: Promise<{ id: stri
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [isLoading, setIsLoading] = useState(true)
+    const [isLoaded, setIsLoaded] = useState(false)
     const inquiryId = Number(id)
 
+    // 기존 문의를 불러온 뒤부터 수정 내용을 임시 저장 (첨부파일 제외)
+    const { savedAt, clearDraft } = useFormDraft({
+        formKey: `inquiry-edit-${inquiryId}`,
+        values: { inquiryType, title, content },
+        onRestore: (draft) => {
+            setInquiryType(draft.inquiryType)
+            setTitle(draft.title)
+            setContent(draft.content)
+        },
+        enabled: isLoaded,
+    })
+
     useEffect(() => {
         const fetchInquiryDetail = async () => {
             try {
@@ -44,6 +61,7 @@ export default function EditInquiryPage({ params }: { params: Promise<{ id: stri
                     setTitle(data.title ?? '')
                     setContent(data.content ?? '')
                     setExistingFiles(data.attachments || [])
+                    setIsLoaded(true)
                 } else {
                     setError('해당 문의를 찾을 수 없습니다.')
                 }
@@ -68,7 +86,7 @@ export default function EditInquiryPage({ params }: { params: Promise<{ id: stri
             })
 
             if (validFiles.length !== selectedFiles.length) {
-                alert('일부 파일이 업로드되지 않았습니다. (10MB 이하의 JPG, PNG, GIF 파일만 가능)')
+                toast.error('일부 파일이 업로드되지 않았습니다. (10MB 이하의 JPG, PNG, GIF 파일만 가능)')
             }
 
             setFiles(validFiles)
@@ -120,6 +138,7 @@ export default function EditInquiryPage({ params }: { params: Promise<{ id: stri
                 })
             }
 
+            clearDraft()
             router.push('/my/inquiry')
         } catch (error) {
             console.error('문의 수정 에러:', error)
@@ -149,6 +168,7 @@ export default function EditInquiryPage({ params }: { params: Promise<{ id: stri
         <main className="min-h-screen bg-gray-900">
             <div className="max-w-3xl mx-auto px-4 py-8">
                 <h1 className="text-2xl font-bold mb-8 text-white">문의 수정</h1>
+                <DraftStatus savedAt={savedAt} />
                 <p className="text-gray-400 mb-8">아래 양식을 수정하여 문의사항을 업데이트해주세요.</p>
 
                 {error && (
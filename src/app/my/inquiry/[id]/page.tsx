@@ -2,6 +2,7 @@
 
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
@@ -16,6 +17,7 @@ type InquiryDetail = Omit<PostDetailResponse, 'replies' | 'attachments'> & {
 export default function InquiryDetailPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = use(params)
     const router = useRouter()
+    const { toast, confirm } = useFeedback()
     const [inquiry, setInquiry] = useState<InquiryDetail | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
@@ -51,7 +53,7 @@ export default function InquiryDetailPage({ params }: { params: Promise<{ id: st
     }, [inquiryId])
 
     const handleDelete = async () => {
-        if (!confirm('정말 삭제하시겠습니까?')) return
+        if (!(await confirm({ message: '정말 삭제하시겠습니까?', confirmText: '삭제', danger: true }))) return
 
         try {
             await client.DELETE('/api/v1/boards/{id}', {
@@ -61,11 +63,11 @@ export default function InquiryDetailPage({ params }: { params: Promise<{ id: st
                     },
                 },
             })
-            alert('문의가 삭제되었습니다.')
+            toast.success('문의가 삭제되었습니다.')
             router.push('/my/inquiry')
         } catch (error) {
             console.error('문의 삭제 에러:', error)
-            alert('문의 삭제에 실패했습니다.')
+            toast.error('문의 삭제에 실패했습니다.')
         }
     }
 
@@ -186,10 +188,10 @@ export default function InquiryDetailPage({ params }: { params: Promise<{ id: st
                             <h2 className="text-xl font-bold mb-6 text-white">답변 내용</h2>
                             <div className="space-y-6">
                                 {inquiry.replies.map((reply, index) => (
-                                    <div key={index} className="space-y-6">
+                                    <div key={reply.id ?? index} className="space-y-6">
                                         <div className="flex justify-between text-sm text-gray-400">
                                             <div>
-                                                <span className="font-medium">내용</span>
+                                                <span className="font-medium">운영자 답변</span>
                                             </div>
                                         </div>
                                         <div>
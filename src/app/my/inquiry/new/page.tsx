@@ -4,6 +4,9 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import client from '@/lib/backend/client'
+import { DraftStatus } from '@/components/common/DraftStatus'
+import { useFormDraft } from '@/stores/draft/formDraft'
+import { useFeedback } from '@/stores/feedback/feedback'
 
 // 문의 유형 enum
 enum PostType {
@@ -23,6 +26,7 @@ const inquiryTypes = ['사이트 이용 문의', '신고', '테마 관련']
 
 export default function NewInquiryPage() {
     const router = useRouter()
+    const { toast } = useFeedback()
     const [inquiryType, setInquiryType] = useState('')
     const [title, setTitle] = useState('')
     const [content, setContent] = useState('')
@@ -30,6 +34,17 @@ export default function NewInquiryPage() {
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [error, setError] = useState<string | null>(null)
 
+    // 첨부파일은 임시 저장하지 않는다
+    const { savedAt, clearDraft } = useFormDraft({
+        formKey: 'inquiry-new',
+        values: { inquiryType, title, content },
+        onRestore: (draft) => {
+            setInquiryType(draft.inquiryType)
+            setTitle(draft.title)
+            setContent(draft.content)
+        },
+    })
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
             const selectedFiles = Array.from(e.target.files)
@@ -40,7 +55,7 @@ export default function NewInquiryPage() {
             })
 
             if (validFiles.length !== selectedFiles.length) {
-                alert('일부 파일이 업로드되지 않았습니다. (10MB 이하의 JPG, PNG, GIF 파일만 가능)')
+                toast.error('일부 파일이 업로드되지 않았습니다. (10MB 이하의 JPG, PNG, GIF 파일만 가능)')
             }
 
             setFiles(validFiles)
@@ -92,6 +107,7 @@ export default function NewInquiryPage() {
                 })
             }
 
+            clearDraft()
             router.push('/my/inquiry')
         } catch (error) {
             console.error('문의 등록 에러:', error)
@@ -105,6 +121,7 @@ export default function NewInquiryPage() {
         <main className="min-h-screen bg-gray-900">
             <div className="max-w-3xl mx-auto px-4 py-8">
                 <h1 className="text-2xl font-bold mb-8 text-white">문의하기</h1>
+                <DraftStatus savedAt={savedAt} />
                 <p className="text-gray-400 mb-8">아래 양식을 작성하여 문의사항을 등록해주세요.</p>
 
                 {error && (
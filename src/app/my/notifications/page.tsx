@@ -0,0 +1,322 @@
+'use client'
+
+import { NotificationContext } from '@/app/ClientLayout'
+import { AlarmType, AlarmTypeBadge, alarmTypes } from '@/components/notification/AlarmTypeBadge'
+import { resolveAlarmPath } from '@/lib/backend/alarmLink'
+import { alarmBaseUrl, subscribeAlarms } from '@/lib/backend/alarmStream'
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import { filterMutedAlarms, isMutedAlarm } from '@/stores/message/mutedMembers'
+import { useRouter } from 'next/navigation'
+import { useCallback, useContext, useEffect, useState } from 'react'
+
+type AlarmResponse = components['schemas']['AlarmResponse']
+
+// /alarms는 종류별 조회를 지원하지 않으므로 최근 알림을 모두 받아와 화면에서 거른다
+const PAGE_SIZE = 50
+const MAX_PAGES = 10
+
+export default function NotificationsPage() {
+    const router = useRouter()
+    const { toast, confirm } = useFeedback()
+    const { setUnreadCount } = useContext(NotificationContext)
+    const [alarms, setAlarms] = useState<AlarmResponse[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [typeFilter, setTypeFilter] = useState<AlarmType | 'ALL'>('ALL')
+    const [unreadOnly, setUnreadOnly] = useState(false)
+    const [selectedIds, setSelectedIds] = useState<number[]>([])
+    const [isDeleting, setIsDeleting] = useState(false)
+
+    const fetchAlarms = useCallback(async () => {
+        setLoading(true)
+        setError(null)
+
+        const items: AlarmResponse[] = []
+        for (let page = 0; page < MAX_PAGES; page++) {
+            const { data, error } = await unwrap(
+                client.GET('/alarms', {
+                    baseUrl: alarmBaseUrl,
+                    params: {
+                        query: {
+                            pageable: {
+                                page,
+                                size: PAGE_SIZE,
+                            },
+                        },
+                    },
+                }),
+            )
+
+            if (error) {
+                console.error('알림 목록 조회 실패:', error)
+                setError('알림 목록을 불러오는데 실패했습니다.')
+                break
+            }
+
+            items.push(...(data?.items ?? []))
+            if (page + 1 >= (data?.totalPages ?? 0)) break
+        }
+
+        setAlarms(await filterMutedAlarms(items))
+        setSelectedIds([])
+        setLoading(false)
+    }, [])
+
+    useEffect(() => {
+        fetchAlarms()
+    }, [fetchAlarms])
+
+    // 새 알림은 목록 맨 위에 바로 추가 (차단한 회원의 쪽지 알림 제외)
+    useEffect(() => {
+        return subscribeAlarms(async (alarm) => {
+            if (await isMutedAlarm(alarm)) return
+            setAlarms((prev) => (prev.some((a) => a.id === alarm.id) ? prev : [alarm, ...prev]))
+        })
+    }, [])
+
+    const filteredAlarms = alarms.filter(
+        (alarm) => (typeFilter === 'ALL' || alarm.alarmType === typeFilter) && (!unreadOnly || !alarm.readStatus),
+    )
+    const unreadTotal = alarms.filter((alarm) => !alarm.readStatus).length
+
+    const isAllSelected =
+        filteredAlarms.length > 0 && filteredAlarms.every((alarm) => alarm.id && selectedIds.includes(alarm.id))
+
+    const toggleSelect = (id?: number) => {
+        if (!id) return
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id]))
+    }
+
+    const toggleSelectAll = () => {
+        setSelectedIds(isAllSelected ? [] : filteredAlarms.map((alarm) => alarm.id).filter((id): id is number => !!id))
+    }
+
+    const changeFilter = (type: AlarmType | 'ALL') => {
+        setTypeFilter(type)
+        setSelectedIds([])
+    }
+
+    // 알림을 누르면 읽음 처리 후 관련 화면(모임, 쪽지, 문의)으로 이동
+    const handleAlarmClick = async (alarm: AlarmResponse) => {
+        if (!alarm.id) return
+
+        if (!alarm.readStatus) {
+            const { error } = await unwrap(
+                client.PATCH('/alarms/{id}/read', {
+                    baseUrl: alarmBaseUrl,
+                    params: {
+                        path: { id: alarm.id },
+                    },
+                }),
+            )
+
+            if (!error) {
+                setAlarms((prev) => prev.map((a) => (a.id === alarm.id ? { ...a, readStatus: true } : a)))
+                setUnreadCount((prev) => Math.max(0, prev - 1))
+            }
+        }
+
+        const path = await resolveAlarmPath(alarm)
+        if (path) {
+            router.push(path)
+        } else {
+            toast.info('이동할 화면이 없는 알림입니다.')
+        }
+    }
+
+    const handleMarkAllAsRead = async () => {
+        const { error } = await unwrap(client.PATCH('/alarms/read-all', { baseUrl: alarmBaseUrl }))
+
+        if (error) {
+            console.error('전체 알림 읽음 처리 실패:', error)
+            toast.error('전체 읽음 처리에 실패했습니다.')
+            return
+        }
+
+        setAlarms((prev) => prev.map((alarm) => ({ ...alarm, readStatus: true })))
+        setUnreadCount(0)
+        toast.success('모든 알림을 읽음 처리했습니다.')
+    }
+
+    // 선택한 알림 일괄 삭제
+    const handleBulkDelete = async () => {
+        if (selectedIds.length === 0) return
+
+        if (
+            !(await confirm({
+                message: `선택한 ${selectedIds.length}개 알림을 삭제하시겠습니까?`,
+                confirmText: '삭제',
+                danger: true,
+            }))
+        )
+            return
+
+        setIsDeleting(true)
+        const results = await Promise.allSettled(
+            selectedIds.map(async (id) => {
+                const { error } = await unwrap(
+                    client.DELETE('/alarms/{id}', {
+                        baseUrl: alarmBaseUrl,
+                        params: {
+                            path: { id },
+                        },
+                    }),
+                )
+                if (error) throw error
+                return id
+            }),
+        )
+
+        const deletedIds = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))
+        const failedCount = results.length - deletedIds.length
+        results.forEach((result) => {
+            if (result.status === 'rejected') {
+                console.error('알림 일괄 삭제 중 오류:', result.reason)
+            }
+        })
+
+        const deletedUnreadCount = alarms.filter(
+            (alarm) => alarm.id && deletedIds.includes(alarm.id) && !alarm.readStatus,
+        ).length
+        setAlarms((prev) => prev.filter((alarm) => !alarm.id || !deletedIds.includes(alarm.id)))
+        setUnreadCount((prev) => Math.max(0, prev - deletedUnreadCount))
+        setSelectedIds((prev) => prev.filter((id) => !deletedIds.includes(id)))
+
+        if (failedCount > 0) {
+            toast.error(`${results.length}개 중 ${failedCount}개 알림 삭제에 실패했습니다.`)
+        } else {
+            toast.success('알림이 삭제되었습니다.')
+        }
+        setIsDeleting(false)
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-900">
+            <div className="max-w-4xl mx-auto px-4 py-8">
+                <div className="flex justify-between items-center mb-8">
+                    <div>
+                        <h1 className="text-2xl font-bold mb-2 text-white">알림</h1>
+                        <p className="text-gray-400">읽지 않은 알림 {unreadTotal}개</p>
+                    </div>
+                    <button
+                        onClick={handleMarkAllAsRead}
+                        disabled={unreadTotal === 0}
+                        className="px-4 py-2 border border-gray-600 text-gray-300 rounded-lg text-sm hover:bg-gray-800 disabled:opacity-50"
+                    >
+                        전체 읽음 처리
+                    </button>
+                </div>
+
+                {/* 알림 종류 탭 */}
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {[{ value: 'ALL' as const, label: '전체' }, ...alarmTypes].map((type) => (
+                        <button
+                            key={type.value}
+                            onClick={() => changeFilter(type.value)}
+                            className={`px-4 py-2 rounded-full text-sm ${
+                                typeFilter === type.value
+                                    ? 'bg-[#FFB130] text-white'
+                                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                            }`}
+                        >
+                            {type.label}
+                            <span className="ml-1 text-xs opacity-80">
+                                {type.value === 'ALL'
+                                    ? alarms.length
+                                    : alarms.filter((alarm) => alarm.alarmType === type.value).length}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-4 mb-4 p-3 bg-gray-800 rounded-lg border border-gray-700">
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={isAllSelected}
+                            onChange={toggleSelectAll}
+                            className="accent-[#FFB130]"
+                        />
+                        전체 선택
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={unreadOnly}
+                            onChange={(e) => {
+                                setUnreadOnly(e.target.checked)
+                                setSelectedIds([])
+                            }}
+                            className="accent-[#FFB130]"
+                        />
+                        읽지 않은 알림만
+                    </label>
+                    <button
+                        onClick={handleBulkDelete}
+                        disabled={selectedIds.length === 0 || isDeleting}
+                        className="ml-auto px-4 py-1.5 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+                    >
+                        {isDeleting ? '삭제 중...' : `선택 삭제 (${selectedIds.length})`}
+                    </button>
+                </div>
+
+                {/* 알림 목록 */}
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-200"></div>
+                    </div>
+                ) : error ? (
+                    <div className="text-center py-8 text-red-400 bg-gray-800 rounded-lg">{error}</div>
+                ) : filteredAlarms.length === 0 ? (
+                    <div className="text-center py-8 text-gray-400 bg-gray-800 rounded-lg">알림이 없습니다.</div>
+                ) : (
+                    <ul className="divide-y divide-gray-700 border-y border-gray-700">
+                        {filteredAlarms.map((alarm) => (
+                            <li
+                                key={alarm.id}
+                                onClick={() => handleAlarmClick(alarm)}
+                                className={`flex items-start gap-4 px-4 py-4 cursor-pointer hover:bg-gray-800 ${
+                                    alarm.readStatus ? '' : 'bg-gray-800/60'
+                                }`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={!!alarm.id && selectedIds.includes(alarm.id)}
+                                    onChange={() => toggleSelect(alarm.id)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="mt-1 accent-[#FFB130]"
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <AlarmTypeBadge alarmType={alarm.alarmType} />
+                                        {!alarm.readStatus && (
+                                            <span
+                                                className="w-2 h-2 rounded-full bg-[#FFB130]"
+                                                aria-label="읽지 않음"
+                                            />
+                                        )}
+                                        <span className="ml-auto text-xs text-gray-500">
+                                            {alarm.createdAt
+                                                ? new Date(alarm.createdAt).toLocaleDateString('ko-KR', {
+                                                      year: 'numeric',
+                                                      month: 'long',
+                                                      day: 'numeric',
+                                                      hour: '2-digit',
+                                                      minute: '2-digit',
+                                                  })
+                                                : ''}
+                                        </span>
+                                    </div>
+                                    <h2 className="font-medium text-white mt-2">{alarm.title}</h2>
+                                    <p className="text-sm text-gray-400 mt-1">{alarm.content}</p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </main>
+    )
+}
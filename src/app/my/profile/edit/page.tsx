@@ -2,6 +2,7 @@
 
 import type { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
@@ -14,6 +15,7 @@ type UpdateTagsRequest = components['schemas']['UpdateTagsRequest']
 
 export default function ProfileEditPage() {
     const router = useRouter()
+    const { toast } = useFeedback()
     const { isLogin, loginMember, setLoginMember } = useGlobalLoginMember()
 
     // 프로필 데이터 상태
@@ -60,10 +62,7 @@ export default function ProfileEditPage() {
 
     // 페이지 로드 시 사용자 정보 가져오기
     useEffect(() => {
-        if (!isLogin) {
-            router.push('/login')
-            return
-        }
+        if (!isLogin) return
 
         // 현재 사용자 정보 설정
         setProfile({
@@ -237,7 +236,7 @@ export default function ProfileEditPage() {
             }
 
             // 성공 메시지 표시
-            alert('프로필이 성공적으로 업데이트되었습니다')
+            toast.success('프로필이 성공적으로 업데이트되었습니다')
             router.push('/my/profile')
         } catch (err) {
             setError('프로필 업데이트 중 오류가 발생했습니다')
@@ -1,13 +1,18 @@
 'use client'
 
-import { HistoryCalendar } from '@/components/history/HistoryCalendar'
+import { AchievementBadges } from '@/components/my/AchievementBadges'
+import { AgendaCalendar } from '@/components/my/AgendaCalendar'
 import WishesThemesModal from '@/components/my/WishesThemesModal'
+import PartyReviewModal from '@/components/party/PartyReviewModal'
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { fetchPartyHistory, partyHistoryKey } from '@/lib/backend/partyQueries'
+import { invalidateQueries, useQuery } from '@/lib/backend/queryCache'
+import { useMyAchievements } from '@/stores/achievement/achievements'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
 import Image from 'next/image'
 import Link from 'next/link'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 
 // 타입 정의
 type UserProfile = components['schemas']['BasicProfileResponse'] & {
@@ -22,18 +27,27 @@ type UserProfile = components['schemas']['BasicProfileResponse'] & {
 type WishTheme = components['schemas']['ThemesResponse']
 type CalendarDiary = components['schemas']['DiaryListDto']
 type PartyHistory = components['schemas']['MyJoinedPartySummaryResponse']
+type PageDtoMyJoinedPartySummaryResponse = components['schemas']['PageDtoMyJoinedPartySummaryResponse']
 
 export default function MyPage() {
     const { isLogin, loginMember } = useGlobalLoginMember()
-    const [selectedDate, setSelectedDate] = useState<Date | null>(null)
     const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
     const [wishThemes, setWishThemes] = useState<WishTheme[]>([])
-    const [calendarDiaries, setCalendarDiaries] = useState<CalendarDiary[]>([])
-    const [partyHistories, setPartyHistories] = useState<PartyHistory[]>([])
+    // 달력에 보이는 달의 일지 (yyyy-M 키로 보관)
+    const [diariesByMonth, setDiariesByMonth] = useState<Record<string, CalendarDiary[]>>({})
+    const [reviewPartyId, setReviewPartyId] = useState<number | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [isWishesModalOpen, setIsWishesModalOpen] = useState(false)
 
+    // 모임 히스토리 (모임 상세, 히스토리 페이지와 같은 캐시를 사용)
+    const { data: historyPage } = useQuery<PageDtoMyJoinedPartySummaryResponse>(partyHistoryKey, fetchPartyHistory, {
+        enabled: isLogin,
+    })
+    const partyHistories = useMemo(() => historyPage?.items || [], [historyPage])
+    const { results: achievements, error: achievementsError } = useMyAchievements(isLogin)
+    const calendarDiaries = useMemo(() => Object.values(diariesByMonth).flat(), [diariesByMonth])
+
     // 프로필 정보 가져오기
     const fetchUserProfile = async () => {
         try {
@@ -113,52 +127,37 @@ export default function MyPage() {
     }
 
     // 달력 데이터 가져오기
-    const fetchCalendarDiaries = async (targetMonth?: Date) => {
-        try {
-            if (!isLogin) {
-                return
-            }
-
-            // 현재 선택된 날짜가 없으면 현재 월을 기준으로 조회
-            const targetDate = targetMonth || selectedDate || new Date()
-            const year = targetDate.getFullYear()
-            const month = targetDate.getMonth() + 1
+    const fetchCalendarDiaries = useCallback(
+        async (year: number, month: number) => {
+            try {
+                if (!isLogin) {
+                    return
+                }
 
-            const response = await client.GET('/api/v1/diaries', {
-                params: { query: { year, month } },
-            })
+                const response = await client.GET('/api/v1/diaries', {
+                    params: { query: { year, month } },
+                })
 
-            const diaries = response?.data?.data || []
-            setCalendarDiaries(diaries)
-        } catch (error) {
-            console.error('달력 데이터 로딩 에러:', error)
-            setCalendarDiaries([])
-        }
-    }
-
-    // 모임 히스토리 가져오기
-    const fetchPartyHistories = async () => {
-        try {
-            if (!isLogin) {
-                return
+                const diaries = response?.data?.data || []
+                setDiariesByMonth((prev) => ({ ...prev, [`${year}-${month}`]: diaries }))
+            } catch (error) {
+                console.error('달력 데이터 로딩 에러:', error)
             }
+        },
+        [isLogin],
+    )
 
-            const response = await client.GET('/api/v1/parties/joins/me')
-
-            const histories = response?.data?.data?.items || []
-            setPartyHistories(histories)
-        } catch (error) {
-            console.error('모임 히스토리 로딩 에러:', error)
-            setPartyHistories([])
-        }
-    }
-
-    // 선택된 날짜가 변경될 때마다 달력 데이터 다시 가져오기
-    useEffect(() => {
-        if (selectedDate) {
-            fetchCalendarDiaries()
-        }
-    }, [selectedDate])
+    // 달력에 보이는 기간이 바뀌면 그 기간에 걸친 달의 일지를 모두 가져오기
+    const handleRangeChange = useCallback(
+        (start: Date, end: Date) => {
+            const month = new Date(start.getFullYear(), start.getMonth(), 1)
+            while (month <= end) {
+                fetchCalendarDiaries(month.getFullYear(), month.getMonth() + 1)
+                month.setMonth(month.getMonth() + 1)
+            }
+        },
+        [fetchCalendarDiaries],
+    )
 
     // 컴포넌트 마운트 시 데이터 로딩
     useEffect(() => {
@@ -171,12 +170,7 @@ export default function MyPage() {
         const loadData = async () => {
             setIsLoading(true)
             try {
-                await Promise.all([
-                    fetchUserProfile(),
-                    fetchWishThemes(),
-                    fetchCalendarDiaries(),
-                    fetchPartyHistories(),
-                ])
+                await Promise.all([fetchUserProfile(), fetchWishThemes()])
             } catch (error) {
                 console.error('데이터 로딩 에러:', error)
                 setError('데이터를 불러오는데 실패했습니다.')
@@ -402,6 +396,22 @@ export default function MyPage() {
                 </div>
             </section>
 
+            {/* 업적 */}
+            <section className="py-12 bg-gray-900">
+                <div className="max-w-7xl mx-auto px-4">
+                    <h2 className="text-xl font-bold text-white mb-2">업적</h2>
+                    {achievements ? (
+                        <AchievementBadges results={achievements} />
+                    ) : achievementsError ? (
+                        <p className="text-gray-400 text-center py-8">{achievementsError}</p>
+                    ) : (
+                        <div className="flex justify-center py-8">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                        </div>
+                    )}
+                </div>
+            </section>
+
             {/* Section 2: 모임 희망 테마 */}
             <section className="py-16 bg-gray-900">
                 <div className="max-w-7xl mx-auto px-4">
@@ -482,144 +492,22 @@ export default function MyPage() {
                 </div>
             </section>
 
-            {/* Section 3: 나의 탈출일지 */}
+            {/* Section 3: 나의 일정 (모임, 탈출일지) */}
             <section className="py-12 bg-gray-800">
                 <div className="max-w-7xl mx-auto px-4">
                     <div className="flex justify-between items-center mb-6">
-                        <h2 className="text-xl font-bold text-white">나의 탈출일지</h2>
+                        <h2 className="text-xl font-bold text-white">나의 일정</h2>
                         <Link href="/my/diary" className="text-[#FFB130] hover:text-[#F0A120] transition-colors">
-                            전체보기
+                            탈출일지 전체보기
                         </Link>
                     </div>
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                        <div className="bg-gray-700 rounded-lg p-6 h-[400px]">
-                            <HistoryCalendar
-                                selectedDate={selectedDate}
-                                onChange={setSelectedDate}
-                                markedDates={calendarDiaries
-                                    .filter(
-                                        (diary): diary is CalendarDiary & { escapeDate: string } =>
-                                            diary.escapeDate !== undefined,
-                                    )
-                                    .map((diary) => new Date(diary.escapeDate))}
-                                onMonthChange={(date) => {
-                                    fetchCalendarDiaries(date)
-                                }}
-                            />
-                        </div>
-                        <div className="bg-gray-700 rounded-lg p-6 h-[400px]">
-                            {selectedDate ? (
-                                <div className="space-y-4 h-full">
-                                    <div className="text-lg font-medium mb-4 text-white">
-                                        {selectedDate.toLocaleDateString('ko-KR', {
-                                            year: 'numeric',
-                                            month: 'long',
-                                            day: 'numeric',
-                                        })}
-                                    </div>
-                                    <div className="h-[calc(100%-40px)] overflow-y-auto pr-2">
-                                        {calendarDiaries
-                                            .filter(
-                                                (diary): diary is CalendarDiary & { escapeDate: string } =>
-                                                    diary.escapeDate !== undefined &&
-                                                    new Date(diary.escapeDate).toDateString() ===
-                                                        selectedDate.toDateString(),
-                                            )
-                                            .map((diary) => (
-                                                <div
-                                                    key={diary.id}
-                                                    className="block bg-gray-800 rounded-lg hover:shadow-md transition-shadow border border-gray-600 mb-4 relative overflow-hidden group"
-                                                >
-                                                    <div className="h-[200px] relative">
-                                                        {diary.thumbnailUrl ? (
-                                                            <img
-                                                                src={diary.thumbnailUrl}
-                                                                alt={diary.themeName}
-                                                                className="w-full h-full object-cover"
-                                                            />
-                                                        ) : (
-                                                            <div className="w-full h-full flex items-center justify-center bg-gray-700">
-                                                                <svg
-                                                                    className="w-16 h-16 text-gray-500"
-                                                                    fill="none"
-                                                                    stroke="currentColor"
-                                                                    viewBox="0 0 24 24"
-                                                                >
-                                                                    <path
-                                                                        strokeLinecap="round"
-                                                                        strokeLinejoin="round"
-                                                                        strokeWidth="1.5"
-                                                                        d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                                                                    />
-                                                                </svg>
-                                                            </div>
-                                                        )}
-                                                        {/* 테마 정보 오버레이 */}
-                                                        <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent flex flex-col justify-end p-4">
-                                                            <h3 className="font-medium text-lg mb-2 text-white">
-                                                                {diary.themeName}
-                                                            </h3>
-                                                            <p className="text-sm text-gray-300">{diary.storeName}</p>
-                                                            <div className="flex flex-wrap gap-2 my-2">
-                                                                {diary.tags?.map((tag) => (
-                                                                    <span
-                                                                        key={tag}
-                                                                        className="px-3 py-1 bg-[#FFB130] text-white text-xs rounded-full"
-                                                                    >
-                                                                        {tag}
-                                                                    </span>
-                                                                ))}
-                                                            </div>
-                                                            <div className="flex justify-between items-center mt-2">
-                                                                <div className="flex items-center gap-3 text-sm text-gray-300">
-                                                                    <span>
-                                                                        탈출 시간:{' '}
-                                                                        {diary.elapsedTime
-                                                                            ? `${Math.floor(
-                                                                                  diary.elapsedTime / 60,
-                                                                              )}분 ${diary.elapsedTime % 60}초`
-                                                                            : '기록 없음'}
-                                                                    </span>
-                                                                    <span>•</span>
-                                                                    <span>힌트: {diary.hintCount || 0}회</span>
-                                                                </div>
-                                                                <span
-                                                                    className={`px-3 py-1 text-sm rounded-full backdrop-blur-sm ${
-                                                                        diary.escapeResult
-                                                                            ? 'bg-green-900/70 text-green-300'
-                                                                            : 'bg-red-900/70 text-red-300'
-                                                                    }`}
-                                                                >
-                                                                    {diary.escapeResult ? '성공' : '실패'}
-                                                                </span>
-                                                            </div>
-                                                        </div>
-                                                        {/* 버튼 오버레이 - 호버 시 표시 */}
-                                                        <div className="absolute inset-0 bg-black/80 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-                                                            <Link
-                                                                href={`/my/diary/${diary.id}`}
-                                                                className="px-6 py-2.5 bg-[#FFB130] text-black rounded-full hover:bg-[#F0A120] transition-colors font-medium"
-                                                            >
-                                                                상세보기
-                                                            </Link>
-                                                            <Link
-                                                                href={`/my/diary/new`}
-                                                                className="px-6 py-2.5 bg-white text-black rounded-full hover:bg-gray-100 transition-colors font-medium"
-                                                            >
-                                                                후기작성
-                                                            </Link>
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            ))}
-                                    </div>
-                                </div>
-                            ) : (
-                                <div className="text-center text-gray-400">
-                                    날짜를 선택하면 해당 날짜의 탈출일지를 볼 수 있습니다.
-                                </div>
-                            )}
-                        </div>
+                    <div className="bg-gray-700 rounded-lg p-6">
+                        <AgendaCalendar
+                            parties={partyHistories}
+                            diaries={calendarDiaries}
+                            onRangeChange={handleRangeChange}
+                            onReview={setReviewPartyId}
+                        />
                     </div>
                 </div>
             </section>
@@ -679,7 +567,7 @@ export default function MyPage() {
                                                 </div>
                                             </div>
                                             <Link
-                                                href={`/my/diary/new`}
+                                                href={`/my/diary/new?partyId=${party.partyId}`}
                                                 className="absolute top-0 right-0 px-3 py-1.5 bg-[#FFB130] text-black text-sm rounded-lg hover:bg-[#F0A120] transition-colors"
                                             >
                                                 후기작성
@@ -692,6 +580,18 @@ export default function MyPage() {
                 </div>
             </section>
 
+            {/* 달력에서 후기 작성 */}
+            {reviewPartyId !== null && (
+                <PartyReviewModal
+                    partyId={reviewPartyId}
+                    isOpen={true}
+                    onClose={() => {
+                        setReviewPartyId(null)
+                        invalidateQueries('/api/v1/parties/joins/me')
+                    }}
+                />
+            )}
+
             {/* WishesThemesModal */}
             <WishesThemesModal isOpen={isWishesModalOpen} onClose={() => setIsWishesModalOpen(false)} />
         </main>
@@ -0,0 +1,249 @@
+'use client'
+
+import {
+    DIMENSIONS,
+    getDimension,
+    getMeasure,
+    MEASURES,
+    PIVOT_PRESETS,
+    PivotCell,
+    pivotDiaries,
+} from '@/lib/diaryAnalytics'
+import { useDiaryAnalytics } from '@/stores/diary/diaryAnalytics'
+import Link from 'next/link'
+import { useMemo, useState } from 'react'
+
+type CellOptions = { key?: string; heat?: boolean; className?: string }
+
+const selectClassName =
+    'px-3 py-2 bg-gray-800 text-white border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FFB130]'
+
+// 값이 클수록 진하게 (표 안에서 최솟값~최댓값 기준)
+const heatStyle = (value: number | null, min: number, max: number) => {
+    if (value === null || max === min) return undefined
+    const ratio = (value - min) / (max - min)
+    return { backgroundColor: `rgba(255, 177, 48, ${0.08 + ratio * 0.45})` }
+}
+
+// 탈출일지 직접 분석 (행/열/지표를 골라 피벗 테이블로 집계)
+export default function DiaryAnalyticsPage() {
+    const { diaries, syncedAt, syncing, progress, error, refresh } = useDiaryAnalytics()
+    const [row, setRow] = useState(PIVOT_PRESETS[0].row)
+    const [column, setColumn] = useState<string | undefined>(PIVOT_PRESETS[0].column)
+    const [measure, setMeasure] = useState(PIVOT_PRESETS[0].measure)
+    const [minCount, setMinCount] = useState(1)
+
+    const pivot = useMemo(
+        () => (diaries ? pivotDiaries(diaries, { row, column, measure, minCount }) : null),
+        [diaries, row, column, measure, minCount],
+    )
+    const { format } = getMeasure(measure)
+    const needsDetail = !!(
+        getDimension(row)?.needsDetail ||
+        getDimension(column)?.needsDetail ||
+        getMeasure(measure).needsDetail
+    )
+
+    const values = pivot?.cells.flat().flatMap((cell) => (cell.value === null ? [] : [cell.value])) ?? []
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+
+    const renderCell = (cell: PivotCell, { key, heat = false, className = '' }: CellOptions = {}) => (
+        <td
+            key={key}
+            className={`px-3 py-2 text-right whitespace-nowrap ${className}`}
+            style={heat ? heatStyle(cell.value, min, max) : undefined}
+            title={cell.count ? `일지 ${cell.count}개` : undefined}
+        >
+            {cell.value === null ? <span className="text-gray-600">-</span> : format(cell.value)}
+        </td>
+    )
+
+    const applyPreset = (preset: (typeof PIVOT_PRESETS)[number]) => {
+        setRow(preset.row)
+        setColumn(preset.column)
+        setMeasure(preset.measure)
+    }
+
+    return (
+        <div className="bg-gray-900 min-h-screen pb-10">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+                    <div>
+                        <Link href="/my/stat" className="text-sm text-[#FFB130] hover:text-[#F0A120]">
+                            통계 대시보드로
+                        </Link>
+                        <h1 className="text-2xl font-bold text-white">탈출일지 직접 분석</h1>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-gray-400">
+                        {syncing ? (
+                            <span>
+                                일지 불러오는 중
+                                {progress && progress.total > 0 && ` (${progress.loaded}/${progress.total})`}
+                            </span>
+                        ) : (
+                            syncedAt && <span>마지막 동기화 {new Date(syncedAt).toLocaleString('ko-KR')}</span>
+                        )}
+                        <button
+                            onClick={refresh}
+                            disabled={syncing}
+                            className="px-3 py-1.5 bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                        >
+                            새로 고침
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="bg-red-900/40 border border-red-700 text-red-200 px-4 py-3 rounded-lg mb-6 text-sm">
+                        일지를 불러오지 못했습니다. {diaries && '저장된 데이터로 분석합니다.'}
+                    </div>
+                )}
+
+                {/* 자주 쓰는 분석 */}
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {PIVOT_PRESETS.map((preset) => (
+                        <button
+                            key={preset.label}
+                            onClick={() => applyPreset(preset)}
+                            className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                                row === preset.row && column === preset.column && measure === preset.measure
+                                    ? 'bg-[#FFB130] text-black'
+                                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                            }`}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* 행/열/지표 선택 */}
+                <div className="bg-gray-800 p-4 rounded-xl flex flex-wrap items-end gap-4 mb-6 text-sm text-gray-300">
+                    <label className="flex flex-col gap-1">
+                        행
+                        <select
+                            value={row}
+                            onChange={(e) => {
+                                setRow(e.target.value)
+                                if (e.target.value === column) setColumn(undefined)
+                            }}
+                            className={selectClassName}
+                        >
+                            {DIMENSIONS.map((dimension) => (
+                                <option key={dimension.key} value={dimension.key}>
+                                    {dimension.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        열
+                        <select
+                            value={column ?? ''}
+                            onChange={(e) => setColumn(e.target.value || undefined)}
+                            className={selectClassName}
+                        >
+                            <option value="">없음</option>
+                            {DIMENSIONS.filter((dimension) => dimension.key !== row).map((dimension) => (
+                                <option key={dimension.key} value={dimension.key}>
+                                    {dimension.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        지표
+                        <select
+                            value={measure}
+                            onChange={(e) => setMeasure(e.target.value)}
+                            className={selectClassName}
+                        >
+                            {MEASURES.map((item) => (
+                                <option key={item.key} value={item.key}>
+                                    {item.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        최소 일지 수
+                        <input
+                            type="number"
+                            min={1}
+                            value={minCount}
+                            onChange={(e) => setMinCount(Math.max(1, Number(e.target.value) || 1))}
+                            className={`${selectClassName} w-24`}
+                        />
+                    </label>
+                    {needsDetail && syncing && (
+                        <p className="text-xs text-gray-400">
+                            일지 상세를 불러오는 중이라 일부 값이 비어 있을 수 있습니다.
+                        </p>
+                    )}
+                </div>
+
+                {!pivot ? (
+                    <div className="flex justify-center py-12">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                    </div>
+                ) : pivot.rows.length === 0 ? (
+                    <div className="bg-gray-800 p-8 rounded-xl text-center text-gray-400">
+                        분석할 탈출일지가 없습니다.
+                    </div>
+                ) : (
+                    <div className="bg-gray-800 rounded-xl overflow-auto max-h-[70vh]">
+                        <table className="min-w-full text-sm text-gray-200">
+                            <thead className="sticky top-0 bg-gray-700 text-gray-300">
+                                <tr>
+                                    <th className="px-3 py-2 text-left whitespace-nowrap">
+                                        {getDimension(row)?.label}
+                                        {column && ` \\ ${getDimension(column)?.label}`}
+                                    </th>
+                                    {column &&
+                                        pivot.columns.map((columnKey) => (
+                                            <th key={columnKey} className="px-3 py-2 text-right whitespace-nowrap">
+                                                {columnKey}
+                                            </th>
+                                        ))}
+                                    <th className="px-3 py-2 text-right whitespace-nowrap">전체</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pivot.rows.map((rowKey, rowIndex) => (
+                                    <tr key={rowKey} className="border-t border-gray-700">
+                                        <th className="px-3 py-2 text-left font-medium whitespace-nowrap">{rowKey}</th>
+                                        {column &&
+                                            pivot.cells[rowIndex].map((cell, columnIndex) =>
+                                                renderCell(cell, { key: pivot.columns[columnIndex], heat: true }),
+                                            )}
+                                        {/* 열 기준이 없으면 전체 열이 곧 집계 결과 */}
+                                        {renderCell(pivot.rowTotals[rowIndex], {
+                                            heat: !column,
+                                            className: column ? 'font-semibold' : '',
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                            {column && (
+                                <tfoot className="border-t-2 border-gray-600 font-semibold">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left">전체</th>
+                                        {pivot.columnTotals.map((cell, index) =>
+                                            renderCell(cell, { key: pivot.columns[index] }),
+                                        )}
+                                        {renderCell(pivot.total)}
+                                    </tr>
+                                </tfoot>
+                            )}
+                        </table>
+                    </div>
+                )}
+
+                <p className="text-xs text-gray-500 mt-3">
+                    장르는 테마 태그 기준이며, 태그가 여러 개인 테마는 각 장르에 한 번씩 집계합니다. 칸에 마우스를
+                    올리면 집계한 일지 수를 볼 수 있습니다.
+                </p>
+            </div>
+        </div>
+    )
+}
@@ -2,11 +2,27 @@
 
 import { PageLoading } from '@/components/common/PageLoading'
 import { components } from '@/lib/backend/apiV1/schema'
-import client from '@/lib/backend/client'
+import client, { unwrap } from '@/lib/backend/client'
+import { fetchAllDiaries } from '@/lib/backend/diaryList'
+import { formatElapsedTime } from '@/lib/diaryCard'
+import {
+    COMPARE_MONTH_OPTIONS,
+    comparePeriods,
+    DiarySummary,
+    getCompareFetchRange,
+    getDiaryStats,
+    getMonthRange,
+    getPresetRange,
+    STAT_RANGE_PRESETS,
+    StatRange,
+    StatRangePreset,
+    toDiaryListHref,
+} from '@/lib/diaryStats'
 import { LoginMemberContext } from '@/stores/auth/loginMember'
 import Image from 'next/image'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { useContext, useEffect, useState } from 'react'
+import { useContext, useEffect, useMemo, useState } from 'react'
 
 // 차트 컴포넌트
 import {
@@ -32,7 +48,8 @@ import {
 
 // 통계 데이터 인터페이스
 type StatData = components['schemas']['MemberStatResponse']
-type ApiResponse = components['schemas']['SuccessResponseMemberStatResponse']
+type DiaryListDto = components['schemas']['DiaryListDto']
+type ThemeTag = components['schemas']['ThemeTagResponse']
 
 // 색상 정의
 const COLORS = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#9896f1', '#f9ca66', '#e5e5e5']
@@ -54,17 +71,83 @@ const TENDENCY_MAP = {
     tendencyLogical: '추론',
 }
 
+// 최근 기간 비교 항목
+const COMPARE_ITEMS: {
+    key: keyof DiarySummary
+    label: string
+    icon: string
+    format: (value: number) => string
+    lowerIsBetter?: boolean
+}[] = [
+    { key: 'totalCount', label: '참여 테마 수', icon: '/icon/count-icon.svg', format: (value) => `${value}개` },
+    { key: 'successRate', label: '탈출 성공률', icon: '/icon/check-icon.svg', format: (value) => `${value}%` },
+    {
+        key: 'averageHintCount',
+        label: '평균 힌트 사용',
+        icon: '/icon/bulb-icon.svg',
+        format: (value) => `${value}개`,
+        lowerIsBetter: true,
+    },
+    { key: 'noHintSuccessCount', label: '노힌트 성공', icon: '/icon/star-icon.svg', format: (value) => `${value}회` },
+    {
+        key: 'averageTime',
+        label: '평균 소요 시간',
+        icon: '/icon/clock-icon.svg',
+        format: formatElapsedTime,
+        lowerIsBetter: true,
+    },
+]
+
+// 이전 기간 대비 변화 (좋아졌으면 초록, 나빠졌으면 빨강)
+const CompareDelta = ({
+    current,
+    previous,
+    format,
+    lowerIsBetter = false,
+}: {
+    current: number
+    previous: number
+    format: (value: number) => string
+    lowerIsBetter?: boolean
+}) => {
+    const delta = Math.round((current - previous) * 10) / 10
+    if (delta === 0) return <p className="text-[10px] text-gray-400">변화 없음</p>
+
+    const improved = lowerIsBetter ? delta < 0 : delta > 0
+    return (
+        <p className={`text-[10px] ${improved ? 'text-[#4ecdc4]' : 'text-[#ff6b6b]'}`}>
+            {delta > 0 ? '▲' : '▼'} {format(Math.abs(delta))}
+        </p>
+    )
+}
+
 export default function StatPage() {
     const router = useRouter()
     const { loginMember, isLogin } = useContext(LoginMemberContext)
     const [loading, setLoading] = useState(true)
     const [statData, setStatData] = useState<StatData | null>(null)
+    // 통계 기간 (전체 기간이 아니면 일지 목록을 직접 집계)
+    const [rangePreset, setRangePreset] = useState<StatRangePreset>('all')
+    const [customRange, setCustomRange] = useState<StatRange>({})
+    const [rangeDiaries, setRangeDiaries] = useState<DiaryListDto[] | null>(null)
+    // 최근 N개월 비교
+    const [compareMonths, setCompareMonths] = useState(COMPARE_MONTH_OPTIONS[0])
+    const [recentDiaries, setRecentDiaries] = useState<DiaryListDto[]>([])
+    // 장르 이름 → 태그 ID (일지 목록 필터로 넘길 때 사용)
+    const [tags, setTags] = useState<ThemeTag[]>([])
+
+    const range = useMemo(
+        () => (rangePreset === 'custom' ? customRange : getPresetRange(rangePreset)),
+        [rangePreset, customRange],
+    )
+    // 직접 선택인데 시작/종료일이 비었거나 뒤바뀐 경우
+    const isRangeIncomplete =
+        rangePreset === 'custom' && (!range.startDate || !range.endDate || range.startDate > range.endDate)
+    const stats = useMemo(() => (rangeDiaries ? getDiaryStats(rangeDiaries, range) : null), [rangeDiaries, range])
+    const comparison = useMemo(() => comparePeriods(recentDiaries, compareMonths), [recentDiaries, compareMonths])
 
     useEffect(() => {
-        if (!isLogin) {
-            router.push('/login')
-            return
-        }
+        if (!isLogin) return
 
         // 통계 데이터 가져오기
         const fetchStatData = async () => {
@@ -85,6 +168,59 @@ export default function StatPage() {
         fetchStatData()
     }, [isLogin, router])
 
+    // 최근 기간 비교용 일지와 장르 태그는 한 번만 불러온다
+    useEffect(() => {
+        if (!isLogin) return
+
+        fetchAllDiaries(getCompareFetchRange()).then(({ data, error }) => {
+            if (error) {
+                console.error('최근 일지 조회 실패:', error)
+                return
+            }
+            setRecentDiaries(data)
+        })
+
+        unwrap(client.GET('/api/v1/themes/tags')).then(({ data }) => setTags(data ?? []))
+    }, [isLogin])
+
+    // 기간이 바뀌면 해당 기간의 일지를 다시 집계
+    useEffect(() => {
+        if (!isLogin) return
+
+        // 기간을 다 고르기 전에는 이전 기간의 통계를 보여주지 않는다
+        setRangeDiaries(null)
+        if (isRangeIncomplete) return
+
+        let cancelled = false
+
+        fetchAllDiaries({ startDate: range.startDate, endDate: range.endDate }).then(({ data, error }) => {
+            if (cancelled) return
+            if (error) {
+                console.error('기간별 일지 조회 실패:', error)
+                return
+            }
+            setRangeDiaries(data)
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [isLogin, isRangeIncomplete, range])
+
+    // 차트에서 고른 조건으로 내 탈출일지 목록 열기
+    const openGenre = (genreName: string) => {
+        const tagId = tags.find((tag) => tag.name === genreName)?.id
+        router.push(
+            toDiaryListHref({
+                ...range,
+                tagIds: tagId ? [tagId] : undefined,
+                genreNames: tagId ? [genreName] : undefined,
+            }),
+        )
+    }
+
+    const openMonth = (month: string) => router.push(toDiaryListHref(getMonthRange(month)))
+
     if (loading) {
         return (
             <div className="bg-gray-900 min-h-screen">
@@ -112,12 +248,70 @@ export default function StatPage() {
         )
     }
 
+    const genreChartData = (stats?.genres ?? []).map(({ name, percent }) => ({ name, value: percent }))
+    // 참여 비율 상위 5개 장르
+    const genreSuccessData = (stats?.genres ?? []).slice(0, 5).map(({ name, successRate, failRate }) => ({
+        genre: name,
+        success: successRate,
+        fail: failRate,
+    }))
+    const monthlyData = stats?.monthly ?? []
+
     return (
         <div className="bg-gray-900 min-h-screen pb-10">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
                 <div className="flex justify-between items-center mb-6">
                     <h1 className="text-2xl font-bold text-white">방탈출 통계 대시보드</h1>
-                    <p className="text-gray-300 text-sm">당신이 방탈출 여행을 한눈에 확인하세요.</p>
+                    <div className="flex items-center gap-4">
+                        <p className="text-gray-300 text-sm">당신이 방탈출 여행을 한눈에 확인하세요.</p>
+                        <Link
+                            href="/my/stat/analytics"
+                            className="px-4 py-2 bg-gray-800 text-[#FFB130] rounded-lg text-sm hover:bg-gray-700 transition-colors"
+                        >
+                            직접 분석하기
+                        </Link>
+                    </div>
+                </div>
+
+                {/* 기간 선택 */}
+                <div className="flex flex-wrap items-center gap-2 mb-6">
+                    {STAT_RANGE_PRESETS.map((preset) => (
+                        <button
+                            key={preset.key}
+                            onClick={() => setRangePreset(preset.key)}
+                            className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                                rangePreset === preset.key
+                                    ? 'bg-[#FFB130] text-black'
+                                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                            }`}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                    {rangePreset === 'custom' && (
+                        <div className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                                type="date"
+                                value={customRange.startDate ?? ''}
+                                max={customRange.endDate}
+                                onChange={(e) => setCustomRange((prev) => ({ ...prev, startDate: e.target.value }))}
+                                className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-white"
+                            />
+                            ~
+                            <input
+                                type="date"
+                                value={customRange.endDate ?? ''}
+                                min={customRange.startDate}
+                                onChange={(e) => setCustomRange((prev) => ({ ...prev, endDate: e.target.value }))}
+                                className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-white"
+                            />
+                        </div>
+                    )}
+                    {isRangeIncomplete ? (
+                        <span className="text-xs text-gray-400">기간을 선택해주세요</span>
+                    ) : (
+                        !stats && <span className="text-xs text-gray-400">집계 중...</span>
+                    )}
                 </div>
 
                 {/* 상단 카드 - 주요 통계 */}
@@ -126,7 +320,7 @@ export default function StatPage() {
                         <div className="flex justify-between items-center mb-4">
                             <div>
                                 <p className="text-gray-300 text-sm">총 방탈출 횟수</p>
-                                <h2 className="text-3xl font-bold text-white">{statData.totalCount}</h2>
+                                <h2 className="text-3xl font-bold text-white">{stats?.totalCount ?? '-'}</h2>
                             </div>
                             <div className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center">
                                 <Image
@@ -139,7 +333,8 @@ export default function StatPage() {
                             </div>
                         </div>
                         <p className="text-sm text-gray-400">
-                            탈출 성공률 <span className="text-[#4ecdc4] font-semibold">{statData.successRate}%</span>
+                            탈출 성공률{' '}
+                            <span className="text-[#4ecdc4] font-semibold">{stats?.successRate ?? '-'}%</span>
                         </p>
                     </div>
 
@@ -147,7 +342,7 @@ export default function StatPage() {
                         <div className="flex justify-between items-center mb-4">
                             <div>
                                 <p className="text-gray-300 text-sm">노힌트 클리어</p>
-                                <h2 className="text-3xl font-bold text-white">{statData.noHintSuccessCount}</h2>
+                                <h2 className="text-3xl font-bold text-white">{stats?.noHintSuccessCount ?? '-'}</h2>
                             </div>
                             <div className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center">
                                 <Image
@@ -161,7 +356,7 @@ export default function StatPage() {
                         </div>
                         <p className="text-sm text-gray-400">
                             노힌트 성공률{' '}
-                            <span className="text-[#4ecdc4] font-semibold">{statData.noHintSuccessRate}%</span>
+                            <span className="text-[#4ecdc4] font-semibold">{stats?.noHintSuccessRate ?? '-'}%</span>
                         </p>
                     </div>
 
@@ -169,7 +364,7 @@ export default function StatPage() {
                         <div className="flex justify-between items-center mb-4">
                             <div>
                                 <p className="text-gray-300 text-sm">힌트 평균 사용</p>
-                                <h2 className="text-3xl font-bold text-white">{statData.averageHintCount}</h2>
+                                <h2 className="text-3xl font-bold text-white">{stats?.averageHintCount ?? '-'}</h2>
                             </div>
                             <div className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center">
                                 <Image
@@ -188,15 +383,15 @@ export default function StatPage() {
                 {/* 장르별 진행 비율 & 장르별 성공/실패 비율 */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                     <div className="bg-gray-800 p-6 rounded-xl shadow-sm">
-                        <h3 className="text-lg font-semibold mb-6 text-white">장르별 진행 비율</h3>
+                        <h3 className="text-lg font-semibold mb-2 text-white">장르별 진행 비율</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            장르를 누르면 해당 장르의 탈출일지를 볼 수 있습니다.
+                        </p>
                         <div className="h-64">
                             <ResponsiveContainer width="100%" height="100%">
                                 <PieChart>
                                     <Pie
-                                        data={Object.entries(statData.genreCountMap ?? {}).map(([name, value]) => ({
-                                            name,
-                                            value,
-                                        }))}
+                                        data={genreChartData}
                                         cx="50%"
                                         cy="50%"
                                         innerRadius={0}
@@ -205,8 +400,10 @@ export default function StatPage() {
                                         dataKey="value"
                                         labelLine={false}
                                         label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                                        onClick={(_, index) => openGenre(genreChartData[index].name)}
+                                        className="cursor-pointer"
                                     >
-                                        {Object.entries(statData.genreCountMap ?? {}).map(([name, value], index) => (
+                                        {genreChartData.map(({ name }, index) => (
                                             <Cell
                                                 key={`cell-${index}`}
                                                 fill={
@@ -228,10 +425,7 @@ export default function StatPage() {
                         <div className="h-64">
                             <ResponsiveContainer width="100%" height="100%">
                                 <BarChart
-                                    data={Object.entries(statData.genreSuccessMap ?? {}).map(([genre, success]) => ({
-                                        genre,
-                                        success,
-                                    }))}
+                                    data={genreSuccessData}
                                     layout="vertical"
                                     margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                                 >
@@ -240,8 +434,22 @@ export default function StatPage() {
                                     <YAxis dataKey="genre" type="category" width={80} />
                                     <Tooltip formatter={(value) => [`${value}%`, '']} />
                                     <Legend />
-                                    <Bar dataKey="success" name="성공" stackId="a" fill="#4ecdc4" />
-                                    <Bar dataKey="fail" name="실패" stackId="a" fill="#ff6b6b" />
+                                    <Bar
+                                        dataKey="success"
+                                        name="성공"
+                                        stackId="a"
+                                        fill="#4ecdc4"
+                                        className="cursor-pointer"
+                                        onClick={(_, index) => openGenre(genreSuccessData[index].genre)}
+                                    />
+                                    <Bar
+                                        dataKey="fail"
+                                        name="실패"
+                                        stackId="a"
+                                        fill="#ff6b6b"
+                                        className="cursor-pointer"
+                                        onClick={(_, index) => openGenre(genreSuccessData[index].genre)}
+                                    />
                                 </BarChart>
                             </ResponsiveContainer>
                         </div>
@@ -253,6 +461,9 @@ export default function StatPage() {
                     <div className="bg-gray-800 p-6 rounded-xl shadow-sm">
                         <h3 className="text-lg font-semibold mb-6 text-white">
                             성향 분석 <span className="text-gray-400 text-sm">ⓘ</span>
+                            {rangePreset !== 'all' && (
+                                <span className="ml-2 text-xs font-normal text-gray-400">전체 기간 기준</span>
+                            )}
                         </h3>
                         <div className="relative h-64">
                             <ResponsiveContainer width="100%" height="100%">
@@ -283,21 +494,22 @@ export default function StatPage() {
                     </div>
 
                     <div className="bg-gray-800 p-6 rounded-xl shadow-sm">
-                        <h3 className="text-lg font-semibold mb-6 text-white">월별 방탈출 장소 수와 평균 용맹 지수</h3>
+                        <h3 className="text-lg font-semibold mb-2 text-white">월별 방탈출 장소 수</h3>
+                        <p className="text-xs text-gray-400 mb-4">막대를 누르면 그 달의 탈출일지를 볼 수 있습니다.</p>
                         <div className="h-64">
                             <ResponsiveContainer width="100%" height="100%">
-                                <LineChart
-                                    data={Object.entries(statData.monthlyCountMap ?? {}).map(([month, count]) => ({
-                                        month,
-                                        count,
-                                    }))}
-                                >
+                                <BarChart data={monthlyData}>
                                     <CartesianGrid strokeDasharray="3 3" />
                                     <XAxis dataKey="month" />
-                                    <YAxis domain={[0, 8]} />
-                                    <Tooltip />
-                                    <Line type="monotone" dataKey="count" stroke="#8884d8" activeDot={{ r: 8 }} />
-                                </LineChart>
+                                    <YAxis allowDecimals={false} />
+                                    <Tooltip formatter={(value) => [`${value}개`, '방탈출']} />
+                                    <Bar
+                                        dataKey="count"
+                                        fill="#8884d8"
+                                        className="cursor-pointer"
+                                        onClick={(_, index) => openMonth(monthlyData[index].month)}
+                                    />
+                                </BarChart>
                             </ResponsiveContainer>
                         </div>
                     </div>
@@ -324,104 +536,77 @@ export default function StatPage() {
                     </div>
                 </div>
 
-                {/* 최근 방탈출 활동 */}
+                {/* 최근 N개월과 직전 N개월 비교 */}
                 <div className="bg-gray-800 p-6 rounded-xl shadow-sm mb-6">
-                    <h3 className="text-lg font-semibold mb-6 text-white">최근 방탈출 활동</h3>
-
-                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-6">
-                        <div className="text-center">
-                            <div className="mb-2">
-                                <Image
-                                    src="/icon/count-icon.svg"
-                                    alt="참여 테마 수"
-                                    width={36}
-                                    height={36}
-                                    className="mx-auto"
-                                />
-                            </div>
-                            <p className="text-gray-300 text-xs">참여 테마 수</p>
-                            <p className="text-lg font-semibold text-white">{statData.mostActiveMonthCount}개</p>
-                        </div>
-
-                        <div className="text-center">
-                            <div className="mb-2">
-                                <Image
-                                    src="/icon/star-icon.svg"
-                                    alt="평균 만족도"
-                                    width={36}
-                                    height={36}
-                                    className="mx-auto"
-                                />
-                            </div>
-                            <p className="text-gray-300 text-xs">평균 만족도</p>
-                            <p className="text-lg font-semibold text-white">
-                                {statData.lastMonthInfo?.lastMonthAvgSatisfaction}/5.0
-                            </p>
-                        </div>
-
-                        <div className="text-center">
-                            <div className="mb-2">
-                                <Image
-                                    src="/icon/bulb-icon.svg"
-                                    alt="평균 힌트 사용"
-                                    width={36}
-                                    height={36}
-                                    className="mx-auto"
-                                />
-                            </div>
-                            <p className="text-gray-300 text-xs">평균 힌트 사용</p>
-                            <p className="text-lg font-semibold text-white">
-                                {statData.lastMonthInfo?.lastMonthAvgHintCount}개
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+                        <div>
+                            <h3 className="text-lg font-semibold text-white">최근 {compareMonths}개월 방탈출 활동</h3>
+                            <p className="text-xs text-gray-400">
+                                직전 {compareMonths}개월({comparison.previous.range.startDate} ~{' '}
+                                {comparison.previous.range.endDate})과 비교합니다.
                             </p>
                         </div>
-
-                        <div className="text-center">
-                            <div className="mb-2">
-                                <Image
-                                    src="/icon/check-icon.svg"
-                                    alt="탈출 성공률"
-                                    width={36}
-                                    height={36}
-                                    className="mx-auto"
-                                />
-                            </div>
-                            <p className="text-gray-300 text-xs">탈출 성공률</p>
-                            <p className="text-lg font-semibold text-white">
-                                {statData.lastMonthInfo?.lastMonthSuccessRate}%
-                            </p>
+                        <div className="flex gap-1">
+                            {COMPARE_MONTH_OPTIONS.map((months) => (
+                                <button
+                                    key={months}
+                                    onClick={() => setCompareMonths(months)}
+                                    className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                                        compareMonths === months
+                                            ? 'bg-[#FFB130] text-black'
+                                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                    }`}
+                                >
+                                    {months}개월
+                                </button>
+                            ))}
                         </div>
+                    </div>
 
-                        <div className="text-center">
-                            <div className="mb-2">
-                                <Image
-                                    src="/icon/clock-icon.svg"
-                                    alt="평균 소요 시간"
-                                    width={36}
-                                    height={36}
-                                    className="mx-auto"
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-6">
+                        {COMPARE_ITEMS.map((item) => (
+                            <div key={item.key} className="text-center">
+                                <div className="mb-2">
+                                    <Image
+                                        src={item.icon}
+                                        alt={item.label}
+                                        width={36}
+                                        height={36}
+                                        className="mx-auto"
+                                    />
+                                </div>
+                                <p className="text-gray-300 text-xs">{item.label}</p>
+                                <p className="text-lg font-semibold text-white">
+                                    {item.format(comparison.current.summary[item.key])}
+                                </p>
+                                <CompareDelta
+                                    current={comparison.current.summary[item.key]}
+                                    previous={comparison.previous.summary[item.key]}
+                                    format={item.format}
+                                    lowerIsBetter={item.lowerIsBetter}
                                 />
                             </div>
-                            <p className="text-gray-300 text-xs">평균 소요 시간</p>
-                            <p className="text-lg font-semibold text-white">
-                                {statData.lastMonthInfo?.lastMonthAvgTime}분
-                            </p>
-                        </div>
+                        ))}
 
                         <div className="text-center">
                             <div className="mb-2">
                                 <Image
                                     src="/icon/trophy-icon.svg"
-                                    alt="최고 전적 대비"
+                                    alt="지난달 최고 테마"
                                     width={36}
                                     height={36}
                                     className="mx-auto"
                                 />
                             </div>
-                            <p className="text-gray-300 text-xs">최고 전적 대비</p>
+                            <p className="text-gray-300 text-xs">지난달 최고 테마</p>
                             <p className="text-lg font-semibold text-[#4ecdc4]">
-                                {statData.lastMonthInfo?.lastMonthTopTheme}
+                                {statData.lastMonthInfo?.lastMonthTopTheme ?? '-'}
                             </p>
-                            <p className="text-[10px] text-gray-400">4/5</p>
+                            {statData.lastMonthInfo?.lastMonthTopSatisfaction !== undefined && (
+                                <p className="text-[10px] text-gray-400">
+                                    {statData.lastMonthInfo.lastMonthTopSatisfaction}/5
+                                </p>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -429,7 +614,12 @@ export default function StatPage() {
                 {/* 난이도별 방탈출 사용 패턴 & 난이도와 만족도 상관관계 */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="bg-gray-800 p-6 rounded-xl shadow-sm">
-                        <h3 className="text-lg font-semibold mb-6 text-white">난이도별 힌트 사용 패턴</h3>
+                        <h3 className="text-lg font-semibold mb-6 text-white">
+                            난이도별 힌트 사용 패턴
+                            {rangePreset !== 'all' && (
+                                <span className="ml-2 text-xs font-normal text-gray-400">전체 기간 기준</span>
+                            )}
+                        </h3>
                         <div className="h-64">
                             <ResponsiveContainer width="100%" height="100%">
                                 <LineChart
@@ -453,7 +643,12 @@ export default function StatPage() {
                     </div>
 
                     <div className="bg-gray-800 p-6 rounded-xl shadow-sm">
-                        <h3 className="text-lg font-semibold mb-6 text-white">난이도와 만족도 상관관계</h3>
+                        <h3 className="text-lg font-semibold mb-6 text-white">
+                            난이도와 만족도 상관관계
+                            {rangePreset !== 'all' && (
+                                <span className="ml-2 text-xs font-normal text-gray-400">전체 기간 기준</span>
+                            )}
+                        </h3>
                         <div className="h-64">
                             <ResponsiveContainer width="100%" height="100%">
                                 <BarChart
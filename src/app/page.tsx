@@ -1,7 +1,8 @@
 'use client'
 
 import { components } from '@/lib/backend/apiV1/schema'
-import client from '@/lib/backend/client'
+import client, { unwrap } from '@/lib/backend/client'
+import { useQuery } from '@/lib/backend/queryCache'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
@@ -46,16 +47,13 @@ export default function HomePage() {
     const [newActiveTag, setNewActiveTag] = useState('#전체')
     const [rankingThemes, setRankingThemes] = useState<Theme[]>([])
     const [newThemes, setNewThemes] = useState<Theme[]>([])
-    const [parties, setParties] = useState<Party[]>([])
     const [isLoadingRanking, setIsLoadingRanking] = useState(false)
     const [isLoadingNew, setIsLoadingNew] = useState(false)
-    const [isLoadingParties, setIsLoadingParties] = useState(false)
 
     // 컴포넌트 마운트 시 API 호출
     useEffect(() => {
         fetchRankingThemes()
         fetchNewThemes()
-        fetchParties()
     }, [])
 
     // 인기 테마 태그 선택 시 API 호출
@@ -110,24 +108,10 @@ export default function HomePage() {
         }
     }
 
-    // 실시간 모집 파티 가져오기
-    const fetchParties = async () => {
-        setIsLoadingParties(true)
-        try {
-            const response = await client.GET('/api/v1/parties/main')
-            if (response.data?.data) {
-                setParties(response.data.data)
-            } else {
-                console.warn('모임 데이터가 없습니다.')
-                setParties([])
-            }
-        } catch (error) {
-            console.error('모임 조회 실패:', error)
-            setParties([])
-        } finally {
-            setIsLoadingParties(false)
-        }
-    }
+    // 실시간 모집 파티 (모임 상세에서 승인한 인원 수가 캐시로 바로 반영된다)
+    const { data: parties = [], loading: isLoadingParties } = useQuery<Party[]>(['/api/v1/parties/main'], () =>
+        unwrap(client.GET('/api/v1/parties/main')),
+    )
 
     // 테마 스켈레톤 UI
     const ThemeSkeleton = () => (
@@ -1,9 +1,12 @@
 'use client'
 
+import { DraftStatus } from '@/components/common/DraftStatus'
 import { TimePickerModal } from '@/components/party/TimePickerModal'
 import { ThemeSearchModal } from '@/components/theme/ThemeSearchModal'
 import type { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { useFormDraft } from '@/stores/draft/formDraft'
+import { useFeedback } from '@/stores/feedback/feedback'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
 import axios from 'axios'
 import Link from 'next/link'
@@ -27,6 +30,7 @@ type PartyDetailResponse = components['schemas']['PartyDetailResponse']
 
 export default function EditPartyPage() {
     const router = useRouter()
+    const { toast } = useFeedback()
     const params = useParams()
     const { isLogin, loginMember } = useGlobalLoginMember()
 
@@ -47,17 +51,18 @@ export default function EditPartyPage() {
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [loading, setLoading] = useState(true)
+    const [isLoaded, setIsLoaded] = useState(false)
 
     // 모임 ID 가져오기
     const partyId = params?.id
 
-    // 로그인 확인 및 리다이렉트
-    useEffect(() => {
-        if (!isLogin) {
-            alert('로그인이 필요한 페이지입니다.')
-            router.push('/login')
-        }
-    }, [isLogin, router])
+    // 기존 모임 정보를 불러온 뒤부터 수정 내용을 임시 저장
+    const { savedAt, clearDraft } = useFormDraft({
+        formKey: `party-edit-${partyId}`,
+        values: formData,
+        onRestore: setFormData,
+        enabled: isLoaded,
+    })
 
     // 모임 정보 불러오기
     useEffect(() => {
@@ -79,7 +84,7 @@ export default function EditPartyPage() {
 
                     // 모임장인지 확인
                     if (partyData.hostNickname !== loginMember?.nickname) {
-                        alert('모임 수정 권한이 없습니다.')
+                        toast.error('모임 수정 권한이 없습니다.')
                         router.push(`/parties/${partyId}`)
                         return
                     }
@@ -105,15 +110,16 @@ export default function EditPartyPage() {
                         rookieAvailable: partyData.rookieAvailable || false,
                         content: partyData.content || '',
                     })
+                    setIsLoaded(true)
                 } else {
                     setError('모임 정보를 찾을 수 없습니다.')
-                    alert('모임 정보를 찾을 수 없습니다.')
+                    toast.error('모임 정보를 찾을 수 없습니다.')
                     router.push('/parties')
                 }
             } catch (err) {
                 console.error('모임 상세 정보 로드 중 오류:', err)
                 setError('모임 정보를 가져오는 중 오류가 발생했습니다.')
-                alert('모임 정보를 가져오는 중 오류가 발생했습니다.')
+                toast.error('모임 정보를 가져오는 중 오류가 발생했습니다.')
                 router.push('/parties')
             } finally {
                 setLoading(false)
@@ -121,7 +127,7 @@ export default function EditPartyPage() {
         }
 
         fetchPartyDetail()
-    }, [partyId, isLogin, router, loginMember])
+    }, [partyId, isLogin, router, loginMember, toast])
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
@@ -179,7 +185,8 @@ export default function EditPartyPage() {
             })
 
             // 성공시 모임 상세 페이지로 이동
-            alert('모임 정보가 수정되었습니다.')
+            clearDraft()
+            toast.success('모임 정보가 수정되었습니다.')
             router.push(`/parties/${partyId}`)
         } catch (err) {
             console.error('모임 수정 중 오류:', err)
@@ -260,6 +267,7 @@ export default function EditPartyPage() {
             <div className="max-w-4xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
                 <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8">
                     <h1 className="text-2xl font-bold mb-6 text-white">모임 정보 수정</h1>
+                    <DraftStatus savedAt={savedAt} />
 
                     {error && (
                         <div className="mb-6 p-4 bg-red-900 text-red-200 rounded-lg border border-red-700">{error}</div>
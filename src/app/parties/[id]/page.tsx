@@ -1,108 +1,111 @@
 'use client'
 
 import { KakaoMap } from '@/components/common/KakaoMap'
+import { MemberCompareModal } from '@/components/my/MemberCompareModal'
 import UserProfileModal from '@/components/my/UserProfileModal'
+import { PartyApplicantList } from '@/components/party/PartyApplicantList'
+import { PartyChatPanel } from '@/components/party/PartyChatPanel'
+import { subscribeAlarms } from '@/lib/backend/alarmStream'
 import { components } from '@/lib/backend/apiV1/schema'
-import client from '@/lib/backend/client'
+import client, { unwrap } from '@/lib/backend/client'
+import { ApiError, NotFoundError } from '@/lib/backend/errors'
+import {
+    acceptPartyMember,
+    fetchMyPartyStatus,
+    partyDetailKey,
+    rejectPartyMember,
+    syncPartyParticipantsCount,
+} from '@/lib/backend/partyQueries'
+import { invalidateQueries, useQuery } from '@/lib/backend/queryCache'
+import { downloadPartyCalendar, getGoogleCalendarUrl } from '@/lib/partyCalendar'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 
 type PartyDetailResponse = components['schemas']['PartyDetailResponse']
+type PartyStatus = NonNullable<components['schemas']['MyJoinedPartySummaryResponse']['status']>
 
 export default function PartyDetailPage() {
     const params = useParams()
     const router = useRouter()
     const { isLogin, loginMember } = useGlobalLoginMember()
+    const { toast, confirm } = useFeedback()
 
-    const [partyData, setPartyData] = useState<PartyDetailResponse | null>(null)
-    const [loading, setLoading] = useState(true)
-    const [error, setError] = useState<string | null>(null)
     const [isRequestsOpen, setIsRequestsOpen] = useState(false)
-    const [userRole, setUserRole] = useState<'host' | 'member' | 'none'>('none')
     const [selectedMemberId, setSelectedMemberId] = useState<number | null>(null)
+    // 참가 신청자와 내 통계 비교
+    const [compareMemberId, setCompareMemberId] = useState<number | null>(null)
     const [themeTags, setThemeTags] = useState<string[]>([])
+    // 상태 변경 알림을 받았을 때 확인한 모집 상태 (상세 응답에는 상태가 없음)
+    const [partyStatus, setPartyStatus] = useState<PartyStatus | null>(null)
 
     // 모임 ID 가져오기
     const partyId = params?.id
 
-    // 모임 상세 정보 가져오기
+    // 모임 상세 정보 (승인/거절은 캐시를 바로 고치고, 그 외 처리 후에는 다시 조회)
+    const {
+        data: partyData,
+        error: partyError,
+        loading,
+        refetch: fetchPartyDetail,
+    } = useQuery<PartyDetailResponse>(
+        partyDetailKey(Number(partyId)),
+        () =>
+            unwrap(
+                client.GET('/api/v1/parties/{id}', {
+                    params: {
+                        path: { id: Number(partyId) },
+                    },
+                }),
+            ),
+        { enabled: isLogin && !!partyId },
+    )
+    const error = partyError ? partyError.message || '모임 데이터를 찾을 수 없습니다.' : null
+
+    const userRole: 'host' | 'member' | 'applicant' | 'none' = !partyData
+        ? 'none'
+        : partyData.hostNickname === loginMember?.nickname
+        ? 'host'
+        : partyData.acceptedPartyMembers?.some((member) => member.nickname === loginMember?.nickname)
+        ? 'member'
+        : partyData.AppliedPartyMembers?.some((member) => member.nickname === loginMember?.nickname)
+        ? 'applicant'
+        : 'none'
+
+    // 이미 불러온 모임이 다시 조회했을 때 없어졌다면 취소된 것으로 본다
+    const isCancelled = partyStatus === 'CANCELLED' || (!!partyData && partyError instanceof NotFoundError)
+    const isFull =
+        partyStatus === 'FULL' ||
+        (!!partyData?.totalParticipants && (partyData.acceptedParticipantsCount || 0) >= partyData.totalParticipants)
+
+    // 현재 모임에 대한 신청/상태 알림이 오면 새로고침 없이 다시 조회
     useEffect(() => {
-        if (!isLogin) {
-            console.log('로그인이 필요합니다.')
-            return
-        }
+        if (!partyId) return
 
-        const fetchPartyDetail = async () => {
-            if (!partyId) {
-                console.log('partyId가 없습니다.')
-                return
+        return subscribeAlarms((alarm) => {
+            if (alarm.relId !== Number(partyId)) return
+
+            if (alarm.alarmType === 'PARTY_APPLY') {
+                fetchPartyDetail()
+                if (alarm.content) toast.info(alarm.content)
+            } else if (alarm.alarmType === 'PARTY_STATUS') {
+                fetchPartyDetail()
+                fetchMyPartyStatus(Number(partyId)).then((status) => {
+                    if (status) setPartyStatus(status)
+                })
             }
+        })
+    }, [partyId, fetchPartyDetail, toast])
 
-            setLoading(true)
-            try {
-                console.log('모임 상세 정보 요청 시작:', { partyId, isLogin })
-
-                const response = await client
-                    .GET('/api/v1/parties/{id}', {
-                        params: {
-                            path: { id: Number(partyId) },
-                        },
-                    })
-                    .catch((error) => {
-                        console.error('API 호출 실패:', error)
-                        throw error
-                    })
-
-                console.log('API 응답 전체:', response)
-
-                // response가 undefined인 경우
-                if (!response) {
-                    console.error('API 응답이 없습니다.')
-                    throw new Error('API 응답이 없습니다.')
-                }
-
-                // response.data가 undefined인 경우
-                if (!response.data) {
-                    console.error('API 응답 데이터가 없습니다. 응답:', response)
-                    throw new Error('API 응답 데이터가 없습니다.')
-                }
-
-                const responseData = response.data
-                console.log('파싱된 응답 데이터:', responseData)
-
-                // responseData.data가 없는 경우
-                if (!responseData.data) {
-                    console.error('모임 데이터가 없습니다. 응답 데이터:', responseData)
-                    throw new Error('모임 데이터를 찾을 수 없습니다.')
-                }
-
-                console.log('모임 데이터:', responseData.data)
-                console.log('로그인된 사용자 닉네임:', loginMember?.nickname)
-
-                setPartyData(responseData.data)
-                setUserRole(
-                    responseData.data.hostNickname === loginMember?.nickname
-                        ? 'host'
-                        : responseData.data.acceptedPartyMembers?.some(
-                              (member) => member.nickname === loginMember?.nickname,
-                          )
-                        ? 'member'
-                        : 'none',
-                )
-            } catch (error) {
-                console.error('모임 정보 조회 실패:', error)
-                // TODO: 500 에러
-                alert(`서버 오류가 발생했습니다.`)
-            } finally {
-                setLoading(false)
-            }
+    // 다시 조회한 참가 인원을 목록 캐시에도 반영
+    useEffect(() => {
+        if (partyData?.id !== undefined) {
+            syncPartyParticipantsCount(partyData.id, partyData.acceptedParticipantsCount || 0)
         }
-
-        fetchPartyDetail()
-    }, [partyId, isLogin, router, loginMember?.nickname])
+    }, [partyData])
 
     // themeTags 관련 코드 수정
     useEffect(() => {
@@ -114,61 +117,88 @@ export default function PartyDetailPage() {
     const handleJoinRequest = async () => {
         if (!partyId) return
 
-        try {
-            await client.POST('/api/v1/parties/{id}/apply', {
+        const { error } = await unwrap(
+            client.POST('/api/v1/parties/{id}/apply', {
                 params: {
                     path: { id: Number(partyId) },
                 },
-            })
+            }),
+        )
 
-            alert('참가 신청이 완료되었습니다.')
-            // 페이지 새로고침
-            window.location.reload()
-        } catch (error) {
+        if (error) {
             console.error('참가 신청 중 오류:', error)
-            alert('참가 신청 중 오류가 발생했습니다.')
+            toast.error(error.message || '참가 신청 중 오류가 발생했습니다.')
+            return
         }
+
+        toast.success('참가 신청이 완료되었습니다.')
+        fetchPartyDetail()
+        invalidateQueries('/api/v1/parties/joins/me')
     }
 
     const handleCancelJoin = async () => {
         if (!partyId) return
 
-        try {
-            await client.DELETE('/api/v1/parties/{id}/cancel', {
+        const { error } = await unwrap(
+            client.DELETE('/api/v1/parties/{id}/cancel', {
                 params: {
                     path: { id: Number(partyId) },
                 },
-            })
+            }),
+        )
 
-            alert('참가가 취소되었습니다.')
-            // 페이지 새로고침
-            window.location.reload()
-        } catch (error) {
+        if (error) {
             console.error('참가 취소 중 오류:', error)
-            alert('참가 취소 중 오류가 발생했습니다.')
+            toast.error(error.message || '참가 취소 중 오류가 발생했습니다.')
+            return
         }
-    }
 
-    // 참가 요청 승인 처리
-    const handleApproveRequest = async (memberId: number | undefined) => {
-        if (!partyId || !memberId) return
+        toast.success('참가가 취소되었습니다.')
+        fetchPartyDetail()
+        invalidateQueries('/api/v1/parties/joins/me')
+    }
 
-        try {
-            await client.POST('/api/v1/parties/{id}/accept/{memberId}', {
+    // 참가 요청 승인 처리 (화면을 먼저 바꾸고 실패하면 되돌린다)
+    const approveRequest = async (memberId: number) => {
+        const rollback = acceptPartyMember(Number(partyId), memberId)
+        const { error } = await unwrap(
+            client.POST('/api/v1/parties/{id}/accept/{memberId}', {
                 params: {
                     path: {
                         id: Number(partyId),
                         memberId: Number(memberId),
                     },
                 },
-            })
+            }),
+        )
 
-            alert('참가 요청이 승인되었습니다.')
-            // 페이지 새로고침
-            window.location.reload()
-        } catch (error) {
+        if (error) {
             console.error('참가 요청 승인 중 오류:', error)
-            alert('참가 요청 승인 중 오류가 발생했습니다.')
+            rollback()
+        }
+        return error
+    }
+
+    // 여러 명을 승인할 때는 모집 인원을 넘지 않도록 한 명씩 차례로 요청한다
+    const handleApproveRequests = async (memberIds: number[]) => {
+        if (!partyId || memberIds.length === 0) return
+
+        const errors: ApiError[] = []
+        for (const memberId of memberIds) {
+            const error = await approveRequest(memberId)
+            if (error) errors.push(error)
+        }
+
+        if (errors.length === 0) {
+            toast.success(
+                memberIds.length > 1
+                    ? `${memberIds.length}명의 참가 요청이 승인되었습니다.`
+                    : '참가 요청이 승인되었습니다.',
+            )
+        } else if (errors.length === memberIds.length) {
+            toast.error(errors[0].message || '참가 요청 승인 중 오류가 발생했습니다.')
+        } else {
+            toast.error(`${memberIds.length - errors.length}명을 승인했지만 ${errors.length}명은 승인하지 못했습니다.`)
         }
     }
 
@@ -176,81 +206,103 @@ export default function PartyDetailPage() {
     const handleRejectRequest = async (memberId: number | undefined) => {
         if (!partyId || !memberId) return
 
-        if (!confirm('정말로 참가 요청을 거절하시겠습니까?')) return
+        if (!(await confirm({ message: '정말로 참가 요청을 거절하시겠습니까?', confirmText: '거절', danger: true })))
+            return
 
-        try {
-            await client.POST('/api/v1/parties/{id}/reject/{memberId}', {
+        const rollback = rejectPartyMember(Number(partyId), memberId)
+        const { error } = await unwrap(
+            client.POST('/api/v1/parties/{id}/reject/{memberId}', {
                 params: {
                     path: {
                         id: Number(partyId),
                         memberId: Number(memberId),
                     },
                 },
-            })
+            }),
+        )
 
-            alert('참가 요청이 거절되었습니다.')
-            // 페이지 새로고침
-            window.location.reload()
-        } catch (error) {
+        if (error) {
             console.error('참가 요청 거절 중 오류:', error)
-            alert('참가 요청 거절 중 오류가 발생했습니다.')
+            rollback()
+            toast.error(error.message || '참가 요청 거절 중 오류가 발생했습니다.')
+            return
         }
+
+        toast.success('참가 요청이 거절되었습니다.')
     }
 
     // 모임 취소 처리
     const handleCancelParty = async () => {
         if (!partyId) return
 
-        if (!confirm('정말로 모임을 취소하시겠습니까?')) return
+        if (!(await confirm({ message: '정말로 모임을 취소하시겠습니까?', confirmText: '모임 취소', danger: true })))
+            return
 
-        try {
-            await client.DELETE('/api/v1/parties/{id}', {
+        const { error } = await unwrap(
+            client.DELETE('/api/v1/parties/{id}', {
                 params: {
                     path: { id: Number(partyId) },
                 },
-            })
-            alert('모임이 취소되었습니다.')
-            router.push('/parties')
-        } catch (error) {
+            }),
+        )
+
+        if (error) {
             console.error('모임 취소 중 오류:', error)
-            alert('모임 취소 중 오류가 발생했습니다.')
+            toast.error(error.message || '모임 취소 중 오류가 발생했습니다.')
+            return
         }
+
+        toast.success('모임이 취소되었습니다.')
+        invalidateQueries('/api/v1/parties/search')
+        invalidateQueries('/api/v1/parties/main')
+        invalidateQueries('/api/v1/parties/joins/me')
+        router.push('/parties')
     }
 
     // 모임 실행 완료 처리
     const handleExecuteParty = async () => {
         if (!partyId) return
 
-        try {
-            await client.PATCH('/api/v1/parties/{id}/executed', {
+        const { error } = await unwrap(
+            client.PATCH('/api/v1/parties/{id}/executed', {
                 params: {
                     path: { id: Number(partyId) },
                 },
-            })
-            alert('모임이 실행 완료 상태로 변경되었습니다.')
-            window.location.reload()
-        } catch (error) {
+            }),
+        )
+
+        if (error) {
             console.error('모임 실행 완료 처리 중 오류:', error)
-            alert('모임 실행 완료 처리 중 오류가 발생했습니다.')
+            toast.error(error.message || '모임 실행 완료 처리 중 오류가 발생했습니다.')
+            return
         }
+
+        toast.success('모임이 실행 완료 상태로 변경되었습니다.')
+        fetchPartyDetail()
+        invalidateQueries('/api/v1/parties/joins/me')
     }
 
     // 모임 미실행 처리
     const handleUnexecuteParty = async () => {
         if (!partyId) return
 
-        try {
-            await client.PATCH('/api/v1/parties/{id}/unexecuted', {
+        const { error } = await unwrap(
+            client.PATCH('/api/v1/parties/{id}/unexecuted', {
                 params: {
                     path: { id: Number(partyId) },
                 },
-            })
-            alert('모임이 미실행 상태로 변경되었습니다.')
-            window.location.reload()
-        } catch (error) {
+            }),
+        )
+
+        if (error) {
             console.error('모임 미실행 처리 중 오류:', error)
-            alert('모임 미실행 처리 중 오류가 발생했습니다.')
+            toast.error(error.message || '모임 미실행 처리 중 오류가 발생했습니다.')
+            return
         }
+
+        toast.success('모임이 미실행 상태로 변경되었습니다.')
+        fetchPartyDetail()
+        invalidateQueries('/api/v1/parties/joins/me')
     }
 
     // handleMemberClick 함수 수정
@@ -273,11 +325,6 @@ export default function PartyDetailPage() {
         )
     }
 
-    // 에러가 발생하면 콘솔에만 출력
-    if (error) {
-        console.error('모임 상세 정보 조회 실패:', error)
-    }
-
     // partyData가 없는 경우 기본 화면 표시
     if (!partyData) {
         return (
@@ -286,7 +333,7 @@ export default function PartyDetailPage() {
                     <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8 mb-6">
                         <div className="text-center">
                             <h1 className="text-2xl font-bold mb-4 text-white">모임 정보를 불러올 수 없습니다</h1>
-                            <p className="text-gray-400 mb-6">잠시 후 다시 시도해주세요.</p>
+                            <p className="text-gray-400 mb-6">{error || '잠시 후 다시 시도해주세요.'}</p>
                             <button
                                 onClick={() => router.push('/parties')}
                                 className="px-4 py-2 bg-[#FFB130] text-white rounded-lg hover:bg-[#F0A420]"
@@ -323,18 +370,92 @@ export default function PartyDetailPage() {
     // 참가자 목록에 모임장 포함 여부 확인
     const acceptedMembersCount = partyData.acceptedParticipantsCount || 0
     const totalRemainingCount = (partyData.totalParticipants || 0) - acceptedMembersCount
+    // 취소된 모임은 신청 관리와 참가 버튼을 숨긴다
+    const canManageApplicants = userRole === 'host' && !isCancelled
+    const calendarEvent = partyData.scheduledAt
+        ? {
+              partyId: Number(partyId),
+              title: partyData.title,
+              scheduledAt: partyData.scheduledAt,
+              themeName: partyData.themeName,
+              storeName: partyData.storeName,
+              storeAddress: partyData.storeAddress,
+          }
+        : null
+    // 모임 채팅은 모임장과 참가 확정 멤버만 사용할 수 있다
+    const canUseChat = (userRole === 'host' || userRole === 'member') && !isCancelled
+    const chatMembers = [
+        ...(partyData.hostId !== undefined ? [{ id: partyData.hostId, nickname: partyData.hostNickname }] : []),
+        ...(partyData.acceptedPartyMembers ?? []).flatMap((member) =>
+            member.id !== undefined && member.id !== partyData.hostId
+                ? [{ id: member.id, nickname: member.nickname }]
+                : [],
+        ),
+    ]
 
     return (
         <div className="min-h-screen bg-gray-900">
             <main className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
+                {/* 실시간 모집 상태 배너 */}
+                {isCancelled ? (
+                    <div
+                        role="status"
+                        className="mb-6 px-6 py-4 rounded-xl border border-red-700 bg-red-900/40 text-red-200"
+                    >
+                        모임장이 모임을 취소했습니다.
+                    </div>
+                ) : (
+                    isFull && (
+                        <div
+                            role="status"
+                            className="mb-6 px-6 py-4 rounded-xl border border-[#FFB130] bg-[#FFB130]/10 text-[#FFB130]"
+                        >
+                            모집 인원이 모두 찼습니다.
+                        </div>
+                    )
+                )}
+
                 {/* [1단] 모임 기본 정보 */}
                 <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8 mb-6">
                     <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
                         <div>
-                            <h1 className="text-2xl font-bold mb-2 text-white">{partyData.title}</h1>
+                            <div className="flex items-center gap-2 mb-2">
+                                <h1 className="text-2xl font-bold text-white">{partyData.title}</h1>
+                                {userRole === 'member' && !isCancelled && (
+                                    <span className="px-2 py-0.5 text-xs bg-green-600 text-white rounded-full">
+                                        참가 확정
+                                    </span>
+                                )}
+                                {userRole === 'applicant' && (
+                                    <span className="px-2 py-0.5 text-xs bg-gray-600 text-gray-200 rounded-full">
+                                        승인 대기
+                                    </span>
+                                )}
+                            </div>
                             <p className="text-gray-400">
                                 {formattedDate} {formattedTime}
                             </p>
+                            {/* 캘린더에 추가 */}
+                            {calendarEvent && !isCancelled && (
+                                <div className="flex gap-2 mt-3">
+                                    <button
+                                        onClick={() =>
+                                            downloadPartyCalendar([calendarEvent], `party-${calendarEvent.partyId}.ics`)
+                                        }
+                                        className="px-3 py-1 border border-gray-600 text-gray-300 text-sm rounded-lg hover:bg-gray-700"
+                                    >
+                                        캘린더 파일(.ics)
+                                    </button>
+                                    <a
+                                        href={getGoogleCalendarUrl(calendarEvent)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="px-3 py-1 border border-gray-600 text-gray-300 text-sm rounded-lg hover:bg-gray-700"
+                                    >
+                                        구글 캘린더에 추가
+                                    </a>
+                                </div>
+                            )}
                         </div>
                         <div className="flex items-center mt-4 md:mt-0">
                             <div className="w-10 h-10 rounded-full overflow-hidden relative mr-3 bg-gray-700">
@@ -482,7 +603,7 @@ export default function PartyDetailPage() {
                 </div>
 
                 {/* [2단] 참가 신청 목록 (모임장 권한) */}
-                {userRole === 'host' && partyData.AppliedPartyMembers && partyData.AppliedPartyMembers.length > 0 && (
+                {canManageApplicants && partyData.AppliedPartyMembers && partyData.AppliedPartyMembers.length > 0 && (
                     <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8 mb-6">
                         <button
                             onClick={() => setIsRequestsOpen(!isRequestsOpen)}
@@ -508,59 +629,26 @@ export default function PartyDetailPage() {
                         </button>
 
                         {isRequestsOpen && (
-                            <div className="mt-4 space-y-4">
-                                {partyData.AppliedPartyMembers.map((member) => (
-                                    <div
-                                        key={member.id}
-                                        className="flex items-center justify-between p-4 border border-gray-700 rounded-lg hover:bg-gray-700"
-                                    >
-                                        <div className="flex items-center">
-                                            <div className="w-10 h-10 rounded-full overflow-hidden relative mr-3 bg-gray-700">
-                                                <Image
-                                                    src={member.profilePictureUrl || '/default-profile.svg'}
-                                                    alt={member.nickname || '신청자'}
-                                                    fill
-                                                    className="object-cover"
-                                                />
-                                            </div>
-                                            <div className="flex flex-col">
-                                                <div className="flex items-center">
-                                                    <span className="font-medium text-white">{member.nickname}</span>
-                                                    {member.id === partyData.hostId && (
-                                                        <span className="ml-1 px-1.5 py-0.5 text-[10px] bg-[#FFB130] text-white rounded-full">
-                                                            모임장
-                                                        </span>
-                                                    )}
-                                                </div>
-                                                <button
-                                                    onClick={() => handleMemberClick(member.id)}
-                                                    className="text-sm text-blue-400 hover:underline mt-1"
-                                                >
-                                                    프로필 보기
-                                                </button>
-                                            </div>
-                                        </div>
-                                        <div className="flex items-center gap-2">
-                                            <button
-                                                onClick={() => handleRejectRequest(member.id)}
-                                                className="bg-gray-600 hover:bg-gray-500 text-gray-200 px-4 py-2 rounded-lg transition"
-                                            >
-                                                거절
-                                            </button>
-                                            <button
-                                                onClick={() => handleApproveRequest(member.id)}
-                                                className="bg-[#FFB130] hover:bg-[#F0A420] text-white px-4 py-2 rounded-lg transition"
-                                            >
-                                                승인
-                                            </button>
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
+                            <PartyApplicantList
+                                party={partyData}
+                                onApprove={handleApproveRequests}
+                                onReject={handleRejectRequest}
+                                onShowProfile={handleMemberClick}
+                                onCompare={setCompareMemberId}
+                            />
                         )}
                     </div>
                 )}
 
+                {/* 모임 채팅 (모임장, 참가 확정 멤버) */}
+                {canUseChat && (
+                    <PartyChatPanel
+                        partyId={Number(partyId)}
+                        members={chatMembers}
+                        myId={loginMember?.id}
+                    />
+                )}
+
                 {/* [3단] 테마 정보 */}
                 <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8 mb-6">
                     <h2 className="text-xl font-bold mb-6 text-white">테마 정보</h2>
@@ -639,7 +727,7 @@ export default function PartyDetailPage() {
                 {/* [5단] 버튼 섹션 */}
                 <div className="flex flex-wrap justify-center gap-4 my-8">
                     {/* 모임장(글쓴이)인 경우 */}
-                    {userRole === 'host' && (
+                    {canManageApplicants && (
                         <>
                             <button
                                 onClick={handleExecuteParty}
@@ -669,7 +757,7 @@ export default function PartyDetailPage() {
                     )}
 
                     {/* 모임원(글쓴이가 아닌 경우)인 경우 */}
-                    {userRole === 'member' && (
+                    {userRole === 'member' && !isCancelled && (
                         <button
                             onClick={handleCancelJoin}
                             className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition"
@@ -678,8 +766,18 @@ export default function PartyDetailPage() {
                         </button>
                     )}
 
+                    {/* 참가 신청 후 승인을 기다리는 경우 */}
+                    {userRole === 'applicant' && !isCancelled && (
+                        <button
+                            onClick={handleCancelJoin}
+                            className="px-6 py-3 border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-700 transition"
+                        >
+                            신청 취소
+                        </button>
+                    )}
+
                     {/* 일반 사용자(글쓴이가 아닌 경우)인 경우 */}
-                    {userRole === 'none' && (
+                    {userRole === 'none' && !isCancelled && (
                         <button
                             onClick={handleJoinRequest}
                             className="px-6 py-3 bg-[#FFB130] text-white rounded-lg hover:bg-[#F0A420] transition"
@@ -704,6 +802,9 @@ export default function PartyDetailPage() {
                     }}
                 />
             )}
+            {compareMemberId !== null && (
+                <MemberCompareModal memberId={compareMemberId} onClose={() => setCompareMemberId(null)} />
+            )}
         </div>
     )
 }
@@ -1,14 +1,15 @@
 'use client'
 
+import { DraftStatus } from '@/components/common/DraftStatus'
 import { TimePickerModal } from '@/components/party/TimePickerModal'
 import { ThemeSearchModal } from '@/components/theme/ThemeSearchModal'
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
-import { LoginMemberContext } from '@/stores/auth/loginMember'
+import { useFormDraft } from '@/stores/draft/formDraft'
 import axios from 'axios'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { useContext, useEffect, useState } from 'react'
+import { useState } from 'react'
 
 type PartyFormData = {
     title: string
@@ -28,7 +29,6 @@ type SuccessResponsePartyDto = components['schemas']['SuccessResponsePartyDto']
 export default function CreatePartyPage() {
     const router = useRouter()
     const searchParams = useSearchParams()
-    const { isLogin } = useContext(LoginMemberContext)
 
     // URL 파라미터에서 테마 정보 가져오기
     const initialThemeId = searchParams.get('themeId')
@@ -56,19 +56,17 @@ export default function CreatePartyPage() {
         content: '',
     })
 
-    // 로그인 확인 및 리다이렉트
-    useEffect(() => {
-        if (!isLogin) {
-            alert('로그인이 필요한 페이지입니다.')
-            router.push('/login')
-        }
-    }, [isLogin, router])
-
     const [isThemeSearchModalOpen, setIsThemeSearchModalOpen] = useState(false)
     const [isTimePickerModalOpen, setIsTimePickerModalOpen] = useState(false)
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [error, setError] = useState<string | null>(null)
 
+    const { savedAt, clearDraft } = useFormDraft({
+        formKey: 'party-new',
+        values: formData,
+        onRestore: setFormData,
+    })
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
 
@@ -121,6 +119,7 @@ export default function CreatePartyPage() {
             })
 
             // 성공시 모임 상세 페이지로 이동
+            clearDraft()
             if (response.data?.data?.id) {
                 router.push(`/parties/${response.data.data.id}`)
             } else {
@@ -238,6 +237,7 @@ export default function CreatePartyPage() {
             <div className="max-w-4xl mx-auto px-6 sm:px-8 lg:px-10 py-8">
                 <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8">
                     <h1 className="text-2xl font-bold mb-6 text-white">모임 등록</h1>
+                    <DraftStatus savedAt={savedAt} />
 
                     {error && (
                         <div className="mb-6 p-4 bg-red-900 text-red-200 rounded-lg border border-red-700">{error}</div>
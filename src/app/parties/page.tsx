@@ -6,6 +6,8 @@ import { PartyCard } from '@/components/party/PartyCard'
 import { PartySearch } from '@/components/party/PartySearch'
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { partySearchKey } from '@/lib/backend/partyQueries'
+import { setQueryData, useQueryData } from '@/lib/backend/queryCache'
 import { LoginMemberContext } from '@/stores/auth/loginMember'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
@@ -26,7 +28,8 @@ export default function PartiesPage() {
     const router = useRouter()
     const searchParams = useSearchParams()
     const { isLogin } = useContext(LoginMemberContext)
-    const [parties, setParties] = useState<PartySummaryResponse[]>([])
+    // 모임 상세에서 승인/거절한 인원 수가 바로 반영되도록 목록은 쿼리 캐시에 보관
+    const parties = useQueryData<PartySummaryResponse[]>(partySearchKey) || []
     const [loading, setLoading] = useState(false)
     const [initialLoading, setInitialLoading] = useState(true)
     const [searchKeyword, setSearchKeyword] = useState('')
@@ -88,7 +91,7 @@ export default function PartiesPage() {
         setLoading(true)
         try {
             if (reset) {
-                setParties([])
+                setQueryData<PartySummaryResponse[]>(partySearchKey, [])
                 setHasMore(true)
             }
 
@@ -122,7 +125,9 @@ export default function PartiesPage() {
                     setHasMore(hasNext)
                 }
 
-                setParties((prev) => (reset ? newParties : [...prev, ...newParties]))
+                setQueryData<PartySummaryResponse[]>(partySearchKey, (prev = []) =>
+                    reset ? newParties : [...prev, ...newParties],
+                )
             }
         } catch (error) {
             console.error('모임 데이터 로드 중 오류 발생:', error)
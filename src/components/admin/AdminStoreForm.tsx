@@ -0,0 +1,380 @@
+'use client'
+
+import { storeStatuses } from '@/components/admin/StoreStatusBadge'
+import { KakaoMap } from '@/components/common/KakaoMap'
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+type StoreRequest = components['schemas']['StoreRequest']
+type SubRegionsResponse = components['schemas']['SubRegionsResponse']
+type StoreResponse = components['schemas']['StoreResponse']
+
+type StoreFormData = {
+    name: string
+    majorRegion: string
+    regionId: number
+    address: string
+    phoneNumber: string
+    status: string
+}
+
+const majorRegions = [
+    { id: '서울', name: '서울' },
+    { id: '경기/인천', name: '경기/인천' },
+    { id: '충청', name: '충청' },
+    { id: '경상', name: '경상' },
+    { id: '전라', name: '전라' },
+    { id: '강원', name: '강원' },
+    { id: '제주', name: '제주' },
+]
+
+interface AdminStoreFormProps {
+    storeId?: number // 없으면 신규 등록, 있으면 수정
+}
+
+export function AdminStoreForm({ storeId }: AdminStoreFormProps) {
+    const router = useRouter()
+    const { toast, confirm } = useFeedback()
+    const isEdit = storeId !== undefined
+
+    const [formData, setFormData] = useState<StoreFormData>({
+        name: '',
+        majorRegion: '서울',
+        regionId: 0,
+        address: '',
+        phoneNumber: '',
+        status: 'OPENED',
+    })
+    const [regions, setRegions] = useState<SubRegionsResponse[]>([])
+    const [loadingRegions, setLoadingRegions] = useState(false)
+    // 지도 미리보기에 사용한 주소와 좌표 변환 성공 여부
+    const [previewAddress, setPreviewAddress] = useState('')
+    const [isGeocoded, setIsGeocoded] = useState<boolean | null>(null)
+    const [loading, setLoading] = useState(isEdit)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    // 수정 전 매장 정보 (바꾼 항목만 보내기 위해 보관)
+    const originalStore = useRef<StoreResponse | null>(null)
+
+    // 수정 시 기존 매장 정보 불러오기 (단건 조회 API가 없어 목록에서 찾는다)
+    useEffect(() => {
+        if (!isEdit) return
+
+        const fetchStore = async () => {
+            try {
+                const response = await client.GET('/api/v1/admin/stores', {})
+                const store = (response.data?.data || []).find((s) => s.id === storeId)
+                if (!store) {
+                    throw new Error('매장 정보를 찾을 수 없습니다.')
+                }
+
+                originalStore.current = store
+                setFormData((prev) => ({
+                    ...prev,
+                    name: store.name || '',
+                    address: store.address || '',
+                    status: store.status || 'OPENED',
+                }))
+                setPreviewAddress(store.address || '')
+            } catch (err) {
+                console.error('매장 정보 로드 중 오류:', err)
+                setError(err instanceof Error ? err.message : '매장 정보를 가져오는 중 오류가 발생했습니다.')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchStore()
+    }, [isEdit, storeId])
+
+    // 광역 지역이 바뀌면 하위 지역 목록 다시 불러오기
+    useEffect(() => {
+        const fetchRegions = async () => {
+            setLoadingRegions(true)
+            try {
+                const response = await client.GET('/api/v1/regions', {
+                    params: {
+                        query: {
+                            majorRegion: formData.majorRegion,
+                        },
+                    },
+                })
+
+                if (response?.data?.data) {
+                    setRegions(
+                        response.data.data.filter(
+                            (region): region is SubRegionsResponse =>
+                                typeof region.id === 'number' && typeof region.subRegion === 'string',
+                        ),
+                    )
+                }
+            } catch (err) {
+                console.error('지역 목록을 불러오는 중 오류가 발생했습니다:', err)
+            } finally {
+                setLoadingRegions(false)
+            }
+        }
+
+        fetchRegions()
+    }, [formData.majorRegion])
+
+    const handleGeocode = useCallback((found: boolean) => {
+        setIsGeocoded(found)
+    }, [])
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target
+        setFormData((prev) => ({
+            ...prev,
+            [name]: name === 'regionId' ? Number(value) : value,
+            // 광역 지역을 바꾸면 선택한 하위 지역은 초기화
+            ...(name === 'majorRegion' ? { regionId: 0 } : {}),
+        }))
+    }
+
+    const handleAddressPreview = () => {
+        if (!formData.address.trim()) return
+        setIsGeocoded(null)
+        setPreviewAddress(formData.address.trim())
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        const isAddressConfirmed = previewAddress === formData.address.trim() && isGeocoded === true
+        if (formData.address && !isAddressConfirmed) {
+            if (!(await confirm('지도에서 주소 위치가 확인되지 않았습니다. 그래도 저장하시겠습니까?'))) return
+        }
+
+        setIsSubmitting(true)
+        setError(null)
+
+        try {
+            if (!isEdit && !formData.regionId) {
+                throw new Error('지역을 선택해주세요.')
+            }
+
+            // 수정할 때는 바꾼 항목만 보낸다
+            // 목록 응답에 지역과 전화번호가 없어 기존 값을 알 수 없으므로 새로 입력한 경우에만 보낸다
+            const original = originalStore.current
+            const isChanged = (value: string, originalValue?: string) => !original || value !== (originalValue || '')
+            const requestData: StoreRequest = {
+                name: formData.name,
+                regionId: formData.regionId || undefined,
+                address: isChanged(formData.address, original?.address) ? formData.address || undefined : undefined,
+                phoneNumber: formData.phoneNumber || undefined,
+                status: isChanged(formData.status, original?.status) ? formData.status : undefined,
+            }
+
+            const response = isEdit
+                ? await client.PUT('/api/v1/admin/stores/{id}', {
+                      params: {
+                          path: { id: storeId },
+                      },
+                      body: requestData,
+                  })
+                : await client.POST('/api/v1/admin/stores', {
+                      body: requestData,
+                  })
+
+            if (response.error) {
+                throw new Error(isEdit ? '매장 수정에 실패했습니다.' : '매장 등록에 실패했습니다.')
+            }
+
+            toast.success(isEdit ? '매장이 수정되었습니다.' : '매장이 등록되었습니다.')
+            router.push('/admin/stores')
+        } catch (err) {
+            console.error('매장 저장 중 오류:', err)
+            setError(err instanceof Error ? err.message : '매장 저장에 실패했습니다.')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center py-24">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-200"></div>
+            </div>
+        )
+    }
+
+    const inputClassName =
+        'w-full px-4 py-2 border border-gray-600 rounded-lg focus:outline-none focus:border-[#FFB130] bg-gray-700 text-white'
+
+    return (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8">
+            <h1 className="text-2xl font-bold mb-6 text-white">{isEdit ? '매장 수정' : '매장 등록'}</h1>
+
+            {error && <div className="mb-6 p-4 bg-red-900 text-red-200 rounded-lg border border-red-700">{error}</div>}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+                {/* 매장명 */}
+                <div>
+                    <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">
+                        매장명
+                    </label>
+                    <input
+                        type="text"
+                        id="name"
+                        name="name"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        className={inputClassName}
+                        placeholder="매장명을 입력해주세요"
+                        required
+                    />
+                </div>
+
+                {/* 지역 */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">지역</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        <select
+                            name="majorRegion"
+                            value={formData.majorRegion}
+                            onChange={handleInputChange}
+                            className={inputClassName}
+                        >
+                            {majorRegions.map((region) => (
+                                <option key={region.id} value={region.id}>
+                                    {region.name}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            name="regionId"
+                            value={formData.regionId}
+                            onChange={handleInputChange}
+                            disabled={loadingRegions}
+                            className={inputClassName}
+                        >
+                            <option value={0}>{loadingRegions ? '불러오는 중...' : '세부 지역 선택'}</option>
+                            {regions.map((region) => (
+                                <option key={region.id} value={region.id}>
+                                    {region.subRegion}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {isEdit && (
+                        <p className="mt-1 text-xs text-gray-400">
+                            현재 지역은 불러올 수 없습니다. 지역을 변경할 때만 선택해주세요.
+                        </p>
+                    )}
+                </div>
+
+                {/* 주소 */}
+                <div>
+                    <label htmlFor="address" className="block text-sm font-medium text-gray-300 mb-1">
+                        주소
+                    </label>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            id="address"
+                            name="address"
+                            value={formData.address}
+                            onChange={handleInputChange}
+                            className={`flex-1 ${inputClassName}`}
+                            placeholder="도로명 주소를 입력해주세요"
+                        />
+                        <button
+                            type="button"
+                            onClick={handleAddressPreview}
+                            className="px-4 py-2 bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90 whitespace-nowrap"
+                        >
+                            지도에서 확인
+                        </button>
+                    </div>
+                    {previewAddress && (
+                        <div className="mt-3">
+                            <KakaoMap
+                                height="256px"
+                                address={previewAddress}
+                                name={formData.name}
+                                onGeocode={handleGeocode}
+                            />
+                            {isGeocoded === false && (
+                                <p className="mt-2 text-sm text-red-400">
+                                    주소를 찾을 수 없습니다. 주소를 다시 확인해주세요.
+                                </p>
+                            )}
+                            {isGeocoded === true && previewAddress !== formData.address.trim() && (
+                                <p className="mt-2 text-sm text-yellow-400">
+                                    주소가 변경되었습니다. 지도에서 다시 확인해주세요.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {/* 전화번호 */}
+                <div>
+                    <label htmlFor="phoneNumber" className="block text-sm font-medium text-gray-300 mb-1">
+                        전화번호
+                    </label>
+                    <input
+                        type="tel"
+                        id="phoneNumber"
+                        name="phoneNumber"
+                        value={formData.phoneNumber}
+                        onChange={handleInputChange}
+                        className={inputClassName}
+                        placeholder="02-000-0000"
+                    />
+                    {isEdit && (
+                        <p className="mt-1 text-xs text-gray-400">
+                            현재 전화번호는 불러올 수 없습니다. 전화번호를 변경할 때만 입력해주세요.
+                        </p>
+                    )}
+                </div>
+
+                {/* 상태 */}
+                <div>
+                    <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-1">
+                        상태
+                    </label>
+                    <select
+                        id="status"
+                        name="status"
+                        value={formData.status}
+                        onChange={handleInputChange}
+                        className={inputClassName}
+                    >
+                        {storeStatuses
+                            .filter((status) => status.value !== 'DELETED')
+                            .map((status) => (
+                                <option key={status.value} value={status.value}>
+                                    {status.label}
+                                </option>
+                            ))}
+                    </select>
+                </div>
+
+                {/* 버튼 그룹 */}
+                <div className="flex gap-3 mt-8">
+                    <Link
+                        href="/admin/stores"
+                        className="flex-1 px-6 py-3 border border-gray-600 rounded-lg hover:bg-gray-700 text-center text-gray-300"
+                    >
+                        취소
+                    </Link>
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className={`flex-1 px-6 py-3 bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90 ${
+                            isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+                        }`}
+                    >
+                        {isSubmitting ? '저장 중...' : isEdit ? '수정하기' : '등록하기'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    )
+}
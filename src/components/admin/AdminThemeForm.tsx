@@ -0,0 +1,517 @@
+'use client'
+
+import { StoreSearchModal } from '@/components/admin/StoreSearchModal'
+import { ThemeCard } from '@/components/theme/ThemeCard'
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+
+type ThemeForAdminRequest = components['schemas']['ThemeForAdminRequest']
+type ThemeTagResponse = components['schemas']['ThemeTagResponse']
+type StoreResponse = components['schemas']['StoreResponse']
+
+type ThemeFormData = {
+    name: string
+    storeId: number
+    storeName: string
+    tagIds: number[]
+    description: string
+    officialDifficulty: string
+    runtime: string
+    minParticipants: string
+    maxParticipants: string
+    price: string
+    status: string
+    reservationUrl: string
+    thumbnailUrl: string
+}
+
+// 테마 상태 (백엔드 ThemeStatus 와 동일한 값 사용)
+const themeStatuses = [
+    { value: 'OPENED', label: '운영중' },
+    { value: 'CLOSED', label: '운영 종료' },
+    { value: 'INACTIVE', label: '비활성' },
+]
+
+interface AdminThemeFormProps {
+    themeId?: number // 없으면 신규 등록, 있으면 수정
+}
+
+export function AdminThemeForm({ themeId }: AdminThemeFormProps) {
+    const router = useRouter()
+    const { toast } = useFeedback()
+    const isEdit = themeId !== undefined
+
+    const [formData, setFormData] = useState<ThemeFormData>({
+        name: '',
+        storeId: 0,
+        storeName: '',
+        tagIds: [],
+        description: '',
+        officialDifficulty: '',
+        runtime: '',
+        minParticipants: '',
+        maxParticipants: '',
+        price: '',
+        // 테마 상세 응답에는 상태가 없으므로 수정할 때는 고르지 않으면 보내지 않는다 (기존 상태 유지)
+        status: isEdit ? '' : 'OPENED',
+        reservationUrl: '',
+        thumbnailUrl: '',
+    })
+    const [tags, setTags] = useState<ThemeTagResponse[]>([])
+    const [isStoreSearchModalOpen, setIsStoreSearchModalOpen] = useState(false)
+    const [loading, setLoading] = useState(isEdit)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchTagsAndTheme = async () => {
+            try {
+                const tagResponse = await client.GET('/api/v1/themes/tags')
+                const allTags = (tagResponse.data?.data || []).filter(
+                    (tag): tag is ThemeTagResponse => typeof tag.id === 'number' && typeof tag.name === 'string',
+                )
+                setTags(allTags)
+
+                if (!isEdit) return
+
+                const response = await client.GET('/api/v1/admin/themes/{id}', {
+                    params: {
+                        path: { id: themeId },
+                    },
+                })
+
+                const theme = response.data?.data
+                if (!theme) {
+                    throw new Error('테마 정보를 찾을 수 없습니다.')
+                }
+
+                // 응답에는 storeId가 없으므로 매장명으로 검색해서 찾는다
+                let storeId = 0
+                if (theme.storeInfo?.name) {
+                    const storeResponse = await client.GET('/api/v1/admin/stores', {
+                        params: {
+                            query: { keyword: theme.storeInfo.name },
+                        },
+                    })
+                    const matchedStore = (storeResponse.data?.data || []).find(
+                        (store) =>
+                            store.name === theme.storeInfo?.name &&
+                            (!theme.storeInfo?.address || store.address === theme.storeInfo.address),
+                    )
+                    storeId = matchedStore?.id || 0
+                }
+
+                // 응답의 태그는 이름 목록이므로 ID로 변환
+                const tagIds = (theme.tags || [])
+                    .map((tagName) => allTags.find((tag) => tag.name === tagName)?.id)
+                    .filter((id): id is number => typeof id === 'number')
+
+                // 추천 인원 문자열(예: "2~4인")에서 최소/최대 인원 추출
+                const [minParticipants = '', maxParticipants = ''] = theme.recommendedParticipants?.match(/\d+/g) || []
+
+                setFormData((prev) => ({
+                    ...prev,
+                    name: theme.name || '',
+                    storeId,
+                    storeName: theme.storeInfo?.name || '',
+                    tagIds,
+                    description: theme.description || '',
+                    officialDifficulty: theme.officialDifficulty?.toString() || '',
+                    runtime: theme.runtime?.toString() || '',
+                    minParticipants,
+                    maxParticipants: maxParticipants || minParticipants,
+                    price: theme.price?.toString() || '',
+                    reservationUrl: theme.reservationUrl || '',
+                    thumbnailUrl: theme.thumbnailUrl || '',
+                }))
+            } catch (err) {
+                console.error('테마 정보 로드 중 오류:', err)
+                setError(err instanceof Error ? err.message : '테마 정보를 가져오는 중 오류가 발생했습니다.')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchTagsAndTheme()
+    }, [isEdit, themeId])
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target
+        setFormData((prev) => ({
+            ...prev,
+            [name]: value,
+        }))
+    }
+
+    const handleTagToggle = (tagId: number) => {
+        setFormData((prev) => ({
+            ...prev,
+            tagIds: prev.tagIds.includes(tagId) ? prev.tagIds.filter((id) => id !== tagId) : [...prev.tagIds, tagId],
+        }))
+    }
+
+    const handleStoreSelect = (store: StoreResponse) => {
+        setFormData((prev) => ({
+            ...prev,
+            storeId: store.id || 0,
+            storeName: store.name || '',
+        }))
+    }
+
+    // 빈 문자열은 undefined, 그 외에는 숫자로 변환
+    const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        setIsSubmitting(true)
+        setError(null)
+
+        try {
+            if (!formData.storeId) {
+                throw new Error('매장을 선택해주세요.')
+            }
+
+            const minParticipants = toNumber(formData.minParticipants)
+            const maxParticipants = toNumber(formData.maxParticipants)
+            if (minParticipants !== undefined && maxParticipants !== undefined && minParticipants > maxParticipants) {
+                throw new Error('최소 인원은 최대 인원보다 작거나 같아야 합니다.')
+            }
+
+            const officialDifficulty = toNumber(formData.officialDifficulty)
+            if (officialDifficulty !== undefined && (officialDifficulty < 0 || officialDifficulty > 5)) {
+                throw new Error('난이도는 0~5 사이로 입력해주세요.')
+            }
+
+            const requestData: ThemeForAdminRequest = {
+                storeId: formData.storeId,
+                tagIds: formData.tagIds,
+                name: formData.name,
+                description: formData.description || undefined,
+                officialDifficulty,
+                runtime: toNumber(formData.runtime),
+                minParticipants,
+                maxParticipants,
+                price: toNumber(formData.price),
+                status: formData.status || undefined,
+                reservationUrl: formData.reservationUrl || undefined,
+                thumbnailUrl: formData.thumbnailUrl || undefined,
+            }
+
+            const response = isEdit
+                ? await client.PUT('/api/v1/admin/themes/{id}', {
+                      params: {
+                          path: { id: themeId },
+                      },
+                      body: requestData,
+                  })
+                : await client.POST('/api/v1/admin/themes', {
+                      body: requestData,
+                  })
+
+            if (response.error) {
+                throw new Error(isEdit ? '테마 수정에 실패했습니다.' : '테마 등록에 실패했습니다.')
+            }
+
+            toast.success(isEdit ? '테마가 수정되었습니다.' : '테마가 등록되었습니다.')
+            router.push('/admin/themes')
+        } catch (err) {
+            console.error('테마 저장 중 오류:', err)
+            setError(err instanceof Error ? err.message : '테마 저장에 실패했습니다.')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center py-24">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-200"></div>
+            </div>
+        )
+    }
+
+    const inputClassName =
+        'w-full px-4 py-2 border border-gray-600 rounded-lg focus:outline-none focus:border-[#FFB130] bg-gray-700 text-white'
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-8">
+            <div className="flex-1 bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8">
+                <h1 className="text-2xl font-bold mb-6 text-white">{isEdit ? '테마 수정' : '테마 등록'}</h1>
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-900 text-red-200 rounded-lg border border-red-700">{error}</div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    {/* 테마명 */}
+                    <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">
+                            테마명
+                        </label>
+                        <input
+                            type="text"
+                            id="name"
+                            name="name"
+                            value={formData.name}
+                            onChange={handleInputChange}
+                            className={inputClassName}
+                            placeholder="테마명을 입력해주세요"
+                            required
+                        />
+                    </div>
+
+                    {/* 매장 */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-1">매장</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={formData.storeName}
+                                readOnly
+                                className="flex-1 px-4 py-2 border border-gray-600 rounded-lg bg-gray-700 text-white"
+                                placeholder="매장을 선택해주세요"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => setIsStoreSearchModalOpen(true)}
+                                className="px-4 py-2 bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90"
+                            >
+                                매장 검색
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* 장르 태그 */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-1">장르</label>
+                        <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+                            {tags.map((tag) => (
+                                <button
+                                    key={tag.id}
+                                    type="button"
+                                    onClick={() => tag.id && handleTagToggle(tag.id)}
+                                    className={`text-sm rounded-lg border px-3 py-2 transition-colors ${
+                                        tag.id && formData.tagIds.includes(tag.id)
+                                            ? 'bg-[#FFB230] text-white border-[#FFB230]'
+                                            : 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                                    }`}
+                                >
+                                    {tag.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {/* 가격 */}
+                        <div>
+                            <label htmlFor="price" className="block text-sm font-medium text-gray-300 mb-1">
+                                가격 (1인, 원)
+                            </label>
+                            <input
+                                type="number"
+                                id="price"
+                                name="price"
+                                value={formData.price}
+                                onChange={handleInputChange}
+                                min="0"
+                                step="1000"
+                                className={inputClassName}
+                            />
+                        </div>
+
+                        {/* 플레이 시간 */}
+                        <div>
+                            <label htmlFor="runtime" className="block text-sm font-medium text-gray-300 mb-1">
+                                플레이 시간 (분)
+                            </label>
+                            <input
+                                type="number"
+                                id="runtime"
+                                name="runtime"
+                                value={formData.runtime}
+                                onChange={handleInputChange}
+                                min="1"
+                                className={inputClassName}
+                            />
+                        </div>
+
+                        {/* 최소 인원 */}
+                        <div>
+                            <label htmlFor="minParticipants" className="block text-sm font-medium text-gray-300 mb-1">
+                                최소 인원
+                            </label>
+                            <input
+                                type="number"
+                                id="minParticipants"
+                                name="minParticipants"
+                                value={formData.minParticipants}
+                                onChange={handleInputChange}
+                                min="1"
+                                className={inputClassName}
+                            />
+                        </div>
+
+                        {/* 최대 인원 */}
+                        <div>
+                            <label htmlFor="maxParticipants" className="block text-sm font-medium text-gray-300 mb-1">
+                                최대 인원
+                            </label>
+                            <input
+                                type="number"
+                                id="maxParticipants"
+                                name="maxParticipants"
+                                value={formData.maxParticipants}
+                                onChange={handleInputChange}
+                                min="1"
+                                className={inputClassName}
+                            />
+                        </div>
+
+                        {/* 공식 난이도 */}
+                        <div>
+                            <label
+                                htmlFor="officialDifficulty"
+                                className="block text-sm font-medium text-gray-300 mb-1"
+                            >
+                                공식 난이도 (0~5)
+                            </label>
+                            <input
+                                type="number"
+                                id="officialDifficulty"
+                                name="officialDifficulty"
+                                value={formData.officialDifficulty}
+                                onChange={handleInputChange}
+                                min="0"
+                                max="5"
+                                step="0.5"
+                                className={inputClassName}
+                            />
+                        </div>
+
+                        {/* 상태 */}
+                        <div>
+                            <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-1">
+                                상태
+                            </label>
+                            <select
+                                id="status"
+                                name="status"
+                                value={formData.status}
+                                onChange={handleInputChange}
+                                className={inputClassName}
+                            >
+                                {isEdit && <option value="">현재 상태 유지</option>}
+                                {themeStatuses.map((status) => (
+                                    <option key={status.value} value={status.value}>
+                                        {status.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* 썸네일 URL */}
+                    <div>
+                        <label htmlFor="thumbnailUrl" className="block text-sm font-medium text-gray-300 mb-1">
+                            썸네일 URL
+                        </label>
+                        <input
+                            type="url"
+                            id="thumbnailUrl"
+                            name="thumbnailUrl"
+                            value={formData.thumbnailUrl}
+                            onChange={handleInputChange}
+                            className={inputClassName}
+                            placeholder="https://"
+                        />
+                    </div>
+
+                    {/* 예약 URL */}
+                    <div>
+                        <label htmlFor="reservationUrl" className="block text-sm font-medium text-gray-300 mb-1">
+                            예약 URL
+                        </label>
+                        <input
+                            type="url"
+                            id="reservationUrl"
+                            name="reservationUrl"
+                            value={formData.reservationUrl}
+                            onChange={handleInputChange}
+                            className={inputClassName}
+                            placeholder="https://"
+                        />
+                    </div>
+
+                    {/* 테마 소개 */}
+                    <div>
+                        <label htmlFor="description" className="block text-sm font-medium text-gray-300 mb-1">
+                            테마 소개
+                        </label>
+                        <textarea
+                            id="description"
+                            name="description"
+                            value={formData.description}
+                            onChange={handleInputChange}
+                            rows={5}
+                            className={inputClassName}
+                            placeholder="테마 소개글을 입력해주세요"
+                        />
+                    </div>
+
+                    {/* 버튼 그룹 */}
+                    <div className="flex gap-3 mt-8">
+                        <Link
+                            href="/admin/themes"
+                            className="flex-1 px-6 py-3 border border-gray-600 rounded-lg hover:bg-gray-700 text-center text-gray-300"
+                        >
+                            취소
+                        </Link>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className={`flex-1 px-6 py-3 bg-[#FFB130] text-white rounded-lg hover:bg-[#FFB130]/90 ${
+                                isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+                            }`}
+                        >
+                            {isSubmitting ? '저장 중...' : isEdit ? '수정하기' : '등록하기'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            {/* 미리보기 */}
+            <div className="w-full lg:w-[300px]">
+                <h2 className="text-sm font-medium text-gray-300 mb-3">카드 미리보기</h2>
+                <ThemeCard
+                    href={isEdit ? `/themes/${themeId}` : null}
+                    room={{
+                        id: themeId,
+                        name: formData.name || '테마명',
+                        storeName: formData.storeName || undefined,
+                        runtime: toNumber(formData.runtime),
+                        recommendedParticipants:
+                            formData.minParticipants && formData.maxParticipants
+                                ? `${formData.minParticipants}-${formData.maxParticipants}인`
+                                : undefined,
+                        tags: tags
+                            .filter((tag) => tag.id && formData.tagIds.includes(tag.id))
+                            .map((tag) => tag.name || ''),
+                        thumbnailUrl: formData.thumbnailUrl || undefined,
+                    }}
+                />
+            </div>
+
+            <StoreSearchModal
+                isOpen={isStoreSearchModalOpen}
+                onClose={() => setIsStoreSearchModalOpen(false)}
+                onSelect={handleStoreSelect}
+            />
+        </div>
+    )
+}
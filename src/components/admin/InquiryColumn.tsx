@@ -0,0 +1,186 @@
+'use client'
+
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+type AdminPostSearchCondition = components['schemas']['AdminPostSearchCondition']
+type PostSummaryResponse = components['schemas']['PostSummaryResponse']
+
+export type InquiryType = NonNullable<AdminPostSearchCondition['type']>
+export type AnsweredFilter = 'ALL' | 'UNANSWERED' | 'ANSWERED'
+
+export const inquiryTypeLabels: Record<InquiryType, string> = {
+    QNA: '사이트 이용 문의',
+    REPORT: '신고',
+    THEME: '테마 관련',
+}
+
+const ITEMS_PER_PAGE = 20
+
+interface InquiryColumnProps {
+    type: InquiryType
+    keyword: string
+    answeredFilter: AnsweredFilter
+    includeDeleted: boolean
+}
+
+// 답변 여부별로 한 페이지씩 불러온다
+const fetchInquiryPage = async (condition: AdminPostSearchCondition, page: number) => {
+    const response = await client.POST('/api/v1/admin/boards/search', {
+        params: {
+            query: {
+                page,
+                size: ITEMS_PER_PAGE,
+            },
+        },
+        body: condition,
+    })
+
+    if (response.error) {
+        throw new Error('문의 목록을 불러오는데 실패했습니다.')
+    }
+
+    const items = response.data?.data?.items || []
+    const totalPages = response.data?.data?.totalPages || 0
+    return { items, hasNext: page + 1 < totalPages }
+}
+
+export function InquiryColumn({ type, keyword, answeredFilter, includeDeleted }: InquiryColumnProps) {
+    const [unanswered, setUnanswered] = useState<PostSummaryResponse[]>([])
+    const [answered, setAnswered] = useState<PostSummaryResponse[]>([])
+    const [unansweredPage, setUnansweredPage] = useState(0)
+    const [answeredPage, setAnsweredPage] = useState(0)
+    const [unansweredHasNext, setUnansweredHasNext] = useState(false)
+    const [answeredHasNext, setAnsweredHasNext] = useState(false)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    const baseCondition: AdminPostSearchCondition = {
+        type,
+        keyword: keyword || undefined,
+        deleted: includeDeleted ? undefined : false,
+    }
+
+    // 검색 조건이 바뀌면 첫 페이지부터 다시 조회
+    useEffect(() => {
+        const fetchInquiries = async () => {
+            setLoading(true)
+            setError(null)
+            try {
+                const condition: AdminPostSearchCondition = {
+                    type,
+                    keyword: keyword || undefined,
+                    deleted: includeDeleted ? undefined : false,
+                }
+                const [unansweredResult, answeredResult] = await Promise.all([
+                    answeredFilter !== 'ANSWERED' ? fetchInquiryPage({ ...condition, answered: false }, 0) : null,
+                    answeredFilter !== 'UNANSWERED' ? fetchInquiryPage({ ...condition, answered: true }, 0) : null,
+                ])
+
+                setUnanswered(unansweredResult?.items || [])
+                setUnansweredHasNext(unansweredResult?.hasNext || false)
+                setUnansweredPage(0)
+                setAnswered(answeredResult?.items || [])
+                setAnsweredHasNext(answeredResult?.hasNext || false)
+                setAnsweredPage(0)
+            } catch (err) {
+                console.error('관리자 문의 목록 조회 중 오류:', err)
+                setError('문의 목록을 불러오는데 실패했습니다.')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchInquiries()
+    }, [type, keyword, answeredFilter, includeDeleted])
+
+    // 미답변 문의를 모두 불러온 뒤에 답변 완료 문의를 이어서 불러온다
+    const handleLoadMore = async () => {
+        setLoading(true)
+        try {
+            if (unansweredHasNext) {
+                const result = await fetchInquiryPage({ ...baseCondition, answered: false }, unansweredPage + 1)
+                setUnanswered((prev) => [...prev, ...result.items])
+                setUnansweredHasNext(result.hasNext)
+                setUnansweredPage((prev) => prev + 1)
+            } else if (answeredHasNext) {
+                const result = await fetchInquiryPage({ ...baseCondition, answered: true }, answeredPage + 1)
+                setAnswered((prev) => [...prev, ...result.items])
+                setAnsweredHasNext(result.hasNext)
+                setAnsweredPage((prev) => prev + 1)
+            }
+        } catch (err) {
+            console.error('관리자 문의 목록 추가 조회 중 오류:', err)
+            setError('문의 목록을 불러오는데 실패했습니다.')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    // 답변 완료 목록은 미답변 목록을 끝까지 불러온 경우에만 보여준다
+    const inquiries = unansweredHasNext ? unanswered : [...unanswered, ...answered]
+
+    return (
+        <section className="flex flex-col bg-gray-800 rounded-lg border border-gray-700 min-h-[480px]">
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-700">
+                <h2 className="font-bold text-white">{inquiryTypeLabels[type]}</h2>
+                {answeredFilter !== 'ANSWERED' && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-900 text-yellow-300">
+                        미답변 {unanswered.length}
+                        {unansweredHasNext ? '+' : ''}
+                    </span>
+                )}
+            </div>
+
+            <div className="flex-1 p-3 space-y-2">
+                {error && <div className="p-3 text-sm text-red-400">{error}</div>}
+
+                {inquiries.map((inquiry) => (
+                    <Link
+                        key={inquiry.id}
+                        href={`/admin/inquiries/${inquiry.id}`}
+                        className="block p-3 rounded-lg bg-gray-900 border border-gray-700 hover:border-[#FFB130]"
+                    >
+                        <div className="flex justify-between items-start gap-2 mb-2">
+                            <p className="text-sm text-white line-clamp-2">{inquiry.title}</p>
+                            <span
+                                className={`shrink-0 px-2 py-0.5 text-xs rounded-full ${
+                                    inquiry.answered ? 'bg-green-900 text-green-300' : 'bg-yellow-900 text-yellow-300'
+                                }`}
+                            >
+                                {inquiry.answered ? '답변 완료' : '답변 대기'}
+                            </span>
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-400">
+                            <span>
+                                {inquiry.createdAt ? new Date(inquiry.createdAt).toLocaleDateString('ko-KR') : ''}
+                            </span>
+                            {inquiry.hasAttachments && <span>📎 첨부</span>}
+                        </div>
+                    </Link>
+                ))}
+
+                {loading && (
+                    <div className="flex justify-center py-6">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-gray-200"></div>
+                    </div>
+                )}
+
+                {!loading && !error && inquiries.length === 0 && (
+                    <p className="py-8 text-center text-sm text-gray-400">문의가 없습니다.</p>
+                )}
+            </div>
+
+            {!loading && (unansweredHasNext || answeredHasNext) && (
+                <button
+                    onClick={handleLoadMore}
+                    className="m-3 mt-0 py-2 text-sm text-gray-300 border border-gray-700 rounded-lg hover:bg-gray-700"
+                >
+                    더 보기
+                </button>
+            )}
+        </section>
+    )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { components } from '@/lib/backend/apiV1/schema'
+import client from '@/lib/backend/client'
+import Image from 'next/image'
+import { useEffect, useState } from 'react'
+
+type StoreResponse = components['schemas']['StoreResponse']
+
+type StoreSearchModalProps = {
+    isOpen: boolean
+    onClose: () => void
+    onSelect: (store: StoreResponse) => void
+}
+
+// 관리자 매장 검색 모달
+export function StoreSearchModal({ isOpen, onClose, onSelect }: StoreSearchModalProps) {
+    const [searchTerm, setSearchTerm] = useState('')
+    const [stores, setStores] = useState<StoreResponse[]>([])
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+
+        const fetchStores = async () => {
+            setLoading(true)
+            setError(null)
+
+            try {
+                const response = await client.GET('/api/v1/admin/stores', {
+                    params: {
+                        query: {
+                            keyword: searchTerm || undefined,
+                        },
+                    },
+                })
+
+                if (response.error) {
+                    throw new Error('매장 목록을 불러오는데 실패했습니다.')
+                }
+
+                // 삭제된 매장은 테마에 연결할 수 없으므로 제외
+                setStores((response.data?.data || []).filter((store) => store.status !== 'DELETED'))
+            } catch (err) {
+                console.error('매장 검색 중 오류:', err)
+                setError('매장 목록을 불러오는데 실패했습니다.')
+                setStores([])
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchStores()
+    }, [isOpen, searchTerm])
+
+    const handleStoreSelect = (store: StoreResponse) => {
+        onSelect(store)
+        onClose()
+    }
+
+    if (!isOpen) return null
+
+    return (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50">
+            <div className="bg-gray-800 rounded-xl w-full max-w-md p-6 border border-gray-700">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-white">매장 검색</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-300">
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <path
+                                d="M18 6L6 18M6 6L18 18"
+                                stroke="currentColor"
+                                strokeWidth="2"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                            />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="relative mb-4">
+                    <div className="absolute left-4 top-[14px] pointer-events-none">
+                        <Image src="/placeholder_search.svg" alt="검색" width={16} height={16} />
+                    </div>
+                    <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder="매장명으로 검색"
+                        className="w-full pl-9 pr-4 py-2.5 border border-gray-600 rounded-lg focus:outline-none focus:border-[#FFB130] bg-gray-700 text-white placeholder:text-gray-400"
+                    />
+                </div>
+
+                {loading && (
+                    <div className="flex justify-center my-4">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-gray-300"></div>
+                    </div>
+                )}
+
+                {error && <div className="text-red-400 text-center my-4">{error}</div>}
+
+                {!loading && !error && stores.length === 0 && (
+                    <div className="text-gray-400 text-center my-4">검색 결과가 없습니다</div>
+                )}
+
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {stores.map((store) => (
+                        <button
+                            key={`store-${store.id}`}
+                            onClick={() => handleStoreSelect(store)}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-700 rounded-lg"
+                        >
+                            <div className="font-medium text-white">{store.name}</div>
+                            {store.address && <div className="text-sm text-gray-400">{store.address}</div>}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,25 @@
+import { components } from '@/lib/backend/apiV1/schema'
+
+type StoreStatus = NonNullable<components['schemas']['StoreResponse']['status']>
+
+// 매장 상태 목록 (표시 순서)
+export const storeStatuses: { value: StoreStatus; label: string; className: string }[] = [
+    { value: 'OPENED', label: '운영중', className: 'bg-green-900 text-green-300' },
+    { value: 'CLOSED', label: '운영 종료', className: 'bg-gray-700 text-gray-300' },
+    { value: 'INACTIVE', label: '비활성', className: 'bg-yellow-900 text-yellow-300' },
+    { value: 'DELETED', label: '삭제됨', className: 'bg-red-900 text-red-300' },
+]
+
+export function StoreStatusBadge({ status }: { status?: StoreStatus }) {
+    const storeStatus = storeStatuses.find((s) => s.value === status)
+
+    return (
+        <span
+            className={`inline-block px-2 py-1 rounded-full text-xs ${
+                storeStatus?.className || 'bg-gray-700 text-gray-300'
+            }`}
+        >
+            {storeStatus?.label || '알 수 없음'}
+        </span>
+    )
+}
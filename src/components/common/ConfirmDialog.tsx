@@ -0,0 +1,55 @@
+'use client'
+
+import { ConfirmRequest } from '@/stores/feedback/feedback'
+import { useEffect } from 'react'
+
+interface ConfirmDialogProps {
+    request: ConfirmRequest | null
+    onResolve: (confirmed: boolean) => void
+}
+
+export function ConfirmDialog({ request, onResolve }: ConfirmDialogProps) {
+    // ESC로 취소
+    useEffect(() => {
+        if (!request) return
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onResolve(false)
+        }
+
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [request, onResolve])
+
+    if (!request) return null
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 px-4">
+            <div
+                role="dialog"
+                aria-modal="true"
+                className="w-full max-w-sm bg-gray-800 rounded-xl border border-gray-700 p-6"
+            >
+                {request.title && <h2 className="text-lg font-bold text-white mb-2">{request.title}</h2>}
+                <p className="text-gray-300 whitespace-pre-wrap">{request.message}</p>
+                <div className="flex gap-3 mt-6">
+                    <button
+                        onClick={() => onResolve(false)}
+                        className="flex-1 px-4 py-2 border border-gray-600 rounded-lg hover:bg-gray-700 text-gray-300"
+                    >
+                        {request.cancelText || '취소'}
+                    </button>
+                    <button
+                        onClick={() => onResolve(true)}
+                        autoFocus
+                        className={`flex-1 px-4 py-2 rounded-lg text-white ${
+                            request.danger ? 'bg-red-600 hover:bg-red-700' : 'bg-[#FFB130] hover:bg-[#FFB130]/90'
+                        }`}
+                    >
+                        {request.confirmText || '확인'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,6 @@
+// 폼 임시 저장 시각 표시
+export function DraftStatus({ savedAt }: { savedAt: string | null }) {
+    if (!savedAt) return null
+
+    return <p className="text-xs text-gray-500 text-right">{savedAt} 임시 저장됨</p>
+}
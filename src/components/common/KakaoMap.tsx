@@ -14,12 +14,16 @@ interface KakaoMapProps {
     address: string
     storeName?: string
     name?: string
+    onGeocode?: (found: boolean) => void // 주소 → 좌표 변환 결과 콜백
 }
 
-export function KakaoMap({ width = '100%', height = '256px', address, storeName, name }: KakaoMapProps) {
+export function KakaoMap({ width = '100%', height = '256px', address, storeName, name, onGeocode }: KakaoMapProps) {
     const mapRef = useRef<HTMLDivElement>(null)
     const [error, setError] = useState<string | null>(null)
     const [isLoaded, setIsLoaded] = useState(false)
+    // 인라인 콜백을 넘겨도 지도를 다시 만들지 않도록 최신 콜백은 ref로 참조한다
+    const onGeocodeRef = useRef(onGeocode)
+    onGeocodeRef.current = onGeocode
 
     useEffect(() => {
         if (typeof window === 'undefined') return
@@ -68,6 +72,7 @@ export function KakaoMap({ width = '100%', height = '256px', address, storeName,
                 const geocoder = new window.kakao.maps.services.Geocoder()
 
                 geocoder.addressSearch(address, function (result: any, status: any) {
+                    onGeocodeRef.current?.(status === window.kakao.maps.services.Status.OK)
                     if (status === window.kakao.maps.services.Status.OK) {
                         try {
                             const coords = new window.kakao.maps.LatLng(result[0].y, result[0].x)
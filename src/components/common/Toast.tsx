@@ -0,0 +1,51 @@
+'use client'
+
+import { ToastItem } from '@/stores/feedback/feedback'
+
+interface ToastListProps {
+    toasts: ToastItem[]
+    onDismiss: (id: number) => void
+    onUndo: (id: number) => void
+}
+
+const toastStyles: Record<ToastItem['type'], string> = {
+    success: 'border-green-700 text-green-300',
+    error: 'border-red-700 text-red-300',
+    info: 'border-gray-600 text-gray-200',
+    undo: 'border-[#FFB130] text-gray-200',
+}
+
+export function ToastList({ toasts, onDismiss, onUndo }: ToastListProps) {
+    if (toasts.length === 0) return null
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-2 w-[calc(100%-2rem)] max-w-sm">
+            {toasts.map((toast) => (
+                <div
+                    key={toast.id}
+                    role={toast.type === 'error' ? 'alert' : 'status'}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg border bg-gray-800 shadow-lg text-sm ${
+                        toastStyles[toast.type]
+                    }`}
+                >
+                    <span className="flex-1 whitespace-pre-wrap">{toast.message}</span>
+                    {toast.type === 'undo' && (
+                        <button
+                            onClick={() => onUndo(toast.id)}
+                            className="shrink-0 font-bold text-[#FFB130] hover:text-[#FFD896]"
+                        >
+                            실행 취소
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onDismiss(toast.id)}
+                        className="shrink-0 text-gray-500 hover:text-gray-300"
+                        aria-label="닫기"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,143 @@
+import { RadarChart } from '@/components/stat/RadarChart'
+import type { components } from '@/lib/backend/apiV1/schema'
+import { createDiaryCard, downloadDiaryCard, getDiaryRadarData, shareDiaryCard } from '@/lib/diaryCard'
+import { useFeedback } from '@/stores/feedback/feedback'
+import type { Chart } from 'chart.js'
+import Link from 'next/link'
+import { useEffect, useRef, useState } from 'react'
+
+type DiaryDto = components['schemas']['DiaryDto']
+
+interface DiaryExportModalProps {
+    diary: DiaryDto
+    onClose: () => void
+}
+
+// 탈출일지 내보내기 (공유용 카드 이미지 / 인쇄용 PDF)
+export function DiaryExportModal({ diary, onClose }: DiaryExportModalProps) {
+    const chartRef = useRef<Chart<'radar'>>(null)
+    const [card, setCard] = useState<HTMLCanvasElement | null>(null)
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+    const [failed, setFailed] = useState(false)
+    const { toast } = useFeedback()
+
+    const fileName = `ddobang-diary-${diary.id}.png`
+
+    // 화면 밖에 그린 레이더 차트를 카드에 옮겨 그린다
+    useEffect(() => {
+        let cancelled = false
+
+        const frame = requestAnimationFrame(async () => {
+            try {
+                const canvas = await createDiaryCard(diary, chartRef.current?.canvas ?? null)
+                if (cancelled) return
+                setCard(canvas)
+                setPreviewUrl(canvas.toDataURL('image/png'))
+            } catch (error) {
+                console.error('카드 이미지 생성 실패:', error)
+                if (!cancelled) setFailed(true)
+            }
+        })
+
+        return () => {
+            cancelled = true
+            cancelAnimationFrame(frame)
+        }
+    }, [diary])
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [onClose])
+
+    const handleDownload = async () => {
+        if (!card) return
+
+        try {
+            await downloadDiaryCard(card, fileName)
+        } catch (error) {
+            console.error('카드 이미지 저장 실패:', error)
+            toast.error('이미지를 저장하지 못했습니다.')
+        }
+    }
+
+    const handleShare = async () => {
+        if (!card) return
+
+        try {
+            const shared = await shareDiaryCard(card, fileName, `${diary.themeName} 탈출일지`)
+            if (!shared) {
+                toast.info('이 브라우저에서는 이미지 공유를 지원하지 않습니다. 이미지를 저장한 뒤 공유해주세요.')
+            }
+        } catch (error) {
+            // 공유 창을 닫은 경우는 무시
+            if (error instanceof DOMException && error.name === 'AbortError') return
+            console.error('카드 이미지 공유 실패:', error)
+            toast.error('이미지를 공유하지 못했습니다.')
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-gray-800 rounded-xl max-w-md w-full mx-4 p-6 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-white">탈출일지 내보내기</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="닫기">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M6 18L18 6M6 6l12 12"
+                            />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="aspect-[4/5] rounded-lg overflow-hidden bg-gray-700 flex items-center justify-center mb-4">
+                    {previewUrl ? (
+                        <img src={previewUrl} alt="탈출 카드 미리보기" className="w-full h-full object-contain" />
+                    ) : failed ? (
+                        <p className="text-sm text-red-400">카드 이미지를 만들지 못했습니다.</p>
+                    ) : (
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                    <button
+                        onClick={handleDownload}
+                        disabled={!card}
+                        className="px-4 py-2 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] transition-colors disabled:opacity-50"
+                    >
+                        이미지 저장
+                    </button>
+                    <button
+                        onClick={handleShare}
+                        disabled={!card}
+                        className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    >
+                        공유하기
+                    </button>
+                </div>
+                <Link
+                    href={`/my/diary/${diary.id}/print`}
+                    className="block w-full px-4 py-2 text-center border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+                >
+                    PDF로 인쇄
+                </Link>
+            </div>
+
+            {/* 카드에 넣을 레이더 차트 (화면 밖에 그린다) */}
+            <div className="fixed -left-[9999px] top-0 w-[600px] h-[600px]" aria-hidden>
+                <RadarChart data={getDiaryRadarData(diary)} chartRef={chartRef} animated={false} />
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,832 @@
+'use client'
+
+import { DraftStatus } from '@/components/common/DraftStatus'
+import { DiaryPhoto, DiaryPhotoPicker } from '@/components/diary/DiaryPhotoPicker'
+import { NewThemesModal } from '@/components/theme/NewThemesModal'
+import { ThemeSearchModal } from '@/components/theme/ThemeSearchModalForDiary'
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { uploadDiaryImage } from '@/lib/backend/diaryImages'
+import {
+    convertDiaryTime,
+    DiaryFormErrors,
+    DiaryFormValues,
+    DiaryTimeType,
+    EMPTY_DIARY_FORM,
+    formatDiaryTime,
+    fromDiaryDto,
+    getElapsedSeconds,
+    MAX_RATING,
+    parseDiaryTime,
+    RATING_FIELDS,
+    RatingField,
+    TIME_TYPE_LABELS,
+    toDiaryRequest,
+    validateDiaryForm,
+} from '@/lib/diaryForm'
+import { compressImage } from '@/lib/imageCompression'
+import { findNewAchievements, rememberThemeRuntime } from '@/stores/achievement/achievements'
+import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { forgetDiaryAnalytics } from '@/stores/diary/diaryAnalytics'
+import { getDiaryImages, saveDiaryGallery } from '@/stores/diary/diaryGalleries'
+import { savePartyDiary } from '@/stores/diary/partyDiaries'
+import { useFormDraft } from '@/stores/draft/formDraft'
+import { useFeedback } from '@/stores/feedback/feedback'
+import { format } from 'date-fns'
+import { useRouter } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+
+interface DiaryFormProps {
+    diaryId?: number // 없으면 신규 작성, 있으면 수정
+    partyId?: number // 모임 히스토리에서 "일지 쓰기"로 들어온 경우 (신규 작성만)
+    escapeDate?: string // 미리 채울 진행 날짜 (yyyy-MM-dd, 신규 작성만)
+}
+
+// 사진은 압축한 뒤 올리므로 원본은 크더라도 받는다
+const MAX_DIARY_PHOTOS = 10
+const MAX_SOURCE_SIZE = 30 * 1024 * 1024
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-700 text-white'
+
+const timeInputClassName =
+    'w-14 px-2 py-2 text-center border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-700 text-white'
+
+function FieldError({ message }: { message?: string }) {
+    if (!message) return null
+
+    return <p className="text-xs text-red-400 mt-2">{message}</p>
+}
+
+export function DiaryForm({ diaryId, partyId, escapeDate }: DiaryFormProps) {
+    const router = useRouter()
+    const { toast } = useFeedback()
+    const { loginMember } = useGlobalLoginMember()
+    const isEdit = diaryId !== undefined
+
+    const [values, setValues] = useState<DiaryFormValues>(() =>
+        escapeDate && !isEdit ? { ...EMPTY_DIARY_FORM, escapeDate } : EMPTY_DIARY_FORM,
+    )
+    const [loading, setLoading] = useState(isEdit)
+    const [loadError, setLoadError] = useState<string | null>(null)
+    const [isLoaded, setIsLoaded] = useState(!isEdit && !partyId)
+    const [partyTitle, setPartyTitle] = useState<string | null>(null)
+    // 수정 전 일지 (저장 후 새로 달성한 업적을 찾을 때 비교한다)
+    const originalDiary = useRef<components['schemas']['DiaryDto'] | undefined>(undefined)
+
+    // 테마 시간 (분, 모르면 진행/잔여 시간 변환과 시간 범위 검사를 하지 않는다)
+    const [runtime, setRuntime] = useState<number | null>(null)
+
+    // 테마 모달 관련 상태
+    const [isThemeModalOpen, setIsThemeModalOpen] = useState(false)
+    const [isNewThemeModalOpen, setIsNewThemeModalOpen] = useState(false)
+    const [searchKeyword, setSearchKeyword] = useState('')
+    const [isLoadingThemes, setIsLoadingThemes] = useState(false)
+
+    // 이미지 관련 상태
+    const [existingImages, setExistingImages] = useState<string[]>([])
+    // 서버에 저장된 대표 사진 (업로드할 때마다 마지막으로 올린 사진으로 바뀐다)
+    const [savedCoverUrl, setSavedCoverUrl] = useState<string>()
+    const coverUrl = useRef<string | undefined>(undefined)
+    const [photos, setPhotos] = useState<DiaryPhoto[]>([])
+    // 일지는 저장했지만 사진 업로드에 실패한 경우의 일지 ID
+    const [savedDiaryId, setSavedDiaryId] = useState<number | null>(null)
+
+    // 제출을 한 번 시도한 뒤부터 항목별 오류를 표시
+    const [showErrors, setShowErrors] = useState(false)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const errors: DiaryFormErrors = showErrors ? validateDiaryForm(values, runtime) : {}
+
+    // 불러오거나 미리 채운 뒤부터 작성 중인 내용을 임시 저장
+    const { savedAt, clearDraft } = useFormDraft({
+        formKey: isEdit ? `diary-edit-${diaryId}` : partyId ? `diary-new-party-${partyId}` : 'diary-new',
+        values,
+        onRestore: (draft) =>
+            setValues({ ...EMPTY_DIARY_FORM, ...draft, ratings: { ...EMPTY_DIARY_FORM.ratings, ...draft.ratings } }),
+        enabled: isLoaded,
+    })
+
+    const updateValues = (patch: Partial<DiaryFormValues>) => {
+        setValues((prev) => ({ ...prev, ...patch }))
+    }
+
+    // ==================== API 호출 함수 ====================
+
+    // 수정: 기존 일지 불러오기
+    useEffect(() => {
+        if (diaryId === undefined) return
+
+        unwrap(
+            client.GET('/api/v1/diaries/{id}', {
+                params: {
+                    path: { id: diaryId },
+                },
+            }),
+        ).then(({ data, error }) => {
+            setLoading(false)
+            if (error || !data) {
+                console.error('일지 조회 실패:', error)
+                setLoadError('일지 데이터를 불러오는데 실패했습니다.')
+                return
+            }
+
+            originalDiary.current = data
+            setValues(fromDiaryDto(data))
+            setExistingImages(getDiaryImages(diaryId, data.imageUrl))
+            setSavedCoverUrl(data.imageUrl)
+            coverUrl.current = data.imageUrl
+            setIsLoaded(true)
+        })
+    }, [diaryId])
+
+    // 모임에서 작성하는 경우 테마, 날짜, 함께한 멤버를 미리 채운다
+    // 모임마다 한 번만 채운다 (내 닉네임이 늦게 와도 다시 조회해 고친 내용이나 불러온 임시 저장을 덮어쓰지 않도록 ref로 읽는다)
+    const myNickname = useRef(loginMember?.nickname)
+    myNickname.current = loginMember?.nickname
+    useEffect(() => {
+        if (!partyId || isEdit) return
+
+        unwrap(
+            client.GET('/api/v1/parties/{id}', {
+                params: {
+                    path: { id: partyId },
+                },
+            }),
+        ).then(({ data, error }) => {
+            setIsLoaded(true)
+            if (error || !data) {
+                console.error('모임 정보 조회 실패:', error)
+                toast.error('모임 정보를 불러오지 못했습니다.')
+                return
+            }
+
+            // 모임장과 참가 확정 멤버 중 나를 뺀 닉네임
+            const nicknames = [data.hostNickname, ...(data.acceptedPartyMembers ?? []).map((member) => member.nickname)]
+
+            setPartyTitle(data.title || '')
+            setValues((prev) => ({
+                ...prev,
+                theme: data.themeId
+                    ? { id: data.themeId, name: data.themeName || '', storeName: data.storeName || '' }
+                    : prev.theme,
+                escapeDate: data.scheduledAt ? format(new Date(data.scheduledAt), 'yyyy-MM-dd') : prev.escapeDate,
+                participants: [...new Set(nicknames)]
+                    .filter((nickname): nickname is string => !!nickname && nickname !== myNickname.current)
+                    .join(', '),
+            }))
+        })
+    }, [partyId, isEdit, toast])
+
+    // 미리 채운 뒤에 내 닉네임을 알게 되면 함께한 멤버에서 나만 뺀다
+    useEffect(() => {
+        const nickname = loginMember?.nickname
+        if (!partyId || isEdit || !nickname) return
+
+        setValues((prev) => {
+            const names = prev.participants.split(',').map((name) => name.trim())
+            if (!names.includes(nickname)) return prev
+            return { ...prev, participants: names.filter((name) => name && name !== nickname).join(', ') }
+        })
+    }, [partyId, isEdit, loginMember?.nickname])
+
+    // 선택한 테마의 플레이 시간 (직접 등록한 테마는 상세 정보가 없을 수 있다)
+    const themeId = values.theme?.id
+    useEffect(() => {
+        setRuntime(null)
+        if (!themeId) return
+
+        let cancelled = false
+        unwrap(
+            client.GET('/api/v1/themes/{id}', {
+                params: {
+                    path: { id: themeId },
+                },
+            }),
+        ).then(({ data }) => {
+            if (!cancelled) setRuntime(data?.runtime || null)
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [themeId])
+
+    // 화면을 떠나면 사진 미리보기 주소를 해제
+    const photosRef = useRef(photos)
+    photosRef.current = photos
+    useEffect(() => {
+        return () => photosRef.current.forEach((photo) => URL.revokeObjectURL(photo.previewUrl))
+    }, [])
+
+    const updatePhoto = (key: string, patch: Partial<DiaryPhoto>) => {
+        setPhotos((prev) => prev.map((photo) => (photo.key === key ? { ...photo, ...patch } : photo)))
+    }
+
+    // 사진 압축 (원본 미리보기를 압축한 사진으로 바꾼다)
+    const preparePhoto = async (photo: DiaryPhoto) => {
+        updatePhoto(photo.key, { status: 'compressing', error: undefined })
+        try {
+            const file = await compressImage(photo.source)
+            if (file.size > MAX_UPLOAD_SIZE) {
+                throw new Error('압축한 뒤에도 10MB를 넘는 사진입니다.')
+            }
+
+            const previewUrl = URL.createObjectURL(file)
+            setPhotos((prev) => {
+                if (!prev.some((item) => item.key === photo.key)) {
+                    URL.revokeObjectURL(previewUrl)
+                    return prev
+                }
+                return prev.map((item) => {
+                    if (item.key !== photo.key) return item
+                    URL.revokeObjectURL(item.previewUrl)
+                    return { ...item, file, previewUrl, status: 'ready' }
+                })
+            })
+        } catch (error) {
+            console.error('사진 압축 실패:', error)
+            updatePhoto(photo.key, {
+                status: 'error',
+                error: error instanceof Error ? error.message : '사진을 처리하지 못했습니다.',
+            })
+        }
+    }
+
+    // 사진 한 장 업로드 (성공하면 주소를 돌려준다)
+    const uploadPhoto = async (targetDiaryId: number, photo: DiaryPhoto) => {
+        if (!photo.file) return null
+
+        updatePhoto(photo.key, { status: 'uploading', progress: 0, error: undefined })
+        const { data: url, error } = await uploadDiaryImage(targetDiaryId, photo.file, (progress) =>
+            updatePhoto(photo.key, { progress }),
+        )
+
+        if (error) {
+            console.error('사진 업로드 실패:', error)
+            updatePhoto(photo.key, { status: 'error', error: error.message })
+            return null
+        }
+
+        updatePhoto(photo.key, { status: 'done', progress: 100, url })
+        coverUrl.current = url
+        return url
+    }
+
+    // 아직 올리지 않은 사진을 한 장씩 업로드 (모두 성공하면 화면 순서대로 주소 목록을 돌려준다)
+    // 대표 사진(imageUrl)은 마지막으로 올린 사진이 되므로 첫 번째 사진이 대표가 되도록 뒤에서부터 올린다
+    const uploadPhotos = async (targetDiaryId: number) => {
+        const urls = new Map(photos.map((photo) => [photo.key, photo.url]))
+
+        for (const photo of [...photos].reverse()) {
+            if (photo.url) continue
+            urls.set(photo.key, (await uploadPhoto(targetDiaryId, photo)) ?? undefined)
+        }
+
+        const orderedUrls = photos.map((photo) => urls.get(photo.key))
+        return orderedUrls.every((url): url is string => !!url) ? orderedUrls : null
+    }
+
+    // 일지와 사진 저장을 마치고 목록으로 이동
+    const finish = (targetDiaryId: number, uploadedUrls: string[]) => {
+        forgetDiaryAnalytics(targetDiaryId)
+
+        const images = [...existingImages, ...uploadedUrls]
+        if (isEdit || images.length > 0) {
+            saveDiaryGallery(targetDiaryId, images, coverUrl.current)
+        }
+
+        // 모임에서 작성한 일지는 모임 히스토리에서 작성 여부를 표시하고 히스토리로 돌아간다
+        if (partyId && !isEdit) {
+            savePartyDiary(partyId, targetDiaryId)
+        }
+
+        clearDraft()
+        toast.success(`탈출일지가 성공적으로 ${isEdit ? '수정' : '등록'}되었습니다.`)
+
+        // 이번 저장으로 새로 달성한 업적 알림 (페이지를 옮겨도 알림은 유지된다)
+        if (themeId && runtime) rememberThemeRuntime(themeId, runtime)
+        findNewAchievements(targetDiaryId, originalDiary.current).then((achievements) =>
+            achievements.forEach(({ icon, title }) => toast.success(`${icon} 업적 달성: ${title}`)),
+        )
+        router.push(partyId && !isEdit ? '/my/history' : '/my/diary')
+    }
+
+    // 탈출일지 등록/수정 API 호출
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (isSubmitting) return
+
+        setShowErrors(true)
+        const validationErrors = Object.values(validateDiaryForm(values, runtime))
+        if (validationErrors.length > 0) {
+            toast.error(validationErrors[0])
+            return
+        }
+
+        if (photos.some((photo) => photo.status === 'compressing')) {
+            toast.info('사진을 압축하는 중입니다. 잠시 후 다시 시도해주세요.')
+            return
+        }
+        if (photos.some((photo) => !photo.file)) {
+            toast.error('처리하지 못한 사진이 있습니다. 다시 시도하거나 지워주세요.')
+            return
+        }
+
+        setIsSubmitting(true)
+
+        // 사진 업로드에 실패해 다시 저장하는 경우에는 이미 만든 일지를 수정한다
+        const targetDiaryId = savedDiaryId ?? diaryId
+        const body = toDiaryRequest(values)
+        const { data, error } =
+            targetDiaryId !== undefined
+                ? await unwrap(
+                      client.PUT('/api/v1/diaries/{id}', {
+                          params: {
+                              path: { id: targetDiaryId },
+                          },
+                          body,
+                      }),
+                  )
+                : await unwrap(client.POST('/api/v1/diaries', { body }))
+
+        if (error || !data?.id) {
+            console.error('일지 저장 실패:', error)
+            toast.error(error?.message || `탈출일지 ${isEdit ? '수정' : '등록'}에 실패했습니다. 다시 시도해주세요.`)
+            setIsSubmitting(false)
+            return
+        }
+
+        setSavedDiaryId(data.id)
+
+        // 사진은 일지를 저장한 뒤 업로드 (실패한 사진은 다시 시도할 수 있다)
+        const uploadedUrls = await uploadPhotos(data.id)
+        setIsSubmitting(false)
+
+        if (!uploadedUrls) {
+            toast.error('일지는 저장했지만 올리지 못한 사진이 있습니다. 다시 시도하거나 사진 없이 완료해주세요.')
+            return
+        }
+
+        finish(data.id, uploadedUrls)
+    }
+
+    // ==================== 이벤트 핸들러 ====================
+
+    const openNewThemeModal = () => {
+        setIsNewThemeModalOpen(true)
+        setIsThemeModalOpen(false)
+    }
+
+    const handleThemeSelect = (themeName: string, selectedThemeId: number) => {
+        updateValues({
+            theme: {
+                id: selectedThemeId,
+                name: themeName,
+                storeName: '', // ThemeSearchModal에서 storeName을 가져오지 않으므로 빈 문자열로 설정
+            },
+        })
+        setIsThemeModalOpen(false)
+    }
+
+    const handleThemeCreated = (theme: { id: string; name: string; storeName: string }) => {
+        updateValues({ theme: { id: Number(theme.id), name: theme.name, storeName: theme.storeName } })
+        setIsNewThemeModalOpen(false)
+    }
+
+    const handleAddPhotos = (files: File[]) => {
+        const validFiles = files.filter((file) => {
+            const fileExtension = file.name.split('.').pop()?.toLowerCase()
+            return !!fileExtension && ['jpg', 'jpeg', 'png'].includes(fileExtension) && file.size <= MAX_SOURCE_SIZE
+        })
+        if (validFiles.length !== files.length) {
+            toast.error('30MB 이하의 JPG, PNG 사진만 올릴 수 있습니다.')
+        }
+
+        const room = MAX_DIARY_PHOTOS - existingImages.length - photos.length
+        if (validFiles.length > room) {
+            toast.info(`사진은 최대 ${MAX_DIARY_PHOTOS}장까지 올릴 수 있습니다.`)
+        }
+
+        const added: DiaryPhoto[] = validFiles.slice(0, Math.max(room, 0)).map((file) => ({
+            key: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+            source: file,
+            file: null,
+            previewUrl: URL.createObjectURL(file),
+            status: 'compressing',
+            progress: 0,
+        }))
+        if (added.length === 0) return
+
+        setPhotos((prev) => [...prev, ...added])
+
+        // 메모리를 아끼기 위해 한 장씩 압축
+        added.reduce((previous, photo) => previous.then(() => preparePhoto(photo)), Promise.resolve())
+    }
+
+    const handleRemovePhoto = (key: string) => {
+        setPhotos((prev) => {
+            prev.filter((photo) => photo.key === key).forEach((photo) => URL.revokeObjectURL(photo.previewUrl))
+            return prev.filter((photo) => photo.key !== key)
+        })
+    }
+
+    // 압축에 실패한 사진은 다시 압축, 업로드에 실패한 사진은 다시 올린다
+    const handleRetryPhoto = async (key: string) => {
+        const photo = photos.find((item) => item.key === key)
+        if (!photo) return
+
+        if (!photo.file) {
+            preparePhoto(photo)
+            return
+        }
+        if (savedDiaryId === null) return
+
+        setIsSubmitting(true)
+        const url = await uploadPhoto(savedDiaryId, photo)
+        setIsSubmitting(false)
+
+        const urls = photos.map((item) => (item.key === key ? url : item.url))
+        if (urls.every((item): item is string => !!item)) {
+            finish(savedDiaryId, urls)
+        }
+    }
+
+    const handleRatingChange = (field: RatingField, rating: number) => {
+        setValues((prev) => ({ ...prev, ratings: { ...prev.ratings, [field]: rating } }))
+    }
+
+    // 진행/잔여 시간을 바꾸면 입력한 시간도 테마 시간 기준으로 바꿔 준다
+    const handleTimeTypeChange = (timeType: DiaryTimeType) => {
+        if (timeType === values.timeType) return
+
+        const seconds = parseDiaryTime(values.time)
+        updateValues({
+            timeType,
+            time: seconds ? convertDiaryTime(values.time, runtime) : values.time,
+        })
+    }
+
+    const handleTimePartChange = (part: 'minutes' | 'seconds', input: string) => {
+        if (!/^\d{0,3}$/.test(input) || (part === 'seconds' && input.length > 2)) return
+
+        const [minutes = '00', seconds = '00'] = values.time.split(':')
+        updateValues({ time: part === 'minutes' ? `${input}:${seconds}` : `${minutes}:${input}` })
+    }
+
+    // ==================== 렌더링 ====================
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center py-24">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-200"></div>
+            </div>
+        )
+    }
+
+    if (loadError) {
+        return <div className="py-24 text-center text-red-400">{loadError}</div>
+    }
+
+    const elapsedSeconds = getElapsedSeconds(values, runtime)
+
+    return (
+        <>
+            <h1 className="text-2xl font-bold mb-8 text-center text-white">
+                {isEdit ? '탈출일지 수정' : '탈출일지 작성'}
+            </h1>
+            <DraftStatus savedAt={savedAt} />
+
+            {partyId && !isEdit && partyTitle !== null && (
+                <div className="mb-6 px-4 py-3 rounded-lg border border-[#FFB130] bg-[#FFB130]/10 text-sm text-[#FFB130]">
+                    {partyTitle ? `'${partyTitle}' 모임` : '모임'}의 테마, 날짜, 함께한 멤버를 미리 채웠습니다.
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} noValidate className="space-y-8">
+                {/* 섹션 1: 테마 선택 */}
+                <section className="bg-gray-800 rounded-lg shadow-sm p-6">
+                    <h2 className="text-lg font-semibold mb-4 text-white">테마 선택</h2>
+
+                    {values.theme ? (
+                        <div className="flex justify-between items-center p-4 border border-gray-700 rounded-lg bg-gray-700">
+                            <div>
+                                <p className="font-medium text-white">{values.theme.name}</p>
+                                <p className="text-gray-300 text-sm">
+                                    {values.theme.storeName}
+                                    {runtime && ` · 테마 시간 ${runtime}분`}
+                                </p>
+                            </div>
+                            <button
+                                type="button"
+                                className="text-sm text-blue-400"
+                                onClick={() => updateValues({ theme: null })}
+                            >
+                                변경
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                placeholder="테마 또는 매장명으로 검색"
+                                className={`flex-1 ${inputClassName}`}
+                                readOnly
+                                onClick={() => setIsThemeModalOpen(true)}
+                            />
+                            <button
+                                type="button"
+                                className="px-4 py-2 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] transition-colors"
+                                onClick={() => setIsThemeModalOpen(true)}
+                            >
+                                테마 검색
+                            </button>
+                            <button
+                                type="button"
+                                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                                onClick={openNewThemeModal}
+                            >
+                                새 테마 등록
+                            </button>
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-400 mt-2">* 테마 선택은 필수입니다.</p>
+                    <FieldError message={errors.theme} />
+                </section>
+
+                {/* 섹션 2: 탈출 사진 및 기본 정보 */}
+                <section className="bg-gray-800 rounded-lg shadow-sm p-6">
+                    <h2 className="text-lg font-semibold mb-4 text-white">기본 정보</h2>
+
+                    <div className="space-y-4">
+                        {/* 탈출 사진 */}
+                        <div>
+                            <h3 className="text-md font-medium mb-2 text-white">탈출 사진</h3>
+                            <DiaryPhotoPicker
+                                existingImages={existingImages}
+                                coverUrl={savedCoverUrl}
+                                photos={photos}
+                                maxPhotos={MAX_DIARY_PHOTOS}
+                                disabled={isSubmitting}
+                                onAdd={handleAddPhotos}
+                                onRemoveExisting={(url) =>
+                                    setExistingImages((prev) => prev.filter((imageUrl) => imageUrl !== url))
+                                }
+                                onRemove={handleRemovePhoto}
+                                onRetry={handleRetryPhoto}
+                            />
+                        </div>
+
+                        {/* 진행 날짜 */}
+                        <div>
+                            <h3 className="text-md font-medium mb-2 text-white">진행 날짜</h3>
+                            <input
+                                type="date"
+                                value={values.escapeDate}
+                                max={format(new Date(), 'yyyy-MM-dd')}
+                                onChange={(e) => updateValues({ escapeDate: e.target.value })}
+                                className={inputClassName}
+                            />
+                            <FieldError message={errors.escapeDate} />
+                        </div>
+
+                        {/* 함께한 사람 */}
+                        <div>
+                            <h3 className="text-md font-medium mb-2 text-white">함께한 사람</h3>
+                            <input
+                                type="text"
+                                value={values.participants}
+                                onChange={(e) => updateValues({ participants: e.target.value })}
+                                placeholder="예) 홍길동, 김철수, 이영희"
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                </section>
+
+                {/* 섹션 3: 테마 평가 */}
+                <section className="bg-gray-800 rounded-lg shadow-sm p-6">
+                    <h2 className="text-lg font-semibold mb-4 text-white">테마 평가</h2>
+
+                    <div className="grid grid-cols-2 gap-6">
+                        {/* 평가 항목들 */}
+                        {RATING_FIELDS.map((item) => (
+                            <div key={item.field}>
+                                <h3 className="text-md font-medium mb-2 text-white">{item.label}</h3>
+                                <div className="flex items-center">
+                                    {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map((star) => (
+                                        <button
+                                            key={star}
+                                            type="button"
+                                            onClick={() => handleRatingChange(item.field, star)}
+                                            style={{
+                                                width: '1.5rem',
+                                                height: '1.5rem',
+                                                color: star <= values.ratings[item.field] ? item.color : '#6B7280',
+                                            }}
+                                        >
+                                            <svg fill="currentColor" viewBox="0 0 20 20">
+                                                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118l-2.8-2.034c-.783-.57-.38-1.81.588-1.81h3.462a1 1 0 00.95-.69l1.07-3.292z" />
+                                            </svg>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+
+                        {/* 장치 비중 */}
+                        <div className="col-span-2">
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="text-md font-medium text-white">장치 비중</h3>
+                                <label className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={values.noDevice}
+                                        onChange={(e) => updateValues({ noDevice: e.target.checked })}
+                                        className="mr-2"
+                                    />
+                                    <span className="text-sm text-white">장치X</span>
+                                </label>
+                            </div>
+                            <div className="mb-2">
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    value={values.deviceRatio}
+                                    onChange={(e) => updateValues({ deviceRatio: parseInt(e.target.value) })}
+                                    disabled={values.noDevice}
+                                    className="w-full"
+                                />
+                            </div>
+                            <div className="flex justify-between text-xs text-white">
+                                <span>자물쇠</span>
+                                <span>{values.deviceRatio}%</span>
+                                <span>전자장치</span>
+                            </div>
+                        </div>
+                    </div>
+                    <FieldError message={errors.ratings || errors.deviceRatio} />
+                </section>
+
+                {/* 섹션 4: 탈출 정보 */}
+                <section className="bg-gray-800 rounded-lg shadow-sm p-6">
+                    <h2 className="text-lg font-semibold mb-4 text-white">탈출 정보</h2>
+
+                    <div className="flex items-start gap-4">
+                        {/* 탈출 여부 */}
+                        <div className="w-1/3">
+                            <h3 className="text-md font-medium mb-2 text-white">탈출 여부</h3>
+                            <div className="flex flex-col gap-2">
+                                <label className="flex items-center">
+                                    <input
+                                        type="radio"
+                                        name="escapeResult"
+                                        checked={values.escapeResult === true}
+                                        onChange={() => updateValues({ escapeResult: true })}
+                                        className="mr-2"
+                                    />
+                                    <span className="text-white">탈출 성공</span>
+                                </label>
+                                <label className="flex items-center">
+                                    <input
+                                        type="radio"
+                                        name="escapeResult"
+                                        checked={values.escapeResult === false}
+                                        onChange={() => updateValues({ escapeResult: false })}
+                                        className="mr-2"
+                                    />
+                                    <span className="text-white">탈출 실패</span>
+                                </label>
+                            </div>
+                        </div>
+
+                        {/* 시간 */}
+                        <div className="w-3/5">
+                            <h3 className="text-md font-medium mb-2 text-white">시간</h3>
+                            <div className="flex gap-4">
+                                <div className="flex flex-col gap-2">
+                                    {(Object.keys(TIME_TYPE_LABELS) as DiaryTimeType[]).map((timeType) => (
+                                        <label key={timeType} className="flex items-center">
+                                            <input
+                                                type="radio"
+                                                name="timeType"
+                                                checked={values.timeType === timeType}
+                                                onChange={() => handleTimeTypeChange(timeType)}
+                                                className="mr-2"
+                                            />
+                                            <span className="text-white">{TIME_TYPE_LABELS[timeType]}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="flex-1 flex items-center gap-1">
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        value={values.time.split(':')[0] ?? ''}
+                                        onChange={(e) => handleTimePartChange('minutes', e.target.value)}
+                                        placeholder="00"
+                                        className={timeInputClassName}
+                                        maxLength={3}
+                                    />
+                                    <span className="text-white">분</span>
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        value={values.time.split(':')[1] ?? ''}
+                                        onChange={(e) => handleTimePartChange('seconds', e.target.value)}
+                                        placeholder="00"
+                                        className={timeInputClassName}
+                                        maxLength={2}
+                                    />
+                                    <span className="text-white">초</span>
+                                </div>
+                            </div>
+                            {runtime && values.timeType === 'REMAINING' && elapsedSeconds !== null && (
+                                <p className="text-xs text-gray-400 mt-2">
+                                    테마 시간 {runtime}분 기준 진행 시간 {formatDiaryTime(Math.max(elapsedSeconds, 0))}
+                                </p>
+                            )}
+                            <FieldError message={errors.time} />
+                        </div>
+
+                        {/* 힌트 사용 횟수 */}
+                        <div className="w-1/3">
+                            <h3 className="text-md font-medium mb-2 text-white">힌트 사용 횟수</h3>
+                            <input
+                                type="number"
+                                min="0"
+                                value={values.hintCount === null ? '' : values.hintCount}
+                                onChange={(e) =>
+                                    updateValues({ hintCount: e.target.value ? Number(e.target.value) : null })
+                                }
+                                placeholder="횟수 입력"
+                                className={inputClassName}
+                            />
+                            <FieldError message={errors.hintCount} />
+                        </div>
+                    </div>
+                </section>
+
+                {/* 섹션 5: 소감 */}
+                <section className="bg-gray-800 rounded-lg shadow-sm p-6">
+                    <h2 className="text-lg font-semibold mb-4 text-white">소감</h2>
+                    <textarea
+                        value={values.review}
+                        onChange={(e) => updateValues({ review: e.target.value })}
+                        placeholder="테마에 대한 소감을 자유롭게 작성해주세요."
+                        className={`h-40 ${inputClassName}`}
+                    ></textarea>
+                </section>
+
+                {/* 등록 버튼 */}
+                <div className="flex justify-center gap-2">
+                    {savedDiaryId !== null && !isSubmitting && (
+                        <button
+                            type="button"
+                            onClick={() =>
+                                finish(
+                                    savedDiaryId,
+                                    photos.flatMap((photo) => photo.url ?? []),
+                                )
+                            }
+                            className="px-8 py-3 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-colors"
+                        >
+                            사진 없이 완료
+                        </button>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="px-8 py-3 bg-[#FFB130] text-black font-medium rounded-lg hover:bg-[#F0A120] transition-colors disabled:opacity-50"
+                    >
+                        {isSubmitting
+                            ? '저장 중...'
+                            : savedDiaryId !== null
+                              ? '다시 저장'
+                              : isEdit
+                                ? '일지 수정'
+                                : '일지 등록'}
+                    </button>
+                </div>
+            </form>
+
+            <ThemeSearchModal
+                isOpen={isThemeModalOpen}
+                onClose={() => setIsThemeModalOpen(false)}
+                onSelect={handleThemeSelect}
+                searchTerm={searchKeyword}
+                onSearchTermChange={setSearchKeyword}
+                loading={isLoadingThemes}
+                onLoadingChange={setIsLoadingThemes}
+            />
+
+            <NewThemesModal
+                isOpen={isNewThemeModalOpen}
+                onClose={() => setIsNewThemeModalOpen(false)}
+                onThemeCreated={handleThemeCreated}
+            />
+        </>
+    )
+}
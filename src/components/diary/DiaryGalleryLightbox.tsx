@@ -0,0 +1,62 @@
+import { useEffect } from 'react'
+import { Keyboard, Navigation, Pagination, Zoom } from 'swiper/modules'
+import { Swiper, SwiperSlide } from 'swiper/react'
+
+import 'swiper/css'
+import 'swiper/css/navigation'
+import 'swiper/css/pagination'
+import 'swiper/css/zoom'
+
+interface DiaryGalleryLightboxProps {
+    images: string[]
+    initialIndex: number
+    onClose: () => void
+}
+
+// 탈출 사진 크게 보기 (좌우로 넘기기, 두 번 눌러 확대, ESC로 닫기)
+export function DiaryGalleryLightbox({ images, initialIndex, onClose }: DiaryGalleryLightboxProps) {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [onClose])
+
+    return (
+        <div className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center" onClick={onClose}>
+            <div className="relative w-full h-full max-w-5xl max-h-[85vh] px-4" onClick={(e) => e.stopPropagation()}>
+                <Swiper
+                    modules={[Keyboard, Navigation, Pagination, Zoom]}
+                    initialSlide={initialIndex}
+                    keyboard={{ enabled: true }}
+                    navigation
+                    pagination={{ type: 'fraction' }}
+                    zoom
+                    className="w-full h-full [--swiper-navigation-color:#FFB130] [--swiper-pagination-color:#FFFFFF]"
+                >
+                    {images.map((url, index) => (
+                        <SwiperSlide key={url}>
+                            <div className="swiper-zoom-container">
+                                <img
+                                    src={url}
+                                    alt={`탈출 사진 ${index + 1}`}
+                                    className="max-w-full max-h-full object-contain"
+                                />
+                            </div>
+                        </SwiperSlide>
+                    ))}
+                </Swiper>
+            </div>
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-white hover:text-gray-300 z-10"
+                aria-label="닫기"
+            >
+                <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+        </div>
+    )
+}
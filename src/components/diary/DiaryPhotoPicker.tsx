@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react'
+
+// 새로 추가한 사진 (압축 → 업로드 순서로 상태가 바뀐다)
+export type DiaryPhoto = {
+    key: string
+    source: File // 선택한 원본
+    file: File | null // 압축한 파일 (압축 전이나 실패하면 null)
+    previewUrl: string
+    status: 'compressing' | 'ready' | 'uploading' | 'done' | 'error'
+    progress: number
+    url?: string // 업로드한 주소
+    error?: string
+}
+
+interface DiaryPhotoPickerProps {
+    existingImages: string[] // 이미 올린 사진 주소 (수정)
+    coverUrl?: string // 서버에 저장된 대표 사진 (서버에서 지울 수 없으므로 목록에서도 빼지 않는다)
+    photos: DiaryPhoto[]
+    maxPhotos: number
+    disabled?: boolean
+    onAdd: (files: File[]) => void
+    onRemoveExisting: (url: string) => void
+    onRemove: (key: string) => void
+    onRetry: (key: string) => void
+}
+
+const removeButtonClassName =
+    'absolute top-1 right-1 w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center text-xs'
+
+export function DiaryPhotoPicker({
+    existingImages,
+    coverUrl,
+    photos,
+    maxPhotos,
+    disabled = false,
+    onAdd,
+    onRemoveExisting,
+    onRemove,
+    onRetry,
+}: DiaryPhotoPickerProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [isDragging, setIsDragging] = useState(false)
+
+    const photoCount = existingImages.length + photos.length
+    const isFull = photoCount >= maxPhotos
+
+    const handleFiles = (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0 || disabled) return
+        onAdd(Array.from(fileList))
+    }
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault()
+        setIsDragging(false)
+        handleFiles(e.dataTransfer.files)
+    }
+
+    return (
+        <div>
+            <div
+                className={`border-dashed border-2 p-6 rounded-lg text-center mb-4 bg-gray-700 transition-colors ${
+                    isDragging ? 'border-[#FFB130]' : 'border-gray-600'
+                } ${isFull || disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                onClick={() => !isFull && !disabled && fileInputRef.current?.click()}
+                onDragOver={(e) => {
+                    e.preventDefault()
+                    setIsDragging(!isFull && !disabled)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+            >
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    accept="image/jpeg,image/png"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFiles(e.target.files)
+                        e.target.value = ''
+                    }}
+                />
+                <div className="flex items-center justify-center mb-4">
+                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth="1.5"
+                            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                        />
+                    </svg>
+                </div>
+                <p className="text-sm text-gray-400 mb-1">탈출 사진을 드래그하거나 클릭하여 업로드하세요</p>
+                <p className="text-xs text-gray-500">
+                    JPG, PNG · 최대 {maxPhotos}장 ({photoCount}/{maxPhotos}) · 올리기 전에 크기를 줄이고 위치 정보를
+                    지웁니다
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                    새로 올린 사진 중 첫 번째 사진이 대표 사진으로 일지에 저장되고, 나머지 사진은 이 브라우저에만
+                    보관됩니다
+                </p>
+            </div>
+
+            {photoCount > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {existingImages.map((url) => (
+                        <div key={url} className="relative">
+                            <div className="bg-gray-700 h-24 rounded-lg overflow-hidden">
+                                <img src={url} alt="탈출 사진" className="w-full h-full object-cover" />
+                            </div>
+                            {url === coverUrl && (
+                                <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-[#FFB130] text-[10px] text-black">
+                                    대표
+                                </span>
+                            )}
+                            {url !== coverUrl && !disabled && (
+                                <button
+                                    type="button"
+                                    onClick={() => onRemoveExisting(url)}
+                                    className={removeButtonClassName}
+                                >
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    ))}
+
+                    {photos.map((photo) => (
+                        <div key={photo.key} className="relative">
+                            <div className="bg-gray-700 h-24 rounded-lg overflow-hidden relative">
+                                <img
+                                    src={photo.previewUrl}
+                                    alt={photo.source.name}
+                                    className="w-full h-full object-cover"
+                                />
+
+                                {photo.status === 'compressing' && (
+                                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-xs text-white">
+                                        압축 중...
+                                    </div>
+                                )}
+
+                                {photo.status === 'uploading' && (
+                                    <div className="absolute inset-x-0 bottom-0 bg-black/60 px-2 py-1">
+                                        <div className="h-1.5 bg-gray-600 rounded-full overflow-hidden">
+                                            <div
+                                                className="h-full bg-[#FFB130] transition-all"
+                                                style={{ width: `${photo.progress}%` }}
+                                            />
+                                        </div>
+                                        <p className="text-[10px] text-white text-right mt-0.5">{photo.progress}%</p>
+                                    </div>
+                                )}
+
+                                {photo.status === 'done' && (
+                                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-emerald-600 text-[10px] text-white">
+                                        업로드 완료
+                                    </span>
+                                )}
+
+                                {photo.status === 'error' && (
+                                    <div className="absolute inset-0 bg-red-900/80 flex flex-col items-center justify-center gap-1 px-2 text-center">
+                                        <p className="text-[10px] text-red-100 line-clamp-2">{photo.error}</p>
+                                        <button
+                                            type="button"
+                                            onClick={() => onRetry(photo.key)}
+                                            className="px-2 py-0.5 rounded bg-white text-xs text-red-700 hover:bg-gray-100"
+                                        >
+                                            다시 시도
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            {photo.status !== 'uploading' && photo.status !== 'done' && !disabled && (
+                                <button
+                                    type="button"
+                                    onClick={() => onRemove(photo.key)}
+                                    className={removeButtonClassName}
+                                >
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,94 @@
+import { RadarChart } from '@/components/stat/RadarChart'
+import type { components } from '@/lib/backend/apiV1/schema'
+import { formatElapsedTime, getDiaryRadarData } from '@/lib/diaryCard'
+import { RATING_FIELDS } from '@/lib/diaryForm'
+
+type DiaryDto = components['schemas']['DiaryDto']
+
+interface DiaryPrintSheetProps {
+    diary: DiaryDto
+    images?: string[]
+}
+
+// 인쇄용 탈출일지 한 장 (A4 한 페이지, 여러 장을 이어 붙이면 페이지마다 나뉜다)
+export function DiaryPrintSheet({ diary, images = [] }: DiaryPrintSheetProps) {
+    const summary = [
+        {
+            label: '탈출 결과',
+            value: diary.escapeResult === undefined ? '-' : diary.escapeResult ? '탈출 성공' : '탈출 실패',
+            className: diary.escapeResult === false ? 'text-red-600' : 'text-emerald-600',
+        },
+        { label: '진행 시간', value: formatElapsedTime(diary.elapsedTime), className: '' },
+        { label: '힌트', value: `${diary.hintCount ?? 0}회`, className: '' },
+        {
+            label: '장치 비율',
+            value: diary.deviceRatio !== undefined ? `${diary.deviceRatio}%` : '-',
+            className: '',
+        },
+    ]
+
+    return (
+        <article className="bg-white text-gray-900 max-w-3xl mx-auto p-8 mb-8 rounded-lg shadow print:shadow-none print:rounded-none print:m-0 print:p-0 break-after-page break-inside-avoid">
+            <header className="flex gap-6 mb-6">
+                <div className="w-40 h-40 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                    {diary.thumbnailUrl && (
+                        <img src={diary.thumbnailUrl} alt={diary.themeName} className="w-full h-full object-cover" />
+                    )}
+                </div>
+                <div className="flex flex-col justify-end">
+                    <p className="text-sm font-semibold text-[#F0A120] mb-1">ESCAPE DIARY</p>
+                    <h2 className="text-3xl font-bold mb-2">{diary.themeName}</h2>
+                    <p className="text-gray-600">
+                        {[diary.storeName, diary.escapeDate?.replace(/-/g, '.')].filter(Boolean).join(' · ')}
+                    </p>
+                    {diary.participants && (
+                        <p className="text-sm text-gray-500 mt-1">함께한 사람: {diary.participants}</p>
+                    )}
+                </div>
+            </header>
+
+            <section className="grid grid-cols-4 gap-3 mb-6">
+                {summary.map((item) => (
+                    <div key={item.label} className="border border-gray-200 rounded-lg p-3">
+                        <p className="text-xs text-gray-500 mb-1">{item.label}</p>
+                        <p className={`font-bold ${item.className}`}>{item.value}</p>
+                    </div>
+                ))}
+            </section>
+
+            <section className="grid grid-cols-2 gap-6 mb-6 items-center">
+                <div className="w-64 h-64 mx-auto">
+                    <RadarChart data={getDiaryRadarData(diary)} animated={false} />
+                </div>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    {RATING_FIELDS.map(({ field, label }) => (
+                        <div key={field} className="flex justify-between border-b border-gray-100 py-1">
+                            <dt className="text-gray-500">{label}</dt>
+                            <dd className="font-semibold">{diary[field] ?? 0} / 5</dd>
+                        </div>
+                    ))}
+                </dl>
+            </section>
+
+            {diary.review && (
+                <section className="mb-6">
+                    <h3 className="font-semibold mb-2">후기</h3>
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap text-gray-700">{diary.review}</p>
+                </section>
+            )}
+
+            {images.length > 0 && (
+                <section className="grid grid-cols-3 gap-2">
+                    {images.slice(0, 6).map((url, index) => (
+                        <img
+                            key={url}
+                            src={url}
+                            alt={`탈출 사진 ${index + 1}`}
+                            className="w-full h-32 object-cover rounded"
+                        />
+                    ))}
+                </section>
+            )}
+        </article>
+    )
+}
@@ -8,7 +8,7 @@ import Link from 'next/link'
 import { useContext, useEffect, useRef, useState } from 'react'
 
 export function Navigation({ activePage }: { activePage?: string }) {
-    const { isLogin, loginMember, logoutAndHome } = useGlobalLoginMember()
+    const { isLogin, isAdmin, loginMember, logoutAndHome } = useGlobalLoginMember()
     const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false)
     const [isNotificationOpen, setIsNotificationOpen] = useState(false)
     const { unreadCount } = useContext(NotificationContext)
@@ -65,7 +65,7 @@ export function Navigation({ activePage }: { activePage?: string }) {
     }
 
     return (
-        <nav className="bg-black z-50">
+        <nav className="bg-black z-50 print:hidden">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
                 <div className="flex justify-between h-12">
                     <div className="flex items-center space-x-6">
@@ -134,6 +134,13 @@ export function Navigation({ activePage }: { activePage?: string }) {
                                                 <div className="flex items-center space-x-2">
                                                     <span className="text-[#FFB230] text-xl font-bold">알림</span>
                                                 </div>
+                                                <Link
+                                                    href="/my/notifications"
+                                                    onClick={() => setIsNotificationOpen(false)}
+                                                    className="ml-auto text-sm text-gray-600 hover:text-gray-900"
+                                                >
+                                                    전체 보기
+                                                </Link>
                                             </div>
                                             <Notification />
                                         </div>
@@ -184,6 +191,12 @@ export function Navigation({ activePage }: { activePage?: string }) {
                                             >
                                                 쪽지함
                                             </Link>
+                                            <Link
+                                                href="/my/notifications"
+                                                className="block px-4 py-3 text-base font-medium text-gray-500 hover:bg-[#FFFCF7]"
+                                            >
+                                                알림
+                                            </Link>
                                             <Link
                                                 href="/my/stat"
                                                 className="block px-4 py-3 text-base font-medium text-gray-500 hover:bg-[#FFFCF7]"
@@ -196,6 +209,29 @@ export function Navigation({ activePage }: { activePage?: string }) {
                                             >
                                                 1:1 문의
                                             </Link>
+                                            {/* 운영자 전용 메뉴 */}
+                                            {isAdmin && (
+                                                <div className="border-t border-gray-100">
+                                                    <Link
+                                                        href="/admin/themes"
+                                                        className="block px-4 py-3 text-base font-medium text-gray-500 hover:bg-[#FFFCF7]"
+                                                    >
+                                                        테마 관리
+                                                    </Link>
+                                                    <Link
+                                                        href="/admin/stores"
+                                                        className="block px-4 py-3 text-base font-medium text-gray-500 hover:bg-[#FFFCF7]"
+                                                    >
+                                                        매장 관리
+                                                    </Link>
+                                                    <Link
+                                                        href="/admin/inquiries"
+                                                        className="block px-4 py-3 text-base font-medium text-gray-500 hover:bg-[#FFFCF7]"
+                                                    >
+                                                        문의 관리
+                                                    </Link>
+                                                </div>
+                                            )}
                                             <div className="border-t border-gray-100">
                                                 <button
                                                     onClick={logoutAndHome}
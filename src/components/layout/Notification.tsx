@@ -2,8 +2,10 @@
 
 import { NotificationContext } from '@/app/ClientLayout'
 import { components } from '@/lib/backend/apiV1/schema'
+import { resolveAlarmPath } from '@/lib/backend/alarmLink'
 import client from '@/lib/backend/client'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { filterMutedAlarms } from '@/stores/message/mutedMembers'
 import { useRouter } from 'next/navigation'
 import { useContext, useEffect, useState } from 'react'
 
@@ -114,7 +116,7 @@ export function Notification({ onNewNotification }: NotificationProps) {
 
             if (response.data?.data) {
                 const pageData = response.data.data as PageDto<AlarmResponse>
-                setAlarms(pageData.items ?? [])
+                setAlarms(await filterMutedAlarms(pageData.items ?? []))
                 setTotalPages(pageData.totalPages ?? 0)
             }
         } catch (error) {
@@ -146,19 +148,10 @@ export function Notification({ onNewNotification }: NotificationProps) {
             setAlarms((prev) => prev.map((a) => (a.id === alarm.id ? { ...a, readStatus: true } : a)))
             setUnreadCount((prev: number) => Math.max(0, prev - 1))
 
-            const response = await client.GET('/alarms/{id}/redirect', {
-                params: {
-                    path: {
-                        id: alarm.id,
-                    },
-                },
-            })
-
-            if (response.data?.data) {
-                const redirectUrl = response.data.data as string
-                if (redirectUrl) {
-                    router.push(redirectUrl)
-                }
+            // 서버 이동 경로를 프론트 화면(모임, 쪽지, 문의)으로 변환해서 이동
+            const path = await resolveAlarmPath(alarm)
+            if (path) {
+                router.push(path)
             }
         } catch (error) {
             console.error('알림 처리 실패:', error)
@@ -0,0 +1,52 @@
+'use client'
+
+import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { consumeLoginRedirectPath, getRouteAccess } from '@/stores/auth/routeAccess'
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { useEffect } from 'react'
+
+export function RouteGuard({ children }: { children: React.ReactNode }) {
+    const router = useRouter()
+    const pathname = usePathname()
+    const { isLogin, isAdmin } = useGlobalLoginMember()
+    const access = getRouteAccess(pathname)
+
+    useEffect(() => {
+        // 카카오 로그인 후 돌아왔다면 로그인 전에 보던 페이지로 이동
+        if (isLogin) {
+            const redirectPath = consumeLoginRedirectPath()
+            if (redirectPath && redirectPath !== pathname + window.location.search) {
+                router.replace(redirectPath)
+            }
+            return
+        }
+
+        if (access !== 'public') {
+            const currentPath = pathname + window.location.search
+            router.replace(`/login?redirect=${encodeURIComponent(currentPath)}`)
+        }
+    }, [access, isLogin, pathname, router])
+
+    // 로그인 페이지로 이동하는 동안 보호된 화면을 그리지 않음
+    if (access !== 'public' && !isLogin) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-900">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-200"></div>
+            </div>
+        )
+    }
+
+    if (access === 'admin' && !isAdmin) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gray-900">
+                <p className="text-red-400">접근 권한이 없습니다.</p>
+                <Link href="/" className="text-sm text-gray-400 hover:text-gray-200">
+                    메인 페이지로 돌아가기
+                </Link>
+            </div>
+        )
+    }
+
+    return <>{children}</>
+}
@@ -0,0 +1,64 @@
+import { Achievement, AchievementResult } from '@/lib/achievements'
+
+// 업적 배지 목록 (달성하지 못한 업적은 흐리게 진행도와 함께 보여준다)
+export function AchievementBadges({ results }: { results: AchievementResult[] }) {
+    const unlockedCount = results.filter((result) => result.unlocked).length
+
+    return (
+        <div>
+            <p className="text-sm text-gray-400 mb-4">
+                {results.length}개 중 <span className="text-[#FFB130] font-semibold">{unlockedCount}개</span> 달성
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                {results.map(({ achievement, unlocked, current, target }) => (
+                    <div
+                        key={achievement.id}
+                        title={achievement.description}
+                        className={`rounded-2xl p-4 border text-center ${
+                            unlocked ? 'bg-gray-800 border-[#FFB130]/60' : 'bg-gray-800/50 border-gray-700'
+                        }`}
+                    >
+                        <div className={`text-4xl mb-2 ${unlocked ? '' : 'grayscale opacity-40'}`}>
+                            {achievement.icon}
+                        </div>
+                        <div className={`font-semibold text-sm ${unlocked ? 'text-white' : 'text-gray-500'}`}>
+                            {achievement.title}
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1 line-clamp-2">{achievement.description}</p>
+                        {!unlocked && (
+                            <div className="mt-3">
+                                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-[#FFB130]/70"
+                                        style={{ width: `${(current / target) * 100}%` }}
+                                    />
+                                </div>
+                                <div className="text-xs text-gray-500 mt-1">
+                                    {current} / {target}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+// 달성한 업적만 작게 (다른 사용자 프로필)
+export function AchievementChips({ achievements }: { achievements: Achievement[] }) {
+    return (
+        <div className="flex flex-wrap gap-2">
+            {achievements.map((achievement) => (
+                <span
+                    key={achievement.id}
+                    title={achievement.description}
+                    className="inline-flex items-center gap-1 px-3 py-1 bg-gray-700 text-gray-200 rounded-full text-sm"
+                >
+                    <span>{achievement.icon}</span>
+                    {achievement.title}
+                </span>
+            ))}
+        </div>
+    )
+}
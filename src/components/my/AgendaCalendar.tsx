@@ -0,0 +1,331 @@
+'use client'
+
+import { components } from '@/lib/backend/apiV1/schema'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import {
+    addMonths,
+    addWeeks,
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameDay,
+    isSameMonth,
+    isToday,
+    parseISO,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns'
+import { ko } from 'date-fns/locale'
+import Link from 'next/link'
+import { useEffect, useMemo, useState } from 'react'
+
+type PartyHistory = components['schemas']['MyJoinedPartySummaryResponse']
+type CalendarDiary = components['schemas']['DiaryListDto']
+type PartyStatus = NonNullable<PartyHistory['status']>
+
+export type AgendaView = 'month' | 'week' | 'list'
+
+interface AgendaCalendarProps {
+    parties: PartyHistory[]
+    diaries: CalendarDiary[]
+    onRangeChange?: (start: Date, end: Date) => void // 화면에 보이는 기간이 바뀌면 해당 기간의 일지를 불러온다
+    onReview?: (partyId: number) => void
+}
+
+type AgendaEvent =
+    | { kind: 'party'; key: string; date: Date; party: PartyHistory }
+    | { kind: 'diary'; key: string; date: Date; diary: CalendarDiary }
+
+const views: { value: AgendaView; label: string }[] = [
+    { value: 'month', label: '월' },
+    { value: 'week', label: '주' },
+    { value: 'list', label: '목록' },
+]
+
+const weekDays = ['일', '월', '화', '수', '목', '금', '토']
+
+// 모임 상태별 색상 (일지는 초록색)
+const partyStatusStyles: Record<PartyStatus, { label: string; className: string }> = {
+    RECRUITING: { label: '모집중', className: 'bg-blue-900 text-blue-200' },
+    FULL: { label: '모집완료', className: 'bg-purple-900 text-purple-200' },
+    PENDING: { label: '진행대기', className: 'bg-amber-900 text-amber-200' },
+    COMPLETED: { label: '완료', className: 'bg-gray-600 text-gray-200' },
+    CANCELLED: { label: '취소', className: 'bg-red-900 text-red-300 line-through' },
+}
+const DIARY_CLASS_NAME = 'bg-emerald-900 text-emerald-200'
+
+const getEventClassName = (event: AgendaEvent) => {
+    if (event.kind === 'diary') return DIARY_CLASS_NAME
+
+    const className = partyStatusStyles[event.party.status ?? 'RECRUITING'].className
+    // 내가 모임장인 모임은 테두리로 구분
+    return event.party.role === 'HOST' ? `${className} ring-1 ring-[#FFB130]` : className
+}
+
+const getEventTitle = (event: AgendaEvent) =>
+    event.kind === 'party' ? event.party.title || event.party.themeName || '모임' : event.diary.themeName || '탈출일지'
+
+// 지난 모임 중 아직 후기를 쓰지 않은 모임
+const canReview = (party: PartyHistory) =>
+    !!party.scheduledAt && new Date(party.scheduledAt) < new Date() && party.status !== 'CANCELLED' && !party.reviewed
+
+const getVisibleRange = (view: AgendaView, cursor: Date) => {
+    if (view === 'week') return { start: startOfWeek(cursor), end: endOfWeek(cursor) }
+    if (view === 'list') return { start: startOfMonth(cursor), end: endOfMonth(cursor) }
+    return { start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) }
+}
+
+const getTitle = (view: AgendaView, start: Date, end: Date, cursor: Date) => {
+    if (view !== 'week') return format(cursor, 'yyyy년 MM월', { locale: ko })
+    return `${format(start, 'yyyy년 M월 d일', { locale: ko })} - ${format(end, 'M월 d일', { locale: ko })}`
+}
+
+export function AgendaCalendar({ parties, diaries, onRangeChange, onReview }: AgendaCalendarProps) {
+    const [view, setView] = useState<AgendaView>('month')
+    const [cursor, setCursor] = useState(new Date())
+    const [openDay, setOpenDay] = useState<Date | null>(null)
+
+    const { start, end } = getVisibleRange(view, cursor)
+    const startTime = start.getTime()
+    const endTime = end.getTime()
+
+    useEffect(() => {
+        onRangeChange?.(new Date(startTime), new Date(endTime))
+    }, [startTime, endTime, onRangeChange])
+
+    const events = useMemo(() => {
+        const partyEvents: AgendaEvent[] = parties.flatMap((party) =>
+            party.scheduledAt
+                ? [{ kind: 'party' as const, key: `party-${party.partyId}`, date: new Date(party.scheduledAt), party }]
+                : [],
+        )
+        const diaryEvents: AgendaEvent[] = diaries.flatMap((diary) =>
+            diary.escapeDate
+                ? [{ kind: 'diary' as const, key: `diary-${diary.id}`, date: parseISO(diary.escapeDate), diary }]
+                : [],
+        )
+        return [...partyEvents, ...diaryEvents].sort((a, b) => a.date.getTime() - b.date.getTime())
+    }, [parties, diaries])
+
+    const getDayEvents = (day: Date) => events.filter((event) => isSameDay(event.date, day))
+    const days = eachDayOfInterval({ start, end })
+
+    const move = (amount: number) => {
+        setOpenDay(null)
+        setCursor((prev) => (view === 'week' ? addWeeks(prev, amount) : addMonths(prev, amount)))
+    }
+
+    const changeView = (next: AgendaView) => {
+        setOpenDay(null)
+        setView(next)
+    }
+
+    // 일정별 바로가기 (모임 정보, 후기 작성, 일지 작성/보기)
+    const renderEventLinks = (event: AgendaEvent) => {
+        if (event.kind === 'diary') {
+            return (
+                <Link href={`/my/diary/${event.diary.id}`} className="text-[#FFB130] hover:underline">
+                    일지 보기
+                </Link>
+            )
+        }
+
+        const { party } = event
+        return (
+            <>
+                <Link href={`/parties/${party.partyId}`} className="text-[#FFB130] hover:underline">
+                    모임 정보
+                </Link>
+                {party.status === 'COMPLETED' && (
+                    <Link href={`/my/diary/new?partyId=${party.partyId}`} className="text-[#FFB130] hover:underline">
+                        일지 쓰기
+                    </Link>
+                )}
+                {onReview && party.partyId !== undefined && canReview(party) && (
+                    <button
+                        onClick={() => onReview(party.partyId as number)}
+                        className="text-[#FFB130] hover:underline"
+                    >
+                        후기 작성
+                    </button>
+                )}
+            </>
+        )
+    }
+
+    const renderEventDetail = (event: AgendaEvent) => (
+        <div key={event.key} className="py-2">
+            <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${getEventClassName(event)}`}>
+                    {event.kind === 'diary' ? '일지' : partyStatusStyles[event.party.status ?? 'RECRUITING'].label}
+                </span>
+                {event.kind === 'party' && event.party.role === 'HOST' && (
+                    <span className="text-xs text-[#FFB130]">모임장</span>
+                )}
+                <span className="ml-auto text-xs text-gray-400">
+                    {event.kind === 'party' ? format(event.date, 'HH:mm') : ''}
+                </span>
+            </div>
+            <p className="mt-1 text-sm text-white truncate">{getEventTitle(event)}</p>
+            <p className="text-xs text-gray-400 truncate">
+                {event.kind === 'party' ? event.party.storeName : event.diary.storeName}
+            </p>
+            <div className="flex gap-3 mt-1 text-xs">{renderEventLinks(event)}</div>
+        </div>
+    )
+
+    // 날짜를 누르면 해당 날짜의 일정과 바로가기를 보여준다
+    const renderPopover = (day: Date, column: number) => {
+        const dayEvents = getDayEvents(day)
+
+        return (
+            <div
+                className={`absolute z-20 top-full mt-1 w-64 p-3 bg-gray-800 border border-gray-600 rounded-lg shadow-lg text-left ${
+                    column >= 4 ? 'right-0' : 'left-0'
+                }`}
+            >
+                <p className="text-sm font-medium text-white">{format(day, 'M월 d일 (EEE)', { locale: ko })}</p>
+                {dayEvents.length === 0 ? (
+                    <p className="py-2 text-sm text-gray-400">일정이 없습니다.</p>
+                ) : (
+                    <div className="divide-y divide-gray-700">{dayEvents.map(renderEventDetail)}</div>
+                )}
+                <Link
+                    href={`/my/diary/new?escapeDate=${format(day, 'yyyy-MM-dd')}`}
+                    className="block mt-2 text-xs text-gray-300 hover:text-white"
+                >
+                    + 이 날의 탈출일지 쓰기
+                </Link>
+            </div>
+        )
+    }
+
+    const renderChip = (event: AgendaEvent) => (
+        <div key={event.key} className={`px-1.5 py-0.5 text-xs rounded truncate ${getEventClassName(event)}`}>
+            {event.kind === 'party' && `${format(event.date, 'HH:mm')} `}
+            {getEventTitle(event)}
+        </div>
+    )
+
+    const renderDayCell = (day: Date, index: number) => {
+        const dayEvents = getDayEvents(day)
+        const isOpen = !!openDay && isSameDay(day, openDay)
+        const maxChips = view === 'week' ? dayEvents.length : 2
+
+        return (
+            <div key={day.toString()} className="relative">
+                <button
+                    onClick={() => setOpenDay(isOpen ? null : day)}
+                    className={`w-full flex flex-col gap-1 p-1 rounded-lg text-left transition-colors ${
+                        view === 'week' ? 'min-h-[200px]' : 'min-h-[88px]'
+                    } ${isOpen ? 'bg-gray-600' : 'hover:bg-gray-600'}`}
+                >
+                    <span
+                        className={`text-sm ${isSameMonth(day, cursor) || view === 'week' ? 'text-white' : 'text-gray-500'} ${
+                            isToday(day) ? 'font-bold text-[#FFB130]' : ''
+                        }`}
+                    >
+                        {format(day, view === 'week' ? 'M/d' : 'd')}
+                    </span>
+                    {dayEvents.slice(0, maxChips).map(renderChip)}
+                    {dayEvents.length > maxChips && (
+                        <span className="text-xs text-gray-400">+{dayEvents.length - maxChips}개</span>
+                    )}
+                </button>
+                {isOpen && renderPopover(day, index % 7)}
+            </div>
+        )
+    }
+
+    const renderList = () => {
+        const listDays = days.filter((day) => getDayEvents(day).length > 0)
+        if (listDays.length === 0) {
+            return <p className="py-12 text-center text-gray-400">이 달에는 일정이 없습니다.</p>
+        }
+
+        return (
+            <div className="divide-y divide-gray-600">
+                {listDays.map((day) => (
+                    <div key={day.toString()} className="flex gap-4 py-3">
+                        <div className={`w-16 shrink-0 text-sm ${isToday(day) ? 'text-[#FFB130]' : 'text-gray-300'}`}>
+                            {format(day, 'M/d (EEE)', { locale: ko })}
+                        </div>
+                        <div className="flex-1 min-w-0 divide-y divide-gray-700">
+                            {getDayEvents(day).map(renderEventDetail)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="w-full">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => move(-1)} className="p-2 hover:bg-gray-600 rounded-full transition-colors">
+                        <ChevronLeftIcon className="w-5 h-5 text-white" />
+                    </button>
+                    <h2 className="text-lg font-medium text-white">{getTitle(view, start, end, cursor)}</h2>
+                    <button onClick={() => move(1)} className="p-2 hover:bg-gray-600 rounded-full transition-colors">
+                        <ChevronRightIcon className="w-5 h-5 text-white" />
+                    </button>
+                    <button
+                        onClick={() => {
+                            setOpenDay(null)
+                            setCursor(new Date())
+                        }}
+                        className="px-3 py-1 text-sm text-gray-300 border border-gray-500 rounded-full hover:bg-gray-600"
+                    >
+                        오늘
+                    </button>
+                </div>
+                <div className="flex bg-gray-800 rounded-full p-1">
+                    {views.map((option) => (
+                        <button
+                            key={option.value}
+                            onClick={() => changeView(option.value)}
+                            className={`px-4 py-1 text-sm rounded-full ${
+                                view === option.value ? 'bg-[#FFB130] text-black' : 'text-gray-300 hover:text-white'
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* 색상 안내 */}
+            <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                {Object.entries(partyStatusStyles).map(([status, style]) => (
+                    <span key={status} className={`px-2 py-0.5 rounded-full ${style.className}`}>
+                        {style.label}
+                    </span>
+                ))}
+                <span className={`px-2 py-0.5 rounded-full ${DIARY_CLASS_NAME}`}>탈출일지</span>
+                <span className="px-2 py-0.5 rounded-full ring-1 ring-[#FFB130] text-gray-300">내가 모임장</span>
+            </div>
+
+            {view === 'list' ? (
+                renderList()
+            ) : (
+                <>
+                    {/* 팝오버 바깥을 누르면 닫기 */}
+                    {openDay && <div className="fixed inset-0 z-10" onClick={() => setOpenDay(null)} />}
+                    <div className="grid grid-cols-7 gap-1">
+                        {weekDays.map((day) => (
+                            <div
+                                key={day}
+                                className="h-8 flex items-center justify-center text-sm font-medium text-gray-300"
+                            >
+                                {day}
+                            </div>
+                        ))}
+                        {days.map(renderDayCell)}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,88 @@
+import { Conversation } from '@/lib/backend/messageThreads'
+import { parsePartyChatContent } from '@/lib/backend/partyChat'
+
+interface ConversationListProps {
+    conversations: Conversation[]
+    selectedId: number | null
+    onSelect: (counterpartId: number) => void
+    checkedIds?: number[] // 일괄 처리용으로 체크한 대화 상대
+    onToggleCheck?: (counterpartId: number) => void
+}
+
+// 모임 채팅 쪽지는 머리말을 떼고 보여준다
+const getPreview = (content?: string) => {
+    const partyChat = parsePartyChatContent(content)
+    return partyChat ? `[모임 채팅] ${partyChat.content}` : content
+}
+
+// 마지막 쪽지 시간 표시 (오늘이면 시간, 아니면 날짜)
+const formatLastTime = (dateStr?: string) => {
+    if (!dateStr) return ''
+    const date = new Date(dateStr)
+    const isToday = date.toDateString() === new Date().toDateString()
+
+    return isToday
+        ? date.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', hour12: false })
+        : date.toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' })
+}
+
+export function ConversationList({
+    conversations,
+    selectedId,
+    onSelect,
+    checkedIds = [],
+    onToggleCheck,
+}: ConversationListProps) {
+    if (conversations.length === 0) {
+        return <div className="p-6 text-center text-sm text-gray-400">대화가 없습니다.</div>
+    }
+
+    return (
+        <ul className="divide-y divide-gray-700">
+            {conversations.map((conversation) => (
+                <li key={conversation.counterpartId} className="flex items-center">
+                    {onToggleCheck && (
+                        <input
+                            type="checkbox"
+                            checked={checkedIds.includes(conversation.counterpartId)}
+                            onChange={() => onToggleCheck(conversation.counterpartId)}
+                            className="ml-4 accent-[#FFB130]"
+                            aria-label={`${conversation.counterpartNickname || '알 수 없음'} 대화 선택`}
+                        />
+                    )}
+                    <button
+                        onClick={() => onSelect(conversation.counterpartId)}
+                        className={`flex-1 min-w-0 flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-700 ${
+                            selectedId === conversation.counterpartId ? 'bg-gray-700' : ''
+                        }`}
+                    >
+                        <div className="w-10 h-10 shrink-0 bg-[#FFB130] text-black rounded-full flex items-center justify-center font-medium">
+                            {conversation.counterpartNickname.charAt(0) || '?'}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center">
+                                <span className="font-medium text-white truncate">
+                                    {conversation.counterpartNickname || '알 수 없음'}
+                                </span>
+                                <span className="ml-auto text-xs text-gray-500 shrink-0">
+                                    {formatLastTime(conversation.lastMessage.createdAt)}
+                                </span>
+                            </div>
+                            <div className="flex items-center mt-1">
+                                <span className="text-sm text-gray-400 truncate">
+                                    {conversation.lastMessage.direction === 'sent' && '나: '}
+                                    {getPreview(conversation.lastMessage.content)}
+                                </span>
+                                {conversation.unreadCount > 0 && (
+                                    <span className="ml-auto shrink-0 bg-red-500 text-white text-xs rounded-full px-2 py-0.5">
+                                        {conversation.unreadCount}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    </button>
+                </li>
+            ))}
+        </ul>
+    )
+}
@@ -0,0 +1,152 @@
+import { Conversation } from '@/lib/backend/messageThreads'
+import { parsePartyChatContent } from '@/lib/backend/partyChat'
+import Link from 'next/link'
+import { useEffect, useRef, useState } from 'react'
+
+interface ConversationThreadProps {
+    conversation: Conversation
+    hasMore: boolean
+    isLoadingMore: boolean
+    onLoadMore: () => void
+    onSend: (content: string) => Promise<boolean>
+    onMute: () => void
+}
+
+const formatTime = (dateStr?: string) =>
+    dateStr ? new Date(dateStr).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', hour12: false }) : ''
+
+const formatDay = (dateStr?: string) =>
+    dateStr
+        ? new Date(dateStr).toLocaleDateString('ko-KR', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+              weekday: 'short',
+          })
+        : ''
+
+export function ConversationThread({
+    conversation,
+    hasMore,
+    isLoadingMore,
+    onLoadMore,
+    onSend,
+    onMute,
+}: ConversationThreadProps) {
+    const [content, setContent] = useState('')
+    const [isSending, setIsSending] = useState(false)
+    const bottomRef = useRef<HTMLDivElement>(null)
+    const lastMessage = conversation.lastMessage
+
+    // 대화를 바꾸거나 새 쪽지가 오면 맨 아래로 스크롤
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ block: 'end' })
+    }, [conversation.counterpartId, lastMessage.id, lastMessage.direction])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!content.trim() || isSending) return
+
+        setIsSending(true)
+        if (await onSend(content.trim())) {
+            setContent('')
+        }
+        setIsSending(false)
+    }
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+                <h2 className="text-lg font-medium text-white">{conversation.counterpartNickname || '알 수 없음'}</h2>
+                <button
+                    onClick={onMute}
+                    className="px-3 py-1.5 border border-gray-600 text-gray-300 text-sm rounded-lg hover:bg-gray-700"
+                >
+                    차단
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                {hasMore && (
+                    <div className="flex justify-center">
+                        <button
+                            onClick={onLoadMore}
+                            disabled={isLoadingMore}
+                            className="px-4 py-1.5 bg-gray-700 text-gray-200 text-sm rounded-full hover:bg-gray-600 disabled:opacity-50"
+                        >
+                            {isLoadingMore ? '불러오는 중...' : '이전 쪽지 더 보기'}
+                        </button>
+                    </div>
+                )}
+
+                {conversation.messages.map((message, index) => {
+                    const isMine = message.direction === 'sent'
+                    const day = formatDay(message.createdAt)
+                    const showDay = index === 0 || formatDay(conversation.messages[index - 1].createdAt) !== day
+                    // 모임 채팅으로 보낸 쪽지는 머리말 대신 모임 링크를 보여준다
+                    const partyChat = parsePartyChatContent(message.content)
+
+                    return (
+                        <div key={`${message.direction}-${message.id}`}>
+                            {showDay && <div className="text-center text-xs text-gray-500 my-4">{day}</div>}
+                            <div className={`flex items-end gap-2 ${isMine ? 'flex-row-reverse' : ''}`}>
+                                <div
+                                    className={`max-w-[70%] px-4 py-2 rounded-2xl whitespace-pre-wrap break-words ${
+                                        isMine
+                                            ? 'bg-[#FFB130] text-black rounded-br-sm'
+                                            : 'bg-gray-700 text-gray-200 rounded-bl-sm'
+                                    }`}
+                                >
+                                    {partyChat && (
+                                        <Link
+                                            href={`/parties/${partyChat.partyId}`}
+                                            className="block mb-1 text-xs underline opacity-80"
+                                        >
+                                            모임 채팅
+                                        </Link>
+                                    )}
+                                    {partyChat ? partyChat.content : message.content}
+                                </div>
+                                <div className={`flex flex-col text-xs ${isMine ? 'items-end' : 'items-start'}`}>
+                                    {/* 내가 보낸 쪽지는 상대가 읽었는지 표시 */}
+                                    {isMine && (
+                                        <span className={message.read ? 'text-gray-500' : 'text-[#FFB130]'}>
+                                            {message.read ? '읽음' : '안읽음'}
+                                        </span>
+                                    )}
+                                    <span className="text-gray-500">{formatTime(message.createdAt)}</span>
+                                </div>
+                            </div>
+                        </div>
+                    )
+                })}
+                <div ref={bottomRef} />
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex gap-2 px-6 py-4 border-t border-gray-700">
+                <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    onKeyDown={(e) => {
+                        // Enter로 전송, Shift+Enter로 줄바꿈
+                        if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                            e.preventDefault()
+                            e.currentTarget.form?.requestSubmit()
+                        }
+                    }}
+                    rows={2}
+                    placeholder="쪽지를 입력하세요"
+                    className="flex-1 p-3 bg-gray-700 text-white rounded-lg focus:outline-none focus:ring-1 focus:ring-[#FFB130] resize-none"
+                    disabled={isSending}
+                />
+                <button
+                    type="submit"
+                    disabled={isSending || !content.trim()}
+                    className="px-4 bg-[#FFB130] text-black rounded-lg hover:bg-[#F0A120] disabled:opacity-50"
+                >
+                    {isSending ? '전송 중...' : '보내기'}
+                </button>
+            </form>
+        </div>
+    )
+}
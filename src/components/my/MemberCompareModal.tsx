@@ -0,0 +1,243 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { compareStats, compareTags } from '@/lib/memberCompare'
+import { getKeywordDistribution, KeywordShare } from '@/lib/reviewKeywords'
+import { useEffect, useState } from 'react'
+
+type OtherMemberProfileResponse = components['schemas']['OtherMemberProfileResponse']
+type EscapeProfileSummaryDto = components['schemas']['EscapeProfileSummaryDto']
+type MemberTagResponse = components['schemas']['MemberTagResponse']
+type MemberReviewResponse = components['schemas']['MemberReviewResponse']
+
+interface MemberCompareModalProps {
+    memberId: number
+    onClose: () => void
+}
+
+type CompareData = {
+    other: OtherMemberProfileResponse
+    review: MemberReviewResponse | null
+    myStats: EscapeProfileSummaryDto | null
+    myTags: MemberTagResponse[]
+}
+
+function KeywordBars({ title, shares, color }: { title: string; shares: KeywordShare[]; color: string }) {
+    return (
+        <div className="bg-gray-700 rounded-lg p-4">
+            <h4 className="text-sm font-medium text-gray-300 mb-3">{title}</h4>
+            {shares.length === 0 ? (
+                <p className="text-xs text-gray-500">받은 키워드가 없습니다.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {shares.map((share) => (
+                        <li key={share.keyword}>
+                            <div className="flex justify-between text-xs text-gray-300 mb-1">
+                                <span>{share.label}</span>
+                                <span>
+                                    {share.count}회 · {Math.round(share.percent)}%
+                                </span>
+                            </div>
+                            <div className="h-1.5 bg-gray-600 rounded-full overflow-hidden">
+                                <div className={`h-full ${color}`} style={{ width: `${share.percent}%` }} />
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
+
+// 다른 회원과 내 방탈출 통계, 선호 태그, 받은 후기를 나란히 비교
+export function MemberCompareModal({ memberId, onClose }: MemberCompareModalProps) {
+    const [data, setData] = useState<CompareData | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        setData(null)
+        setError(null)
+
+        Promise.all([
+            unwrap(client.GET('/api/v1/members/{memberId}/profile', { params: { path: { memberId } } })),
+            unwrap(client.GET('/members/{id}/review', { params: { path: { id: memberId } } })),
+            unwrap(client.GET('/api/v1/members/me/stats')),
+            unwrap(client.GET('/api/v1/members/me/tags')),
+        ]).then(([other, review, myStats, myTags]) => {
+            if (cancelled) return
+            if (other.error || !other.data) {
+                console.error('비교할 회원 정보 조회 실패:', other.error)
+                setError(other.error?.message || '회원 정보를 불러오지 못했습니다.')
+                return
+            }
+
+            // 후기와 내 정보는 없어도 비교할 수 있는 만큼 보여준다
+            setData({
+                other: other.data,
+                review: review.data ?? null,
+                myStats: myStats.data ?? null,
+                myTags: myTags.data ?? [],
+            })
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [memberId])
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [onClose])
+
+    const nickname = data?.other.profile?.nickname || '상대'
+    const stats = data ? compareStats(data.myStats, data.other.stats) : []
+    const tags = data ? compareTags(data.myTags, data.other.tags) : null
+    const keywords = getKeywordDistribution(data?.review)
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-xl font-bold text-white">{data ? `나 vs ${nickname}` : '회원 비교'}</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="닫기">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M6 18L18 6M6 6l12 12"
+                            />
+                        </svg>
+                    </button>
+                </div>
+
+                {error ? (
+                    <p className="text-red-400 text-center py-8">{error}</p>
+                ) : !data || !tags ? (
+                    <div className="flex justify-center py-12">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FFB130]" />
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        {/* 방탈출 통계 */}
+                        <section>
+                            <div className="flex justify-between text-xs text-gray-400 mb-3">
+                                <span className="text-[#FFB130]">나</span>
+                                <span className="text-sky-400">{nickname}</span>
+                            </div>
+                            {!data.myStats && (
+                                <p className="text-xs text-gray-500 mb-3">내 통계를 불러오지 못해 0으로 표시합니다.</p>
+                            )}
+                            <div className="space-y-4">
+                                {stats.map((stat) => (
+                                    <div key={stat.label}>
+                                        <div className="flex justify-between items-baseline text-sm mb-1">
+                                            <span className="text-white font-medium">
+                                                {stat.mine}
+                                                {stat.unit}
+                                            </span>
+                                            <span className="text-gray-400 text-xs">{stat.label}</span>
+                                            <span className="text-white font-medium">
+                                                {stat.theirs}
+                                                {stat.unit}
+                                            </span>
+                                        </div>
+                                        <div className="flex gap-1 h-2">
+                                            <div className="flex-1 flex justify-end bg-gray-700 rounded-l-full overflow-hidden">
+                                                <div
+                                                    className="bg-[#FFB130]"
+                                                    style={{ width: `${(stat.mine / stat.max) * 100}%` }}
+                                                />
+                                            </div>
+                                            <div className="flex-1 bg-gray-700 rounded-r-full overflow-hidden">
+                                                <div
+                                                    className="h-full bg-sky-400"
+                                                    style={{ width: `${(stat.theirs / stat.max) * 100}%` }}
+                                                />
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+
+                        {/* 선호 태그 */}
+                        <section>
+                            <h3 className="text-sm font-medium text-gray-400 mb-2">
+                                선호 태그 {tags.common.length > 0 && `· ${tags.common.length}개 겹침`}
+                            </h3>
+                            {tags.common.length + tags.onlyMine.length + tags.onlyTheirs.length === 0 ? (
+                                <p className="text-xs text-gray-500">두 사람 모두 선호 태그가 없습니다.</p>
+                            ) : (
+                                <div className="flex flex-wrap gap-2">
+                                    {tags.common.map((name) => (
+                                        <span
+                                            key={`common-${name}`}
+                                            className="px-3 py-1 bg-[#FFB130] text-black rounded-full text-sm font-medium"
+                                        >
+                                            #{name}
+                                        </span>
+                                    ))}
+                                    {tags.onlyMine.map((name) => (
+                                        <span
+                                            key={`mine-${name}`}
+                                            className="px-3 py-1 border border-[#FFB130]/50 text-[#FFB130] rounded-full text-sm"
+                                        >
+                                            #{name}
+                                        </span>
+                                    ))}
+                                    {tags.onlyTheirs.map((name) => (
+                                        <span
+                                            key={`theirs-${name}`}
+                                            className="px-3 py-1 border border-sky-400/50 text-sky-400 rounded-full text-sm"
+                                        >
+                                            #{name}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-xs text-gray-500 mt-2">
+                                채워진 태그는 두 사람 모두, 주황 테두리는 나만, 파랑 테두리는 {nickname}님만 선호해요.
+                            </p>
+                        </section>
+
+                        {/* 받은 후기 */}
+                        <section>
+                            <h3 className="text-sm font-medium text-gray-400 mb-2">
+                                {nickname}님이 받은 후기
+                                {data.review && (
+                                    <span className="ml-2 text-xs text-gray-500">
+                                        총 {data.review.totalReviews ?? 0}개 · 노쇼 {data.review.noShowCount ?? 0}회
+                                    </span>
+                                )}
+                            </h3>
+                            {data.review ? (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    <KeywordBars
+                                        title={`긍정 ${data.review.positiveCount ?? 0}`}
+                                        shares={keywords.positive}
+                                        color="bg-green-500"
+                                    />
+                                    <KeywordBars
+                                        title={`부정 ${data.review.negativeCount ?? 0}`}
+                                        shares={keywords.negative}
+                                        color="bg-red-500"
+                                    />
+                                </div>
+                            ) : (
+                                <p className="text-xs text-gray-500">후기 정보를 불러오지 못했습니다.</p>
+                            )}
+                        </section>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
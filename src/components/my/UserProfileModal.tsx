@@ -1,5 +1,9 @@
+import { AchievementChips } from '@/components/my/AchievementBadges'
+import { evaluateSummaryAchievements } from '@/lib/achievements'
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import { muteMember, unmuteMember, useMutedMembers } from '@/stores/message/mutedMembers'
 import Image from 'next/image'
 import { useEffect, useState } from 'react'
 import MessageModal from './MessageModal'
@@ -22,6 +26,9 @@ interface ApiError {
 const DEFAULT_PROFILE_IMAGE = '/profile_default.jpg'
 
 export default function UserProfileModal({ memberId, isOpen, onClose }: UserProfileModalProps) {
+    const { toast, confirm } = useFeedback()
+    const mutedMembers = useMutedMembers()
+    const isMuted = mutedMembers.some((member) => member.memberId === memberId)
     const [profile, setProfile] = useState<OtherMemberProfileResponse | null>(null)
     const [reviewStats, setReviewStats] = useState<MemberReviewResponse | null>(null)
     const [loading, setLoading] = useState(true)
@@ -50,7 +57,7 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
             // @ts-ignore - openapi-fetch의 타입 정의가 실제 응답과 다름
             if (response.error?.message) {
                 // @ts-ignore
-                alert(response.error.message)
+                toast.error(response.error.message)
                 onClose()
                 return
             }
@@ -62,7 +69,7 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
         } catch (err: any) {
             console.error('프로필 정보 로드 중 오류:', err)
             const errorMessage = err.response?.data?.message || '프로필 정보를 불러오는데 실패했습니다.'
-            alert(errorMessage)
+            toast.error(errorMessage)
             onClose()
         } finally {
             setLoading(false)
@@ -82,7 +89,7 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
             // @ts-ignore - openapi-fetch의 타입 정의가 실제 응답과 다름
             if (response.error?.message) {
                 // @ts-ignore
-                alert(response.error.message)
+                toast.error(response.error.message)
                 // @ts-ignore
                 setReviewError(response.error.message)
                 setReviewStats(null)
@@ -96,14 +103,40 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
         } catch (err: any) {
             console.error('리뷰 통계 로드 중 오류:', err)
             const errorMessage = err.response?.data?.message || '리뷰 통계를 불러오는데 실패했습니다.'
-            alert(errorMessage)
+            toast.error(errorMessage)
             setReviewError(errorMessage)
             setReviewStats(null)
         }
     }
 
+    // 차단한 회원의 쪽지와 쪽지 알림은 이 브라우저에서 숨긴다
+    const handleToggleMute = async () => {
+        const nickname = profile?.profile?.nickname || '알 수 없음'
+
+        if (isMuted) {
+            unmuteMember(memberId)
+            toast.success(`${nickname}님의 차단을 해제했습니다.`)
+            return
+        }
+
+        if (
+            !(await confirm({
+                title: '회원 차단',
+                message: `${nickname}님을 차단하시겠습니까?\n차단한 회원의 쪽지와 쪽지 알림이 더 이상 표시되지 않습니다.`,
+                confirmText: '차단',
+                danger: true,
+            }))
+        )
+            return
+
+        muteMember(memberId, profile?.profile?.nickname)
+        toast.success(`${nickname}님을 차단했습니다.`)
+    }
+
     if (!isOpen) return null
 
+    const achievements = profile?.stats ? evaluateSummaryAchievements(profile.stats) : []
+
     return (
         <>
             <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
@@ -219,6 +252,13 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
                                     </div>
                                 )}
 
+                                {achievements.length > 0 && (
+                                    <div className="mt-6">
+                                        <h3 className="text-sm font-medium text-gray-400 mb-2">업적</h3>
+                                        <AchievementChips achievements={achievements} />
+                                    </div>
+                                )}
+
                                 {reviewStats && !reviewError ? (
                                     <div className="mt-6">
                                         <h3 className="text-sm font-medium text-gray-400 mb-3">리뷰 통계</h3>
@@ -261,7 +301,13 @@ export default function UserProfileModal({ memberId, isOpen, onClose }: UserProf
                                     </div>
                                 ) : null}
 
-                                <div className="mt-6 flex justify-end">
+                                <div className="mt-6 flex justify-end gap-2">
+                                    <button
+                                        onClick={handleToggleMute}
+                                        className="px-4 py-2 border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-700"
+                                    >
+                                        {isMuted ? '차단 해제' : '차단'}
+                                    </button>
                                     <button
                                         onClick={() => setIsMessageModalOpen(true)}
                                         className="px-4 py-2 bg-[#FFB130] hover:bg-[#F0A420] text-white rounded-lg flex items-center gap-2"
@@ -2,6 +2,7 @@
 
 import { components } from '@/lib/backend/apiV1/schema'
 import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
 import Image from 'next/image'
 import { useEffect, useState } from 'react'
 
@@ -14,6 +15,7 @@ type ThemeForPartyResponse = components['schemas']['ThemeForPartyResponse']
 type SuccessResponseListThemeForPartyResponse = components['schemas']['SuccessResponseListThemeForPartyResponse']
 
 export default function WishesThemesModal({ isOpen, onClose }: WishesThemesModalProps) {
+    const { toast } = useFeedback()
     const [searchQuery, setSearchQuery] = useState('')
     const [themes, setThemes] = useState<ThemeForPartyResponse[]>([])
     const [loading, setLoading] = useState(false)
@@ -70,7 +72,7 @@ export default function WishesThemesModal({ isOpen, onClose }: WishesThemesModal
                 throw new Error('테마 ID가 없습니다.')
             }
 
-            await client.POST('/api/v1/themes/{id}/wishes', {
+            const response = await client.POST('/api/v1/themes/{id}/wishes', {
                 params: {
                     path: {
                         id: selectedTheme.themeId,
@@ -78,6 +80,12 @@ export default function WishesThemesModal({ isOpen, onClose }: WishesThemesModal
                 },
                 body: undefined,
             })
+
+            if (response.error) {
+                throw new Error('테마 등록에 실패했습니다.')
+            }
+
+            toast.success('관심 테마로 등록되었습니다.')
             onClose()
         } catch (error) {
             console.error('테마 등록 중 오류:', error)
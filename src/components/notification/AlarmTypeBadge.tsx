@@ -0,0 +1,27 @@
+import { components } from '@/lib/backend/apiV1/schema'
+
+export type AlarmType = NonNullable<components['schemas']['AlarmCreateRequest']['alarmType']>
+
+// 알림 종류 목록 (탭 표시 순서)
+export const alarmTypes: { value: AlarmType; label: string; className: string }[] = [
+    { value: 'MESSAGE', label: '메시지', className: 'bg-blue-900 text-blue-300' },
+    { value: 'PARTY_APPLY', label: '모임신청', className: 'bg-purple-900 text-purple-300' },
+    { value: 'PARTY_STATUS', label: '모임상태', className: 'bg-indigo-900 text-indigo-300' },
+    { value: 'POST_REPLY', label: '문의답변', className: 'bg-teal-900 text-teal-300' },
+    { value: 'ANSWER_COMMENT', label: '답변', className: 'bg-pink-900 text-pink-300' },
+    { value: 'SUBSCRIBE', label: '구독', className: 'bg-green-900 text-green-300' },
+    { value: 'SYSTEM', label: '시스템', className: 'bg-orange-900 text-orange-300' },
+    { value: 'OTHER', label: '기타', className: 'bg-gray-700 text-gray-300' },
+]
+
+export function AlarmTypeBadge({ alarmType }: { alarmType?: AlarmType }) {
+    const type = alarmTypes.find((t) => t.value === alarmType)
+
+    return (
+        <span
+            className={`inline-block px-2 py-1 rounded-full text-xs ${type?.className || 'bg-gray-700 text-gray-300'}`}
+        >
+            {type?.label || '기타'}
+        </span>
+    )
+}
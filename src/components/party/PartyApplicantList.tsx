@@ -0,0 +1,312 @@
+import {
+    APPLICANT_FILTERS,
+    APPLICANT_SORTS,
+    ApplicantFilter,
+    ApplicantInsight,
+    ApplicantSort,
+    getRemainingSlots,
+    isRookie,
+    rankApplicants,
+    ROOKIE_MAX_ESCAPES,
+} from '@/lib/applicantRanking'
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
+import Image from 'next/image'
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+type PartyDetailResponse = components['schemas']['PartyDetailResponse']
+type OtherMemberProfileResponse = components['schemas']['OtherMemberProfileResponse']
+type MemberReviewResponse = components['schemas']['MemberReviewResponse']
+
+type MemberDetail = { profile?: OtherMemberProfileResponse; review?: MemberReviewResponse }
+
+// 신청자가 많아도 한 번에 보내는 요청 수를 제한한다 (회원마다 프로필, 후기 두 건)
+const DETAIL_CONCURRENCY = 4
+
+interface PartyApplicantListProps {
+    party: PartyDetailResponse
+    onApprove: (memberIds: number[]) => void
+    onReject: (memberId: number) => void
+    onShowProfile: (memberId: number) => void
+    onCompare: (memberId: number) => void
+}
+
+// 신청자마다 프로필과 후기 통계를 불러온다 (이미 불러온 회원은 다시 요청하지 않는다)
+const useMemberDetails = (memberIds: number[]) => {
+    const [details, setDetails] = useState<Record<number, MemberDetail>>({})
+    const requested = useRef(new Set<number>())
+    const idsKey = memberIds.join(',')
+
+    useEffect(() => {
+        const missing = idsKey
+            .split(',')
+            .filter(Boolean)
+            .map(Number)
+            .filter((memberId) => !requested.current.has(memberId))
+        if (missing.length === 0) return
+
+        missing.forEach((memberId) => requested.current.add(memberId))
+
+        // 불러온 회원부터 바로 보여준다
+        let next = 0
+        const worker = async () => {
+            while (next < missing.length) {
+                const memberId = missing[next++]
+                const [profile, review] = await Promise.all([
+                    unwrap(client.GET('/api/v1/members/{memberId}/profile', { params: { path: { memberId } } })),
+                    unwrap(client.GET('/members/{id}/review', { params: { path: { id: memberId } } })),
+                ])
+                if (profile.error) console.error('신청자 프로필 조회 실패:', memberId, profile.error)
+                if (review.error) console.error('신청자 후기 통계 조회 실패:', memberId, review.error)
+                setDetails((prev) => ({ ...prev, [memberId]: { profile: profile.data, review: review.data } }))
+            }
+        }
+        Array.from({ length: Math.min(DETAIL_CONCURRENCY, missing.length) }, worker)
+    }, [idsKey])
+
+    return details
+}
+
+// 모임장용 참가 신청 목록 (매너 점수, 노쇼, 방탈출 횟수로 정렬/필터하고 남은 자리만큼 한 번에 승인)
+export function PartyApplicantList({ party, onApprove, onReject, onShowProfile, onCompare }: PartyApplicantListProps) {
+    const { confirm } = useFeedback()
+    const [sort, setSort] = useState<ApplicantSort>('applied')
+    const [filter, setFilter] = useState<ApplicantFilter>('all')
+    const [selectedIds, setSelectedIds] = useState<number[]>([])
+
+    const applicants = useMemo(
+        () => (party.AppliedPartyMembers ?? []).filter((member) => member.id !== undefined),
+        [party.AppliedPartyMembers],
+    )
+    const details = useMemberDetails(applicants.map((member) => member.id as number))
+
+    const insights: ApplicantInsight[] = applicants.map((member, order) => ({
+        member,
+        order,
+        ...details[member.id as number],
+    }))
+    const ranked = rankApplicants(insights, sort, filter)
+    const loadedCount = applicants.filter((member) => (member.id as number) in details).length
+
+    const remainingSlots = getRemainingSlots(party)
+    const rookiesBlocked = party.rookieAvailable === false
+    // 승인했거나 신청을 취소한 회원은 선택에서 뺀다
+    const selected = selectedIds.filter((memberId) => applicants.some((member) => member.id === memberId))
+
+    const toggleSelected = (memberId: number) => {
+        setSelectedIds((prev) =>
+            prev.includes(memberId)
+                ? prev.filter((id) => id !== memberId)
+                : selected.length < remainingSlots
+                  ? [...selected, memberId]
+                  : prev,
+        )
+    }
+
+    // 지금 정렬/필터 기준 상위 신청자를 남은 자리만큼 고른다 (초심자 불가 모임은 초심자가 아닌 것이 확인된 신청자만)
+    const selectTop = () => {
+        setSelectedIds(
+            ranked
+                .filter((insight) => !rookiesBlocked || isRookie(insight) === false)
+                .slice(0, remainingSlots)
+                .map((insight) => insight.member.id as number),
+        )
+    }
+
+    // 초심자 불가 모임에 초심자를 승인하려면 한 번 더 확인한다
+    // 방탈출 횟수를 아직 모르는 신청자도 초심자일 수 있으므로 함께 확인한다
+    const approve = async (memberIds: number[]) => {
+        const targets = insights.filter((insight) => memberIds.includes(insight.member.id as number))
+        const names = (matched: ApplicantInsight[]) => matched.map((insight) => insight.member.nickname).join(', ')
+        const rookies = targets.filter((insight) => isRookie(insight) === true)
+        const unknown = targets.filter((insight) => isRookie(insight) === null)
+        const reasons = [
+            rookies.length > 0 && `${names(rookies)}님은 방탈출 ${ROOKIE_MAX_ESCAPES}회 미만의 초심자입니다.`,
+            unknown.length > 0 && `${names(unknown)}님은 방탈출 횟수를 불러오지 못해 초심자인지 알 수 없습니다.`,
+        ].filter(Boolean)
+
+        if (
+            rookiesBlocked &&
+            reasons.length > 0 &&
+            !(await confirm({
+                title: '초심자 불가 모임',
+                message: `${reasons.join('\n')}\n그래도 승인하시겠습니까?`,
+                confirmText: '승인',
+            }))
+        )
+            return
+
+        onApprove(memberIds)
+        setSelectedIds((prev) => prev.filter((memberId) => !memberIds.includes(memberId)))
+    }
+
+    return (
+        <div className="mt-4">
+            {rookiesBlocked && (
+                <div className="bg-red-900/40 border border-red-700 text-red-200 px-4 py-3 rounded-lg mb-4 text-sm">
+                    초심자 불가 모임입니다. 방탈출 {ROOKIE_MAX_ESCAPES}회 미만인 신청자는 초심자로 표시됩니다.
+                </div>
+            )}
+
+            {/* 정렬/필터, 일괄 승인 */}
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as ApplicantSort)}
+                    className="px-3 py-1.5 bg-gray-700 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FFB130]"
+                >
+                    {APPLICANT_SORTS.map((option) => (
+                        <option key={option.key} value={option.key}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                {APPLICANT_FILTERS.map((option) => (
+                    <button
+                        key={option.key}
+                        onClick={() => setFilter(option.key)}
+                        className={`px-3 py-1.5 rounded-full transition-colors ${
+                            filter === option.key
+                                ? 'bg-[#FFB130] text-black'
+                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                <div className="flex items-center gap-2 ml-auto">
+                    <span className="text-gray-400">
+                        남은 자리 <span className="text-white font-medium">{remainingSlots}</span>
+                    </span>
+                    <button
+                        onClick={selectTop}
+                        disabled={remainingSlots === 0 || ranked.length === 0}
+                        className="px-3 py-1.5 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                    >
+                        상위 {remainingSlots}명 선택
+                    </button>
+                    <button
+                        onClick={() => approve(selected)}
+                        disabled={selected.length === 0}
+                        className="px-3 py-1.5 bg-[#FFB130] hover:bg-[#F0A420] text-white rounded-lg disabled:opacity-50"
+                    >
+                        선택 승인 ({selected.length})
+                    </button>
+                </div>
+            </div>
+
+            {loadedCount < applicants.length && (
+                <p className="text-xs text-gray-400 mb-3">
+                    신청자 정보를 불러오는 중입니다 ({loadedCount}/{applicants.length})
+                </p>
+            )}
+
+            {ranked.length === 0 ? (
+                <p className="text-center text-gray-400 py-6">조건에 맞는 신청자가 없습니다.</p>
+            ) : (
+                <div className="space-y-4">
+                    {ranked.map((insight) => {
+                        const { member, profile, review } = insight
+                        const memberId = member.id as number
+                        const rookie = isRookie(insight)
+                        const checked = selected.includes(memberId)
+
+                        return (
+                            <div
+                                key={memberId}
+                                className="flex flex-wrap items-center justify-between gap-3 p-4 border border-gray-700 rounded-lg hover:bg-gray-700"
+                            >
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={checked}
+                                        disabled={!checked && selected.length >= remainingSlots}
+                                        onChange={() => toggleSelected(memberId)}
+                                        aria-label={`${member.nickname} 선택`}
+                                        className="mr-3 h-4 w-4 accent-[#FFB130]"
+                                    />
+                                    <div className="w-10 h-10 rounded-full overflow-hidden relative mr-3 bg-gray-700">
+                                        <Image
+                                            src={member.profilePictureUrl || '/default-profile.svg'}
+                                            alt={member.nickname || '신청자'}
+                                            fill
+                                            className="object-cover"
+                                        />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <div className="flex items-center gap-1">
+                                            <span className="font-medium text-white">{member.nickname}</span>
+                                            {rookie && (
+                                                <span
+                                                    className={`px-1.5 py-0.5 text-[10px] rounded-full ${
+                                                        rookiesBlocked
+                                                            ? 'bg-red-500 text-white'
+                                                            : 'bg-green-100 text-green-800'
+                                                    }`}
+                                                >
+                                                    초심자
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="flex flex-wrap gap-x-3 text-xs text-gray-400 mt-1">
+                                            <span>
+                                                매너{' '}
+                                                <span className="text-[#FFB130]">
+                                                    {profile?.profile?.mannerScore ?? '-'}
+                                                </span>
+                                            </span>
+                                            <span>
+                                                노쇼{' '}
+                                                <span
+                                                    className={review?.noShowCount ? 'text-red-400' : 'text-gray-200'}
+                                                >
+                                                    {review ? `${review.noShowCount ?? 0}회` : '-'}
+                                                </span>
+                                            </span>
+                                            <span>
+                                                방탈출{' '}
+                                                <span className="text-gray-200">
+                                                    {profile?.stats ? `${profile.stats.totalCount ?? 0}회` : '-'}
+                                                </span>
+                                            </span>
+                                        </div>
+                                        <div className="flex items-center gap-3 mt-1">
+                                            <button
+                                                onClick={() => onShowProfile(memberId)}
+                                                className="text-sm text-blue-400 hover:underline"
+                                            >
+                                                프로필 보기
+                                            </button>
+                                            <button
+                                                onClick={() => onCompare(memberId)}
+                                                className="text-sm text-[#FFB130] hover:underline"
+                                            >
+                                                나와 비교
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => onReject(memberId)}
+                                        className="bg-gray-600 hover:bg-gray-500 text-gray-200 px-4 py-2 rounded-lg transition"
+                                    >
+                                        거절
+                                    </button>
+                                    <button
+                                        onClick={() => approve([memberId])}
+                                        disabled={remainingSlots === 0}
+                                        className="bg-[#FFB130] hover:bg-[#F0A420] text-white px-4 py-2 rounded-lg transition disabled:opacity-50"
+                                    >
+                                        승인
+                                    </button>
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { messageChatTransport, PartyChatMember, PartyChatMessage, PartyChatTransport } from '@/lib/backend/partyChat'
+import { useFeedback } from '@/stores/feedback/feedback'
+import { useMutedMembers } from '@/stores/message/mutedMembers'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+interface PartyChatPanelProps {
+    partyId: number
+    members: PartyChatMember[] // 모임장 + 참가 확정 멤버 (나 포함)
+    myId?: number // 내 회원 ID (모르면 보내지 않는다)
+    transport?: PartyChatTransport
+}
+
+const formatChatTime = (dateStr?: string) =>
+    dateStr
+        ? new Date(dateStr).toLocaleString('ko-KR', {
+              month: 'numeric',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+              hour12: false,
+          })
+        : ''
+
+export function PartyChatPanel({ partyId, members, myId, transport = messageChatTransport }: PartyChatPanelProps) {
+    const { toast } = useFeedback()
+    const mutedMembers = useMutedMembers()
+    const [chats, setChats] = useState<PartyChatMessage[]>([])
+    const [loading, setLoading] = useState(true)
+    const [content, setContent] = useState('')
+    const [isSending, setIsSending] = useState(false)
+    const scrollRef = useRef<HTMLDivElement>(null)
+
+    // 닉네임은 겹치거나 비어 있을 수 있으므로 회원 ID로 나를 뺀다
+    const recipients = myId === undefined ? [] : members.filter((member) => member.id !== myId)
+
+    const loadChats = useCallback(async () => {
+        setChats(await transport.load(partyId))
+        setLoading(false)
+    }, [partyId, transport])
+
+    useEffect(() => {
+        loadChats()
+        return transport.subscribe(partyId, loadChats)
+    }, [partyId, transport, loadChats])
+
+    // 현재 참가자가 보낸 채팅만 표시 (차단한 회원 제외)
+    const visibleChats = chats.filter(
+        (chat) =>
+            chat.mine ||
+            (members.some((member) => member.id === chat.senderId) &&
+                !mutedMembers.some((member) => member.memberId === chat.senderId)),
+    )
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight })
+    }, [visibleChats.length])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!content.trim() || isSending) return
+
+        if (myId === undefined) {
+            toast.info('내 정보를 불러오는 중입니다. 잠시 후 다시 시도해주세요.')
+            return
+        }
+        if (recipients.length === 0) {
+            toast.info('채팅을 받을 참가자가 없습니다.')
+            return
+        }
+
+        setIsSending(true)
+        const { sentCount, failedCount } = await transport.send(partyId, recipients, content.trim())
+        setIsSending(false)
+
+        if (failedCount > 0) {
+            toast.error(`${recipients.length}명 중 ${failedCount}명에게 전송하지 못했습니다.`)
+        }
+        if (sentCount > 0) {
+            setContent('')
+            loadChats()
+        }
+    }
+
+    return (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm p-8 mb-6">
+            <div className="mb-4">
+                <h2 className="text-xl font-bold text-white">모임 채팅</h2>
+                <p className="text-sm text-gray-400 mt-1">
+                    {members.map((member) => member.nickname || '알 수 없음').join(', ')}
+                </p>
+            </div>
+
+            <div ref={scrollRef} className="h-80 overflow-y-auto bg-gray-900 rounded-lg p-4 space-y-3">
+                {loading ? (
+                    <p className="text-center text-sm text-gray-400">채팅을 불러오는 중...</p>
+                ) : visibleChats.length === 0 ? (
+                    <p className="text-center text-sm text-gray-400">
+                        아직 채팅이 없습니다. 만날 시간과 장소를 이야기해 보세요.
+                    </p>
+                ) : (
+                    visibleChats.map((chat) => (
+                        <div key={chat.key} className={`flex flex-col ${chat.mine ? 'items-end' : 'items-start'}`}>
+                            {!chat.mine && (
+                                <span className="text-xs text-gray-400 mb-1">
+                                    {chat.senderNickname || '알 수 없음'}
+                                </span>
+                            )}
+                            <div
+                                className={`max-w-[70%] px-4 py-2 rounded-2xl whitespace-pre-wrap break-words ${
+                                    chat.mine ? 'bg-[#FFB130] text-black' : 'bg-gray-700 text-gray-200'
+                                }`}
+                            >
+                                {chat.content}
+                            </div>
+                            <span className="text-xs text-gray-500 mt-1">{formatChatTime(chat.createdAt)}</span>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex gap-2 mt-4">
+                <input
+                    type="text"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder="참가자 모두에게 보낼 메시지를 입력하세요"
+                    className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg focus:outline-none focus:ring-1 focus:ring-[#FFB130]"
+                    disabled={isSending}
+                />
+                <button
+                    type="submit"
+                    disabled={isSending || !content.trim()}
+                    className="px-4 py-2 bg-[#FFB130] text-white rounded-lg hover:bg-[#F0A420] disabled:opacity-50"
+                >
+                    {isSending ? '전송 중...' : '보내기'}
+                </button>
+            </form>
+            <p className="mt-2 text-xs text-gray-500">채팅은 참가자 각자에게 쪽지로 전달됩니다.</p>
+        </div>
+    )
+}
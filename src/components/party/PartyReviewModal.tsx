@@ -1,4 +1,5 @@
 import client from '@/lib/backend/client'
+import { getReviewKeywordLabel } from '@/lib/reviewKeywords'
 import { useGlobalLoginMember } from '@/stores/auth/loginMember'
 import Image from 'next/image'
 import { useEffect, useState } from 'react'
@@ -81,7 +82,7 @@ export default function PartyHistoryModal({ partyId, isOpen, onClose }: PartyHis
                         keywordMap.POSITIVE.forEach((keyword: string) => {
                             tags.push({
                                 id: keyword,
-                                text: getKeywordText(keyword),
+                                text: getReviewKeywordLabel(keyword),
                                 type: 'POSITIVE',
                             })
                         })
@@ -92,7 +93,7 @@ export default function PartyHistoryModal({ partyId, isOpen, onClose }: PartyHis
                         keywordMap.NEGATIVE.forEach((keyword: string) => {
                             tags.push({
                                 id: keyword,
-                                text: getKeywordText(keyword),
+                                text: getReviewKeywordLabel(keyword),
                                 type: 'NEGATIVE',
                             })
                         })
@@ -110,23 +111,6 @@ export default function PartyHistoryModal({ partyId, isOpen, onClose }: PartyHis
         fetchReviewKeywords()
     }, [isOpen])
 
-    // 키워드에 따른 텍스트 매핑 함수
-    const getKeywordText = (keyword: string): string => {
-        const textMap: Record<string, string> = {
-            ATTENDANCE: '시간 약속을 잘 지켜요',
-            COMMUNICATION: '소통이 원활해요',
-            COOPERATION: '협조적이에요',
-            INTUITION: '눈치가 빨라요',
-            LEADERSHIP: '리더십이 좋아요',
-            LATE: '늦게 도착했어요',
-            PASSIVE: '소극적이에요',
-            SELF_CENTERED: '자기중심적이에요',
-            OFF_TOPIC: '자주 딴소리를 해요',
-            RUDE: '무례해요',
-        }
-        return textMap[keyword] || keyword
-    }
-
     // 멤버별 리뷰 상태 초기화
     useEffect(() => {
         if (partyInfo?.acceptedPartyMembers) {
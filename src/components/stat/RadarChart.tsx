@@ -10,6 +10,7 @@ import {
   Legend,
 } from "chart.js";
 import { Radar } from "react-chartjs-2";
+import type { RefObject } from "react";
 
 ChartJS.register(
   RadialLinearScale,
@@ -27,9 +28,13 @@ interface RadarItem {
 
 interface RadarChartProps {
   data: RadarItem[];
+  // 카드 이미지로 내보낼 때 차트 캔버스를 가져오기 위한 ref
+  chartRef?: RefObject<ChartJS<"radar"> | null>;
+  // 인쇄나 이미지로 내보낼 때는 애니메이션 없이 바로 그린다
+  animated?: boolean;
 }
 
-export function RadarChart({ data }: RadarChartProps) {
+export function RadarChart({ data, chartRef, animated = true }: RadarChartProps) {
   const labels = data.map((item) => item.label);
   const values = data.map((item) => item.value);
 
@@ -47,6 +52,7 @@ export function RadarChart({ data }: RadarChartProps) {
   };
 
   const options = {
+    ...(animated ? {} : { animation: false as const }),
     scales: {
       r: {
         angleLines: {
@@ -63,5 +69,5 @@ export function RadarChart({ data }: RadarChartProps) {
     },
   };
 
-  return <Radar data={chartData} options={options} />;
+  return <Radar ref={chartRef} data={chartData} options={options} />;
 }
@@ -1,4 +1,5 @@
 import client from '@/lib/backend/client'
+import { useFeedback } from '@/stores/feedback/feedback'
 import { XMarkIcon } from '@heroicons/react/24/outline'
 import { useState } from 'react'
 
@@ -20,6 +21,7 @@ const TAGS: Tag[] = [
 ]
 
 export function NewThemesModal({ isOpen, onClose, onThemeCreated }: NewThemesModalProps) {
+    const { toast } = useFeedback()
     const [newThemeName, setNewThemeName] = useState('')
     const [newThemeStoreName, setNewThemeStoreName] = useState('')
     const [newThemeThumbnailUrl, setNewThemeThumbnailUrl] = useState('')
@@ -28,17 +30,17 @@ export function NewThemesModal({ isOpen, onClose, onThemeCreated }: NewThemesMod
 
     const createNewTheme = async () => {
         if (!newThemeName.trim()) {
-            alert('테마 이름을 입력해주세요.')
+            toast.error('테마 이름을 입력해주세요.')
             return
         }
 
         if (!newThemeStoreName.trim()) {
-            alert('매장 이름을 입력해주세요.')
+            toast.error('매장 이름을 입력해주세요.')
             return
         }
 
         if (selectedTagIds.length === 0) {
-            alert('태그를 선택해주세요.')
+            toast.error('태그를 선택해주세요.')
             return
         }
 
@@ -76,11 +78,11 @@ export function NewThemesModal({ isOpen, onClose, onThemeCreated }: NewThemesMod
                 setNewThemeThumbnailUrl('')
                 setSelectedTagIds([])
 
-                alert('테마가 성공적으로 등록되었습니다.')
+                toast.success('테마가 성공적으로 등록되었습니다.')
             }
         } catch (error) {
             console.error('Error creating theme:', error)
-            alert('테마 등록에 실패했습니다.')
+            toast.error('테마 등록에 실패했습니다.')
         } finally {
             setIsCreatingTheme(false)
         }
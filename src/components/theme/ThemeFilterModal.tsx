@@ -10,7 +10,7 @@ interface Participant {
     name: string
 }
 
-interface FilterValues {
+export interface FilterValues {
     regions: string[] // 지역 ID 배열
     genres: number[] // 장르 ID 배열
     participant: string // 참여 인원
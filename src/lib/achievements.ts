@@ -0,0 +1,199 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+
+// 탈출일지로 얻는 업적
+// 업적은 규칙(rule)만 선언하고, 판정은 일지 목록을 받아 계산하는 순수 함수로 한다
+
+type DiaryListDto = components['schemas']['DiaryListDto']
+type EscapeProfileSummaryDto = components['schemas']['EscapeProfileSummaryDto']
+
+// 일지 한 개가 조건에 맞는지
+export type DiaryCondition = {
+    success?: boolean
+    noHint?: boolean
+    minRemainingMinutes?: number // 테마 제한 시간보다 이만큼 이상 일찍 탈출
+    tag?: string
+}
+
+export type AchievementRule =
+    | { type: 'count'; where?: DiaryCondition; min: number } // 조건에 맞는 일지 n개
+    | { type: 'monthly'; where?: DiaryCondition; min: number } // 한 달 안에 조건에 맞는 일지 n개
+    | { type: 'tagCleared'; tag: string; minThemes: number } // 해당 장르 테마를 n개 이상 하고 모두 한 번은 성공
+    | { type: 'sinceFirstEscape'; days: number } // 첫 탈출 후 n일
+
+export type Achievement = {
+    id: string
+    icon: string
+    title: string
+    description: string
+    rule: AchievementRule
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first-escape',
+        icon: '🔑',
+        title: '첫 탈출',
+        description: '처음으로 탈출에 성공했어요',
+        rule: { type: 'count', where: { success: true }, min: 1 },
+    },
+    {
+        id: 'escapes-10',
+        icon: '🚪',
+        title: '방탈출 10회',
+        description: '방탈출을 10번 했어요',
+        rule: { type: 'count', min: 10 },
+    },
+    {
+        id: 'escapes-50',
+        icon: '🏃',
+        title: '방탈출 50회',
+        description: '방탈출을 50번 했어요',
+        rule: { type: 'count', min: 50 },
+    },
+    {
+        id: 'escapes-100',
+        icon: '🏆',
+        title: '방탈출 100회',
+        description: '방탈출을 100번 했어요',
+        rule: { type: 'count', min: 100 },
+    },
+    {
+        id: 'no-hint-10',
+        icon: '💡',
+        title: '노힌트 마스터',
+        description: '힌트 없이 10번 탈출했어요',
+        rule: { type: 'count', where: { success: true, noHint: true }, min: 10 },
+    },
+    {
+        id: 'horror-cleared',
+        icon: '👻',
+        title: '공포 정복',
+        description: '공포 테마 5개 이상을 모두 탈출했어요',
+        rule: { type: 'tagCleared', tag: '공포', minThemes: 5 },
+    },
+    {
+        id: 'monthly-5',
+        icon: '🔥',
+        title: '불타는 한 달',
+        description: '한 달에 5번 방탈출을 했어요',
+        rule: { type: 'monthly', min: 5 },
+    },
+    {
+        id: 'time-left-10',
+        icon: '⏱️',
+        title: '여유로운 탈출',
+        description: '제한 시간을 10분 이상 남기고 탈출했어요',
+        rule: { type: 'count', where: { success: true, minRemainingMinutes: 10 }, min: 1 },
+    },
+    {
+        id: 'anniversary',
+        icon: '🎂',
+        title: '방탈출 1주년',
+        description: '첫 방탈출 후 1년이 지났어요',
+        rule: { type: 'sinceFirstEscape', days: 365 },
+    },
+]
+
+export type AchievementContext = {
+    runtimes?: Record<number, number> // 테마 ID → 제한 시간(분), 남은 시간 조건에 필요
+    today?: Date
+}
+
+export type AchievementResult = {
+    achievement: Achievement
+    unlocked: boolean
+    current: number
+    target: number
+}
+
+const matches = (diary: DiaryListDto, where: DiaryCondition = {}, { runtimes = {} }: AchievementContext) => {
+    if (where.success !== undefined && !!diary.escapeResult !== where.success) return false
+    if (where.noHint && diary.hintCount) return false
+    if (where.tag && !diary.tags?.includes(where.tag)) return false
+    if (where.minRemainingMinutes !== undefined) {
+        const runtime = diary.themeId !== undefined ? runtimes[diary.themeId] : undefined
+        if (!runtime || !diary.elapsedTime) return false
+        if (runtime * 60 - diary.elapsedTime < where.minRemainingMinutes * 60) return false
+    }
+    return true
+}
+
+// 규칙의 진행도 (current가 target 이상이면 달성)
+const progress = (rule: AchievementRule, diaries: DiaryListDto[], context: AchievementContext) => {
+    switch (rule.type) {
+        case 'count':
+            return {
+                current: diaries.filter((diary) => matches(diary, rule.where, context)).length,
+                target: rule.min,
+            }
+        case 'monthly': {
+            const months = new Map<string, number>()
+            diaries.forEach((diary) => {
+                if (!diary.escapeDate || !matches(diary, rule.where, context)) return
+                const month = diary.escapeDate.slice(0, 7)
+                months.set(month, (months.get(month) ?? 0) + 1)
+            })
+            return { current: Math.max(0, ...months.values()), target: rule.min }
+        }
+        case 'tagCleared': {
+            // 테마별로 한 번이라도 성공했는지
+            const themes = new Map<string, boolean>()
+            diaries.forEach((diary) => {
+                if (!diary.tags?.includes(rule.tag)) return
+                const key = String(diary.themeId ?? diary.themeName)
+                themes.set(key, !!themes.get(key) || !!diary.escapeResult)
+            })
+            const cleared = [...themes.values()].filter(Boolean).length
+            // 실패한 채로 남은 테마가 있으면 달성하지 못한다
+            return {
+                current: cleared === themes.size ? cleared : Math.min(cleared, rule.minThemes - 1),
+                target: rule.minThemes,
+            }
+        }
+        case 'sinceFirstEscape': {
+            const dates = diaries.flatMap((diary) => (diary.escapeDate ? [diary.escapeDate] : [])).sort()
+            const days = dates.length ? differenceInCalendarDays(context.today ?? new Date(), parseISO(dates[0])) : 0
+            return { current: Math.max(0, days), target: rule.days }
+        }
+    }
+}
+
+export function evaluateAchievements(diaries: DiaryListDto[], context: AchievementContext = {}): AchievementResult[] {
+    return ACHIEVEMENTS.map((achievement) => {
+        const { current, target } = progress(achievement.rule, diaries, context)
+        return { achievement, unlocked: current >= target, current: Math.min(current, target), target }
+    })
+}
+
+// 저장 전후 일지 목록을 비교해 새로 달성한 업적
+export function getNewAchievements(
+    before: DiaryListDto[],
+    after: DiaryListDto[],
+    context: AchievementContext = {},
+): Achievement[] {
+    const unlockedBefore = new Set(
+        evaluateAchievements(before, context)
+            .filter((result) => result.unlocked)
+            .map((result) => result.achievement.id),
+    )
+    return evaluateAchievements(after, context)
+        .filter((result) => result.unlocked && !unlockedBefore.has(result.achievement.id))
+        .map((result) => result.achievement)
+}
+
+// 다른 사용자의 업적 (프로필 요약 통계만 있으므로 횟수로 판정할 수 있는 업적만)
+export function evaluateSummaryAchievements(summary: EscapeProfileSummaryDto): Achievement[] {
+    const total = summary.totalCount ?? 0
+    const successCount = Math.round((total * (summary.successRate ?? 0)) / 100)
+    const noHintCount = Math.round((total * (summary.noHintSuccessRate ?? 0)) / 100)
+
+    return ACHIEVEMENTS.filter(({ rule }) => {
+        if (rule.type !== 'count') return false
+
+        const { success, noHint, tag, minRemainingMinutes } = rule.where ?? {}
+        if (tag || minRemainingMinutes !== undefined || success === false) return false
+        const count = noHint ? noHintCount : success ? successCount : total
+        return count >= rule.min
+    })
+}
@@ -0,0 +1,86 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+
+// 모임 참가 신청자 정렬/필터 (모임장이 누구를 승인할지 고를 때 사용)
+// 신청자마다 불러온 프로필과 후기 통계로 판단하며, 아직 못 불러온 값은 정렬에서 뒤로 보낸다
+
+type PartyMemberSummaries = components['schemas']['PartyMemberSummaries']
+type PartyDetailResponse = components['schemas']['PartyDetailResponse']
+type OtherMemberProfileResponse = components['schemas']['OtherMemberProfileResponse']
+type MemberReviewResponse = components['schemas']['MemberReviewResponse']
+
+// 방탈출 횟수가 이보다 적으면 초심자로 본다
+export const ROOKIE_MAX_ESCAPES = 5
+
+export type ApplicantInsight = {
+    member: PartyMemberSummaries
+    order: number // 신청 순서
+    profile?: OtherMemberProfileResponse
+    review?: MemberReviewResponse
+}
+
+export type ApplicantSort = 'applied' | 'manner' | 'escapes' | 'noShow'
+export type ApplicantFilter = 'all' | 'noShowFree' | 'experienced' | 'rookie'
+
+export const APPLICANT_SORTS: { key: ApplicantSort; label: string }[] = [
+    { key: 'applied', label: '신청순' },
+    { key: 'manner', label: '매너 점수 높은 순' },
+    { key: 'escapes', label: '방탈출 많은 순' },
+    { key: 'noShow', label: '노쇼 적은 순' },
+]
+
+export const APPLICANT_FILTERS: { key: ApplicantFilter; label: string }[] = [
+    { key: 'all', label: '전체' },
+    { key: 'noShowFree', label: '노쇼 없음' },
+    { key: 'experienced', label: '초심자 제외' },
+    { key: 'rookie', label: '초심자만' },
+]
+
+// 프로필을 아직 못 불러왔으면 null
+export const isRookie = ({ profile }: ApplicantInsight) =>
+    profile?.stats ? (profile.stats.totalCount ?? 0) < ROOKIE_MAX_ESCAPES : null
+
+const matchesFilter = (insight: ApplicantInsight, filter: ApplicantFilter) => {
+    switch (filter) {
+        case 'all':
+            return true
+        case 'noShowFree':
+            return !!insight.review && !insight.review.noShowCount
+        case 'experienced':
+            return isRookie(insight) === false
+        case 'rookie':
+            return isRookie(insight) === true
+    }
+}
+
+// 큰 값이 앞에 오도록 비교할 값 (모르는 값은 undefined)
+const sortValue = ({ profile, review }: ApplicantInsight, sort: ApplicantSort) => {
+    switch (sort) {
+        case 'manner':
+            return profile?.profile?.mannerScore
+        case 'escapes':
+            return profile?.stats?.totalCount
+        case 'noShow':
+            return review ? -(review.noShowCount ?? 0) : undefined
+        case 'applied':
+            return undefined
+    }
+}
+
+export function rankApplicants(insights: ApplicantInsight[], sort: ApplicantSort, filter: ApplicantFilter) {
+    return insights
+        .filter((insight) => matchesFilter(insight, filter))
+        .sort((a, b) => {
+            const valueA = sortValue(a, sort)
+            const valueB = sortValue(b, sort)
+            if (valueA !== valueB) {
+                if (valueA === undefined) return 1
+                if (valueB === undefined) return -1
+                return valueB - valueA
+            }
+            return a.order - b.order
+        })
+}
+
+// 더 승인할 수 있는 인원
+export const getRemainingSlots = (party: PartyDetailResponse) =>
+    Math.max(0, (party.totalParticipants ?? 0) - (party.acceptedParticipantsCount ?? 0))
@@ -0,0 +1,70 @@
+import { components } from '@/lib/backend/apiV1/schema'
+import { alarmBaseUrl } from '@/lib/backend/alarmStream'
+import client, { unwrap } from '@/lib/backend/client'
+
+type AlarmResponse = components['schemas']['AlarmResponse']
+
+// 서버가 돌려준 이동 경로를 프론트 라우트로 바꾼다
+// - 절대 URL이면 경로만 사용 (주소가 잘못되었으면 null)
+// - API 경로(/api/v1/...)면 같은 대상을 보여주는 화면으로 변환
+const toFrontPath = (redirectUrl: string) => {
+    let path = redirectUrl.trim()
+    if (!path) return null
+
+    if (/^https?:\/\//.test(path)) {
+        try {
+            const url = new URL(path)
+            path = url.pathname + url.search
+        } catch {
+            return null
+        }
+    }
+
+    const partyMatch = path.match(/^\/api\/v1\/parties\/(\d+)/)
+    if (partyMatch) return `/parties/${partyMatch[1]}`
+
+    const boardMatch = path.match(/^\/api\/v1\/(?:admin\/)?boards\/(\d+)/)
+    if (boardMatch) return `/my/inquiry/${boardMatch[1]}`
+
+    const messageMatch = path.match(/^\/api\/v1\/messages\/(\d+)/)
+    if (messageMatch) return `/my/messages?messageId=${messageMatch[1]}`
+
+    if (path.startsWith('/api/')) return null
+    return path.startsWith('/') ? path : null
+}
+
+// 리다이렉트 API가 실패하거나 경로를 주지 않을 때 알림 종류와 relId로 이동할 화면을 정한다
+export const getFallbackAlarmPath = (alarm: AlarmResponse) => {
+    switch (alarm.alarmType) {
+        case 'MESSAGE':
+            return alarm.relId ? `/my/messages?messageId=${alarm.relId}` : '/my/messages'
+        case 'PARTY_APPLY':
+        case 'PARTY_STATUS':
+            return alarm.relId ? `/parties/${alarm.relId}` : '/my/history'
+        case 'POST_REPLY':
+        case 'ANSWER_COMMENT':
+            return alarm.relId ? `/my/inquiry/${alarm.relId}` : '/my/inquiry'
+        default:
+            return null
+    }
+}
+
+// 알림을 눌렀을 때 이동할 화면 경로
+export async function resolveAlarmPath(alarm: AlarmResponse) {
+    if (!alarm.id) return getFallbackAlarmPath(alarm)
+
+    const { data, error } = await unwrap(
+        client.GET('/alarms/{id}/redirect', {
+            baseUrl: alarmBaseUrl,
+            params: {
+                path: { id: alarm.id },
+            },
+        }),
+    )
+
+    if (error) {
+        console.error('알림 이동 경로 조회 실패:', error)
+    }
+
+    return (data && toFrontPath(data)) || getFallbackAlarmPath(alarm)
+}
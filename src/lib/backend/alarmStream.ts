@@ -0,0 +1,299 @@
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+
+type AlarmResponse = components['schemas']['AlarmResponse']
+
+// 알림 서버 주소 (로컬 모의 SSE 서버로 테스트할 때는 NEXT_PUBLIC_ALARM_API_URL만 바꾸면 된다)
+export const alarmBaseUrl = process.env.NEXT_PUBLIC_ALARM_API_URL || process.env.NEXT_PUBLIC_API_URL || ''
+
+export type AlarmStreamStatus = 'connecting' | 'open' | 'waiting' | 'offline' | 'closed'
+
+type AlarmStreamOptions = {
+    onAlarm: (alarm: AlarmResponse) => void
+    // 재연결 후 놓친 알림을 다시 받아온 뒤 호출 (읽지 않은 알림 개수 갱신 등)
+    onResync?: () => void
+    onStatusChange?: (status: AlarmStreamStatus) => void
+}
+
+// 탭 간 메시지: 연결을 가진 탭(리더)이 받은 알림과 상태를 나머지 탭에 전달한다
+type AlarmChannelMessage =
+    | { type: 'alarm'; alarm: AlarmResponse }
+    | { type: 'resync' }
+    | { type: 'status'; status: AlarmStreamStatus }
+    | { type: 'wake' }
+
+const CHANNEL_NAME = 'alarm-stream'
+const LEADER_LOCK_NAME = 'alarm-stream-leader'
+
+// 재연결 대기 시간: 1초부터 2배씩 늘려 최대 1분, 여러 탭/사용자가 동시에 몰리지 않도록 지터를 섞는다
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 60000
+const RESYNC_PAGE_SIZE = 20
+const MAX_SEEN_ALARM_IDS = 200
+
+// 화면에서 받은 알림에 바로 반응해야 할 때 구독 (예: 모임 상세의 신청/상태 알림)
+type AlarmListener = (alarm: AlarmResponse) => void
+const alarmListeners = new Set<AlarmListener>()
+
+export function subscribeAlarms(listener: AlarmListener) {
+    alarmListeners.add(listener)
+    return () => {
+        alarmListeners.delete(listener)
+    }
+}
+
+export const getReconnectDelay = (attempt: number) => {
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt)
+    return delay / 2 + Math.random() * (delay / 2)
+}
+
+// 알림 SSE 구독
+// - 여러 탭이 열려 있어도 Web Locks로 뽑힌 한 탭만 EventSource를 열고, BroadcastChannel로 알림을 나눠준다
+// - 리더 탭이 닫히면 잠금이 풀리면서 다른 탭이 이어받는다
+// - 두 API를 지원하지 않는 브라우저에서는 탭마다 직접 연결한다
+export function createAlarmStream({ onAlarm, onResync, onStatusChange }: AlarmStreamOptions) {
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+    let eventSource: EventSource | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let reconnectAttempt = 0
+    let isLeader = false
+    let stopped = false
+    let releaseLeadership: (() => void) | null = null
+    // 이 탭이 알고 있는 가장 최근 알림 (null이면 아직 기준이 없음)
+    let lastAlarmId: number | null = null
+    let baseline: Promise<void> | null = null
+    const seenAlarmIds = new Set<number>()
+
+    // 리더 탭은 직접 처리하고 다른 탭에도 전달한다
+    const publish = (message: AlarmChannelMessage) => {
+        handleMessage(message)
+        channel?.postMessage(message)
+    }
+
+    const handleMessage = (message: AlarmChannelMessage) => {
+        switch (message.type) {
+            case 'alarm':
+                deliverAlarm(message.alarm)
+                break
+            case 'resync':
+                onResync?.()
+                break
+            case 'status':
+                onStatusChange?.(message.status)
+                break
+            case 'wake':
+                // 다른 탭이 화면에 보이게 되면 재연결 대기를 건너뛴다
+                if (isLeader && reconnectTimer) reconnectNow()
+                break
+        }
+    }
+
+    // 재연결 후 다시 받아온 알림이 중복으로 전달되지 않도록 걸러낸다
+    const deliverAlarm = (alarm: AlarmResponse) => {
+        if (alarm.id !== undefined) {
+            if (seenAlarmIds.has(alarm.id)) return
+            seenAlarmIds.add(alarm.id)
+            if (seenAlarmIds.size > MAX_SEEN_ALARM_IDS) {
+                seenAlarmIds.delete(seenAlarmIds.values().next().value as number)
+            }
+            lastAlarmId = Math.max(lastAlarmId ?? 0, alarm.id)
+        }
+        onAlarm(alarm)
+        alarmListeners.forEach((listener) => listener(alarm))
+    }
+
+    const setStatus = (status: AlarmStreamStatus) => {
+        publish({ type: 'status', status })
+    }
+
+    const closeEventSource = () => {
+        eventSource?.close()
+        eventSource = null
+    }
+
+    const clearReconnectTimer = () => {
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer)
+            reconnectTimer = null
+        }
+    }
+
+    const fetchRecentAlarms = async () => {
+        const { data, error } = await unwrap(
+            client.GET('/alarms', {
+                baseUrl: alarmBaseUrl,
+                params: {
+                    query: {
+                        pageable: {
+                            page: 0,
+                            size: RESYNC_PAGE_SIZE,
+                        },
+                    },
+                },
+            }),
+        )
+
+        if (error) {
+            console.error('최근 알림 조회 실패:', error)
+            return null
+        }
+        return data?.items ?? []
+    }
+
+    const getLatestAlarmId = (alarms: AlarmResponse[]) => Math.max(0, ...alarms.map((alarm) => alarm.id ?? 0))
+
+    // 시작할 때 이미 있던 알림을 기준으로 삼는다 (리더가 아닌 탭도 리더를 이어받을 때를 위해 기준을 정해 둔다)
+    const loadBaseline = async () => {
+        const items = await fetchRecentAlarms()
+        if (items) lastAlarmId = Math.max(lastAlarmId ?? 0, getLatestAlarmId(items))
+    }
+
+    // 연결될 때마다 (재연결, 리더 교체 포함) 기준 이후에 온 알림 중 읽지 않은 것만 다시 받아온다
+    const resync = async () => {
+        await baseline
+        const items = await fetchRecentAlarms()
+        if (!items) return
+
+        // 기준을 정하지 못했으면 이번 목록을 기준으로만 삼고 다시 전달하지 않는다
+        if (lastAlarmId === null) {
+            lastAlarmId = getLatestAlarmId(items)
+            publish({ type: 'resync' })
+            return
+        }
+
+        const since = lastAlarmId
+        items
+            .filter((alarm) => alarm.id !== undefined && alarm.id > since && !alarm.readStatus)
+            .reverse() // 오래된 알림부터 전달
+            .forEach((alarm) => publish({ type: 'alarm', alarm }))
+        publish({ type: 'resync' })
+    }
+
+    const connect = () => {
+        if (stopped || !isLeader) return
+
+        clearReconnectTimer()
+        closeEventSource()
+
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            setStatus('offline')
+            return
+        }
+
+        setStatus('connecting')
+
+        const source = new EventSource(`${alarmBaseUrl}/alarms/subscribe`, { withCredentials: true })
+        eventSource = source
+
+        // 연결 성공 이벤트
+        source.addEventListener('connect', () => {
+            reconnectAttempt = 0
+            setStatus('open')
+            resync()
+        })
+
+        // 알림 이벤트
+        source.addEventListener('alarm', (event) => {
+            try {
+                publish({ type: 'alarm', alarm: JSON.parse(event.data) as AlarmResponse })
+            } catch (error) {
+                console.error('알림 처리 중 오류 발생:', error, event.data)
+            }
+        })
+
+        // 브라우저 기본 재연결(고정 간격) 대신 직접 백오프로 재연결
+        source.onerror = () => {
+            if (eventSource !== source) return
+            closeEventSource()
+            scheduleReconnect()
+        }
+    }
+
+    const scheduleReconnect = () => {
+        if (stopped || !isLeader) return
+
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            setStatus('offline')
+            return
+        }
+
+        const delay = getReconnectDelay(reconnectAttempt++)
+        setStatus('waiting')
+        reconnectTimer = setTimeout(connect, delay)
+    }
+
+    const reconnectNow = () => {
+        reconnectAttempt = 0
+        connect()
+    }
+
+    const handleOnline = () => {
+        if (isLeader && !eventSource) reconnectNow()
+    }
+
+    const handleOffline = () => {
+        if (!isLeader) return
+        clearReconnectTimer()
+        closeEventSource()
+        setStatus('offline')
+    }
+
+    const handleVisibilityChange = () => {
+        if (document.visibilityState !== 'visible') return
+
+        if (isLeader) {
+            if (reconnectTimer) reconnectNow()
+        } else {
+            channel?.postMessage({ type: 'wake' } satisfies AlarmChannelMessage)
+        }
+    }
+
+    const becomeLeader = () => {
+        isLeader = true
+        connect()
+    }
+
+    const start = () => {
+        baseline = loadBaseline()
+        if (channel) {
+            channel.onmessage = (event: MessageEvent<AlarmChannelMessage>) => handleMessage(event.data)
+        }
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+
+        if (!channel || typeof navigator === 'undefined' || !navigator.locks) {
+            becomeLeader()
+            return
+        }
+
+        // 잠금을 얻은 탭이 리더가 되고, stop() 전까지 잠금을 놓지 않는다
+        navigator.locks
+            .request(LEADER_LOCK_NAME, () => {
+                if (stopped) return
+                becomeLeader()
+                return new Promise<void>((resolve) => {
+                    releaseLeadership = resolve
+                })
+            })
+            .catch((error) => console.error('알림 연결 리더 선출 실패:', error))
+    }
+
+    const stop = () => {
+        stopped = true
+        isLeader = false
+        clearReconnectTimer()
+        closeEventSource()
+        releaseLeadership?.()
+        releaseLeadership = null
+
+        window.removeEventListener('online', handleOnline)
+        window.removeEventListener('offline', handleOffline)
+        document.removeEventListener('visibilitychange', handleVisibilityChange)
+        channel?.close()
+        onStatusChange?.('closed')
+    }
+
+    return { start, stop }
+}
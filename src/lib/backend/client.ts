@@ -1,6 +1,7 @@
-import createClient from 'openapi-fetch'
+import createClient, { type Middleware } from 'openapi-fetch'
 
 import type { paths } from '@/lib/backend/apiV1/schema'
+import { ApiError, NetworkError, toApiError } from '@/lib/backend/errors'
 
 const baseUrl = process.env.NEXT_PUBLIC_API_URL
 
@@ -9,4 +10,68 @@ const client = createClient<paths>({
     credentials: 'include',
 })
 
+// 네트워크 오류 시 GET 요청 재시도 (조회는 여러 번 보내도 안전하므로 GET만 재시도)
+const MAX_GET_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 300
+
+const retryMiddleware: Middleware = {
+    async onError({ request, options }) {
+        if (request.method !== 'GET') {
+            return new NetworkError()
+        }
+
+        for (let attempt = 0; attempt < MAX_GET_RETRIES; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt))
+            try {
+                return await options.fetch(request.clone())
+            } catch (error) {
+                console.error(`GET 재시도 실패 (${attempt + 1}/${MAX_GET_RETRIES}):`, request.url, error)
+            }
+        }
+
+        return new NetworkError()
+    },
+}
+
+// 401/403 응답을 받으면 등록된 핸들러로 재로그인 처리를 맡긴다
+type AuthErrorHandler = (status: 401 | 403) => void
+let authErrorHandler: AuthErrorHandler | null = null
+
+export function setAuthErrorHandler(handler: AuthErrorHandler | null) {
+    authErrorHandler = handler
+}
+
+const authMiddleware: Middleware = {
+    onResponse({ response, schemaPath }) {
+        // 관리자 API의 403은 권한 부족이므로 재로그인 대상이 아님
+        if (response.status === 403 && schemaPath.startsWith('/api/v1/admin/')) return
+        if (response.status === 401 || response.status === 403) {
+            authErrorHandler?.(response.status)
+        }
+    },
+}
+
+client.use(retryMiddleware, authMiddleware)
+
+// SuccessResponse 봉투({ message, data })를 벗겨낸 결과
+export type ApiResult<T> = { data: T; error?: undefined } | { data?: undefined; error: ApiError }
+
+type EnvelopeData<T> = T extends { data?: infer D } ? D : T
+
+// client 호출 결과에서 data는 봉투 안의 값으로, error는 ApiError로 바꿔 돌려준다
+// 예) const { data, error } = await unwrap(client.GET('/api/v1/parties/{id}', { ... }))
+export async function unwrap<T>(
+    request: Promise<{ data?: T; error?: unknown; response: Response }>,
+): Promise<ApiResult<EnvelopeData<T>>> {
+    try {
+        const { data, error, response } = await request
+        if (error !== undefined || !response.ok) {
+            return { error: toApiError(response.status, error) }
+        }
+        return { data: (data as { data?: unknown } | undefined)?.data as EnvelopeData<T> }
+    } catch (error) {
+        return { error: error instanceof ApiError ? error : new NetworkError() }
+    }
+}
+
 export default client
@@ -0,0 +1,64 @@
+import client, { ApiResult, unwrap } from '@/lib/backend/client'
+import { NetworkError, toApiError } from '@/lib/backend/errors'
+
+// 탈출일지 사진 업로드
+// 업로드 API는 한 번에 한 장만 받고 응답에 주소를 주지 않으므로,
+// 한 장씩 올린 뒤 일지를 다시 조회해 방금 올린 사진 주소(imageUrl)를 얻는다
+
+const UPLOAD_TIMEOUT_MS = 60 * 1000
+
+// 진행률을 받아야 하므로 fetch 대신 XMLHttpRequest로 전송
+const sendImage = (diaryId: number, file: File, onProgress?: (percent: number) => void) =>
+    new Promise<ApiResult<void>>((resolve) => {
+        const xhr = new XMLHttpRequest()
+        xhr.open('POST', `${process.env.NEXT_PUBLIC_API_URL ?? ''}/api/v1/upload/image/${diaryId}?target=DIARY`)
+        xhr.withCredentials = true
+        xhr.timeout = UPLOAD_TIMEOUT_MS
+
+        xhr.upload.onprogress = (e) => {
+            if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100))
+        }
+        xhr.onload = () => {
+            if (xhr.status >= 200 && xhr.status < 300) {
+                resolve({ data: undefined })
+                return
+            }
+
+            let body: unknown
+            try {
+                body = JSON.parse(xhr.responseText)
+            } catch {
+                body = undefined
+            }
+            resolve({ error: toApiError(xhr.status, body) })
+        }
+        xhr.onerror = () => resolve({ error: new NetworkError() })
+        xhr.ontimeout = () => resolve({ error: new NetworkError('업로드 시간이 초과되었습니다.') })
+
+        const formData = new FormData()
+        formData.append('file', file)
+        xhr.send(formData)
+    })
+
+// 사진 한 장을 올리고 저장된 주소를 돌려준다
+export async function uploadDiaryImage(
+    diaryId: number,
+    file: File,
+    onProgress?: (percent: number) => void,
+): Promise<ApiResult<string>> {
+    const { error } = await sendImage(diaryId, file, onProgress)
+    if (error) return { error }
+
+    const result = await unwrap(
+        client.GET('/api/v1/diaries/{id}', {
+            params: {
+                path: { id: diaryId },
+            },
+        }),
+    )
+    if (result.error) return { error: result.error }
+
+    return result.data?.imageUrl
+        ? { data: result.data.imageUrl }
+        : { error: toApiError(500, { message: '업로드한 사진 주소를 찾을 수 없습니다.' }) }
+}
@@ -0,0 +1,67 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { ApiResult, unwrap } from '@/lib/backend/client'
+
+type DiaryFilterRequest = components['schemas']['DiaryFilterRequest']
+type DiaryListDto = components['schemas']['DiaryListDto']
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 목록 API는 페이지 단위로만 주므로 끝 페이지까지 이어서 받는다
+const LIST_PAGE_SIZE = 50
+// 상세 조회를 한꺼번에 너무 많이 보내지 않도록 동시에 보내는 개수를 제한
+const DETAIL_CONCURRENCY = 4
+
+// 조건에 맞는 내 탈출일지 전체 목록
+export async function fetchAllDiaries(filter: DiaryFilterRequest): Promise<ApiResult<DiaryListDto[]>> {
+    const diaries: DiaryListDto[] = []
+
+    for (let page = 0; ; page++) {
+        const { data, error } = await unwrap(
+            client.POST('/api/v1/diaries/list', {
+                body: filter,
+                params: {
+                    query: { page, pageSize: LIST_PAGE_SIZE },
+                },
+            }),
+        )
+        if (error) return { error }
+
+        diaries.push(...(data?.items ?? []))
+        if (!data?.items?.length || page + 1 >= (data.totalPages ?? 0)) break
+    }
+
+    return { data: diaries }
+}
+
+// 일지 상세 여러 개 (목록 순서대로 돌려준다)
+export async function fetchDiaryDetails(
+    ids: number[],
+    onProgress?: (loaded: number) => void,
+): Promise<ApiResult<DiaryDto[]>> {
+    const details: DiaryDto[] = new Array(ids.length)
+    let next = 0
+    let loaded = 0
+    let failed: ApiResult<DiaryDto[]> | null = null
+
+    const worker = async () => {
+        while (next < ids.length && !failed) {
+            const index = next++
+            const { data, error } = await unwrap(
+                client.GET('/api/v1/diaries/{id}', {
+                    params: {
+                        path: { id: ids[index] },
+                    },
+                }),
+            )
+            if (error) {
+                failed = { error }
+                return
+            }
+
+            details[index] = data ?? { id: ids[index] }
+            onProgress?.(++loaded)
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(DETAIL_CONCURRENCY, ids.length) }, worker))
+    return failed ?? { data: details }
+}
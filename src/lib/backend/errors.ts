@@ -0,0 +1,83 @@
+// API 오류 타입
+// 서버의 4xx/5xx 응답과 네트워크 오류를 상태별 오류 클래스로 구분한다
+export class ApiError extends Error {
+    readonly status: number
+
+    constructor(message: string, status: number) {
+        super(message)
+        this.name = 'ApiError'
+        this.status = status
+    }
+}
+
+// 400 - 입력값 오류
+export class BadRequestError extends ApiError {
+    constructor(message = '요청 내용을 다시 확인해주세요.') {
+        super(message, 400)
+        this.name = 'BadRequestError'
+    }
+}
+
+// 401 - 로그인 필요 또는 로그인 만료
+export class UnauthorizedError extends ApiError {
+    constructor(message = '로그인이 필요합니다.') {
+        super(message, 401)
+        this.name = 'UnauthorizedError'
+    }
+}
+
+// 403 - 권한 없음
+export class ForbiddenError extends ApiError {
+    constructor(message = '접근 권한이 없습니다.') {
+        super(message, 403)
+        this.name = 'ForbiddenError'
+    }
+}
+
+// 404 - 대상 없음
+export class NotFoundError extends ApiError {
+    constructor(message = '요청한 정보를 찾을 수 없습니다.') {
+        super(message, 404)
+        this.name = 'NotFoundError'
+    }
+}
+
+// 409 - 현재 상태와 충돌 (중복 신청, 이미 처리된 요청 등)
+export class ConflictError extends ApiError {
+    constructor(message = '이미 처리된 요청입니다.') {
+        super(message, 409)
+        this.name = 'ConflictError'
+    }
+}
+
+// 5xx - 서버 오류
+export class ServerError extends ApiError {
+    constructor(message = '서버 오류가 발생했습니다.', status = 500) {
+        super(message, status)
+        this.name = 'ServerError'
+    }
+}
+
+// 서버에 닿지 못한 경우 (status 0)
+export class NetworkError extends ApiError {
+    constructor(message = '네트워크 연결을 확인해주세요.') {
+        super(message, 0)
+        this.name = 'NetworkError'
+    }
+}
+
+// 응답 상태 코드와 오류 본문의 message로 오류 객체 생성
+export function toApiError(status: number, body?: unknown): ApiError {
+    const message =
+        body && typeof body === 'object' && 'message' in body && typeof body.message === 'string' && body.message
+            ? body.message
+            : undefined
+
+    if (status === 400) return new BadRequestError(message)
+    if (status === 401) return new UnauthorizedError(message)
+    if (status === 403) return new ForbiddenError(message)
+    if (status === 404) return new NotFoundError(message)
+    if (status === 409) return new ConflictError(message)
+    if (status >= 500) return new ServerError(message, status)
+    return new ApiError(message || '요청을 처리하지 못했습니다.', status)
+}
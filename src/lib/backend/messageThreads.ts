@@ -0,0 +1,136 @@
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+
+type Message = components['schemas']['MessageDto']
+
+// 받은/보낸 쪽지를 하나의 대화로 합치기 위해 어느 목록에서 왔는지 함께 보관
+// (로그인 정보에 회원 ID가 없으므로 상대방은 방향으로 구분한다)
+export type MessageDirection = 'received' | 'sent'
+export type ThreadMessage = Message & { direction: MessageDirection }
+
+export type Conversation = {
+    counterpartId: number
+    counterpartNickname: string
+    messages: ThreadMessage[] // 오래된 순
+    lastMessage: ThreadMessage
+    unreadCount: number
+}
+
+export const MESSAGE_PAGE_SIZE = 20
+
+const messageKey = (message: ThreadMessage) => `${message.direction}-${message.id}`
+
+const toTime = (message: ThreadMessage) => (message.createdAt ? new Date(message.createdAt).getTime() : 0)
+
+export const getCounterpartId = (message: ThreadMessage) =>
+    message.direction === 'received' ? message.senderId : message.receiverId
+
+const getCounterpartNickname = (message: ThreadMessage) =>
+    message.direction === 'received' ? message.senderNickname : message.receiverNickname
+
+// 새로 받은 쪽지를 기존 목록에 합친다 (같은 쪽지는 새 값으로 교체, 시간순 정렬)
+export function mergeMessages(prev: ThreadMessage[], next: ThreadMessage[]) {
+    const merged = new Map(prev.map((message) => [messageKey(message), message]))
+    next.forEach((message) => merged.set(messageKey(message), message))
+    return [...merged.values()].sort((a, b) => toTime(a) - toTime(b))
+}
+
+// 상대방별 대화로 묶고 최근 대화가 위로 오도록 정렬
+export function groupConversations(messages: ThreadMessage[]) {
+    const conversations = new Map<number, Conversation>()
+
+    messages.forEach((message) => {
+        const counterpartId = getCounterpartId(message)
+        if (counterpartId === undefined) return
+
+        const conversation = conversations.get(counterpartId) ?? {
+            counterpartId,
+            counterpartNickname: '',
+            messages: [],
+            lastMessage: message,
+            unreadCount: 0,
+        }
+
+        conversation.messages.push(message)
+        conversation.lastMessage = message
+        conversation.counterpartNickname = getCounterpartNickname(message) || conversation.counterpartNickname
+        if (message.direction === 'received' && !message.read) {
+            conversation.unreadCount++
+        }
+
+        conversations.set(counterpartId, conversation)
+    })
+
+    return [...conversations.values()].sort((a, b) => toTime(b.lastMessage) - toTime(a.lastMessage))
+}
+
+// 받은/보낸 쪽지 한 페이지 조회 (createdAt 커서 기준으로 이전 쪽지를 이어서 받는다)
+export async function fetchMessagePage(direction: MessageDirection, cursor?: string) {
+    const { data, error } = await unwrap(
+        client.GET(direction === 'received' ? '/messages/received' : '/messages/sent', {
+            params: {
+                query: {
+                    cursor,
+                    size: MESSAGE_PAGE_SIZE,
+                },
+            },
+        }),
+    )
+
+    if (error) return { error }
+
+    const messages = (data?.content ?? []).map((message) => ({ ...message, direction }))
+    return {
+        messages,
+        hasNext: data?.hasNext ?? false,
+        cursor: messages[messages.length - 1]?.createdAt,
+    }
+}
+
+// 여러 쪽지를 한 번에 읽음 처리하고 성공한 쪽지 ID를 돌려준다
+export async function markMessagesRead(ids: number[]) {
+    const results = await Promise.allSettled(
+        ids.map(async (id) => {
+            const { error } = await unwrap(
+                client.PATCH('/messages/{id}/read', {
+                    params: {
+                        path: { id },
+                    },
+                }),
+            )
+            if (error) throw error
+            return id
+        }),
+    )
+
+    results.forEach((result) => {
+        if (result.status === 'rejected') {
+            console.error('쪽지 읽음 처리 중 오류:', result.reason)
+        }
+    })
+    return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))
+}
+
+// 여러 쪽지를 한 번에 삭제하고 성공한 쪽지 ID를 돌려준다
+export async function deleteMessages(ids: number[]) {
+    const results = await Promise.allSettled(
+        ids.map(async (id) => {
+            const { error } = await unwrap(
+                client.DELETE('/messages/{id}', {
+                    params: {
+                        path: { id },
+                    },
+                }),
+            )
+            if (error) throw error
+            return id
+        }),
+    )
+
+    results.forEach((result) => {
+        if (result.status === 'rejected') {
+            console.error('쪽지 삭제 중 오류:', result.reason)
+        }
+    })
+    return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))
+}
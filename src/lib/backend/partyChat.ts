@@ -0,0 +1,167 @@
+import { subscribeAlarms } from '@/lib/backend/alarmStream'
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { fetchMessagePage, markMessagesRead, MessageDirection, ThreadMessage } from '@/lib/backend/messageThreads'
+
+type AlarmResponse = components['schemas']['AlarmResponse']
+
+// 모임 채팅 참가자 (모임장 + 참가 확정 멤버)
+export type PartyChatMember = {
+    id: number
+    nickname?: string
+}
+
+export type PartyChatMessage = {
+    key: string // 같은 채팅을 여러 명에게 보낸 쪽지를 하나로 묶는 값
+    senderId?: number
+    senderNickname?: string
+    content: string
+    createdAt?: string
+    mine: boolean
+}
+
+export type PartyChatSendResult = {
+    sentCount: number
+    failedCount: number
+}
+
+// 모임 채팅 전송 방식
+// 지금은 쪽지 API로 참가자마다 쪽지를 보내지만, 채팅 서버가 생기면 같은 모양으로 바꿔 끼운다
+export interface PartyChatTransport {
+    load: (partyId: number) => Promise<PartyChatMessage[]>
+    send: (partyId: number, recipients: PartyChatMember[], content: string) => Promise<PartyChatSendResult>
+    subscribe: (partyId: number, onChange: () => void) => () => void
+}
+
+// 채팅 쪽지 머리말: [모임#{모임 ID}:{채팅 키}] 내용
+const CHAT_PREFIX_PATTERN = /^\[모임#(\d+):([a-z0-9]+)\] ([\s\S]*)$/
+// 최근 채팅만 보여주기 위해 받은/보낸 쪽지를 몇 페이지까지만 훑는다
+const MAX_MESSAGE_PAGES = 3
+
+// 알림 내용처럼 앞뒤에 다른 글이 붙어 있어도 모임 채팅 머리말을 찾는다
+const CHAT_PREFIX_SEARCH_PATTERN = /\[모임#(\d+):[a-z0-9]+\]/
+
+const createChatKey = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+
+export function formatPartyChatContent(partyId: number, key: string, content: string) {
+    return `[모임#${partyId}:${key}] ${content}`
+}
+
+// 쪽지가 모임 채팅이면 모임 ID, 채팅 키, 본문으로 나눈다
+export function parsePartyChatContent(content?: string) {
+    const match = content?.match(CHAT_PREFIX_PATTERN)
+    if (!match) return null
+    return { partyId: Number(match[1]), key: match[2], content: match[3] }
+}
+
+// 쪽지 알림이 어느 모임의 채팅인지 (채팅이 아니면 null)
+// 알림 내용에 머리말이 없으면 알림의 쪽지를 한 번 조회해 확인한다
+const getAlarmChatPartyId = async (alarm: AlarmResponse) => {
+    const found = `${alarm.title ?? ''} ${alarm.content ?? ''}`.match(CHAT_PREFIX_SEARCH_PATTERN)
+    if (found) return Number(found[1])
+    if (!alarm.relId) return null
+
+    const { data } = await unwrap(
+        client.GET('/messages/{id}', {
+            params: {
+                path: { id: alarm.relId },
+            },
+        }),
+    )
+    return parsePartyChatContent(data?.content)?.partyId ?? null
+}
+
+const fetchRecentMessages = async (direction: MessageDirection) => {
+    const messages: ThreadMessage[] = []
+    let cursor: string | undefined
+
+    for (let page = 0; page < MAX_MESSAGE_PAGES; page++) {
+        const result = await fetchMessagePage(direction, cursor)
+        if (result.error) {
+            console.error('모임 채팅 쪽지 조회 실패:', result.error)
+            break
+        }
+
+        messages.push(...(result.messages ?? []))
+        if (!result.hasNext || !result.cursor) break
+        cursor = result.cursor
+    }
+
+    return messages
+}
+
+export const messageChatTransport: PartyChatTransport = {
+    async load(partyId) {
+        const [received, sent] = await Promise.all([fetchRecentMessages('received'), fetchRecentMessages('sent')])
+        const chats = new Map<string, PartyChatMessage>()
+        const unreadIds: number[] = []
+
+        for (const message of [...received, ...sent]) {
+            const parsed = parsePartyChatContent(message.content)
+            if (!parsed || parsed.partyId !== partyId) continue
+
+            // 채팅으로 본 쪽지가 쪽지함에 안 읽은 쪽지로 쌓이지 않도록 읽음 처리한다
+            if (message.direction === 'received' && !message.read && message.id !== undefined) {
+                unreadIds.push(message.id)
+            }
+
+            const mine = message.direction === 'sent'
+            const key = `${mine ? 'me' : message.senderId}-${parsed.key}`
+            if (chats.has(key)) continue
+
+            chats.set(key, {
+                key,
+                senderId: message.senderId,
+                senderNickname: message.senderNickname,
+                content: parsed.content,
+                createdAt: message.createdAt,
+                mine,
+            })
+        }
+
+        if (unreadIds.length > 0) markMessagesRead(unreadIds)
+
+        return [...chats.values()].sort(
+            (a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime(),
+        )
+    },
+
+    async send(partyId, recipients, content) {
+        const body = formatPartyChatContent(partyId, createChatKey(), content)
+        const results = await Promise.allSettled(
+            recipients.map(async (recipient) => {
+                const { error } = await unwrap(
+                    client.POST('/messages', {
+                        body: {
+                            receiverId: recipient.id,
+                            content: body,
+                        },
+                    }),
+                )
+                if (error) throw error
+            }),
+        )
+
+        results.forEach((result) => {
+            if (result.status === 'rejected') {
+                console.error('모임 채팅 전송 중 오류:', result.reason)
+            }
+        })
+        const failedCount = results.filter((result) => result.status === 'rejected').length
+        return { sentCount: results.length - failedCount, failedCount }
+    },
+
+    // 이 모임의 채팅 쪽지 알림이 왔을 때만 다시 불러온다
+    subscribe(partyId, onChange) {
+        let active = true
+        const unsubscribe = subscribeAlarms(async (alarm) => {
+            if (alarm.alarmType !== 'MESSAGE') return
+            if ((await getAlarmChatPartyId(alarm)) === partyId && active) onChange()
+        })
+
+        return () => {
+            active = false
+            unsubscribe()
+        }
+    },
+}
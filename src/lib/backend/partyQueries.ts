@@ -0,0 +1,102 @@
+'use client'
+
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { getQueryData, setQueryData, updateQueries } from '@/lib/backend/queryCache'
+
+type PartyDetailResponse = components['schemas']['PartyDetailResponse']
+type PartySummaryResponse = components['schemas']['PartySummaryResponse']
+type PartyMainResponse = components['schemas']['PartyMainResponse']
+type PageDtoMyJoinedPartySummaryResponse = components['schemas']['PageDtoMyJoinedPartySummaryResponse']
+type PartyStatus = NonNullable<components['schemas']['MyJoinedPartySummaryResponse']['status']>
+
+export const partyDetailKey = (partyId: number) => ['/api/v1/parties/{id}', { id: partyId }] as const
+
+// 모임 목록 화면의 무한 스크롤 목록 (검색 조건이 바뀌면 화면에서 목록 전체를 다시 채운다)
+export const partySearchKey = ['/api/v1/parties/search'] as const
+
+// 내 모임 기록 (전체 데이터를 한 번에 가져온다)
+export const partyHistoryQuery = { page: 0, size: 100 }
+export const partyHistoryKey = ['/api/v1/parties/joins/me', partyHistoryQuery] as const
+
+export const fetchPartyHistory = () =>
+    unwrap(client.GET('/api/v1/parties/joins/me', { params: { query: partyHistoryQuery } }))
+
+// 모임 상세 응답에는 모집 상태가 없으므로 내 모임 기록에서 상태를 찾는다 (캐시도 함께 갱신)
+export async function fetchMyPartyStatus(partyId: number): Promise<PartyStatus | null> {
+    const { data, error } = await fetchPartyHistory()
+    if (error || !data) return null
+
+    setQueryData(partyHistoryKey, data)
+    return data.items?.find((party) => party.partyId === partyId)?.status ?? null
+}
+
+// 참가 인원이 바뀌면 모임 목록, 내 모임 기록, 메인 캐러셀 캐시에도 같은 값을 반영한다
+export function syncPartyParticipantsCount(partyId: number, acceptedCount: number) {
+    updateQueries<PartySummaryResponse[]>('/api/v1/parties/search', (parties) =>
+        parties.some((party) => party.partyId === partyId && party.acceptedParticipantsCount !== acceptedCount)
+            ? parties.map((party) =>
+                  party.partyId === partyId ? { ...party, acceptedParticipantsCount: acceptedCount } : party,
+              )
+            : parties,
+    )
+
+    updateQueries<PageDtoMyJoinedPartySummaryResponse>('/api/v1/parties/joins/me', (page) =>
+        page.items?.some((party) => party.partyId === partyId && party.acceptedParticipantsCount !== acceptedCount)
+            ? {
+                  ...page,
+                  items: page.items.map((party) =>
+                      party.partyId === partyId ? { ...party, acceptedParticipantsCount: acceptedCount } : party,
+                  ),
+              }
+            : page,
+    )
+
+    // 메인 API는 필드 이름이 acceptedParticipantCount (단수)
+    updateQueries<PartyMainResponse[]>('/api/v1/parties/main', (parties) =>
+        parties.some((party) => party.id === partyId && party.acceptedParticipantCount !== acceptedCount)
+            ? parties.map((party) =>
+                  party.id === partyId ? { ...party, acceptedParticipantCount: acceptedCount } : party,
+              )
+            : parties,
+    )
+}
+
+// 모임 상세 캐시를 수정하고, 요청이 실패했을 때 되돌릴 수 있는 함수를 돌려준다
+const updatePartyDetail = (partyId: number, updater: (party: PartyDetailResponse) => PartyDetailResponse) => {
+    const key = partyDetailKey(partyId)
+    const previous = getQueryData<PartyDetailResponse>(key)
+    if (!previous) return () => {}
+
+    const next = updater(previous)
+    setQueryData(key, next)
+    syncPartyParticipantsCount(partyId, next.acceptedParticipantsCount || 0)
+
+    return () => {
+        setQueryData(key, previous)
+        syncPartyParticipantsCount(partyId, previous.acceptedParticipantsCount || 0)
+    }
+}
+
+// 참가 요청 승인: 신청자를 참가자 목록으로 옮기고 참가 인원을 늘린다
+export function acceptPartyMember(partyId: number, memberId: number) {
+    return updatePartyDetail(partyId, (party) => {
+        const member = party.AppliedPartyMembers?.find((applicant) => applicant.id === memberId)
+        if (!member) return party
+
+        return {
+            ...party,
+            AppliedPartyMembers: party.AppliedPartyMembers?.filter((applicant) => applicant.id !== memberId),
+            acceptedPartyMembers: [...(party.acceptedPartyMembers || []), member],
+            acceptedParticipantsCount: (party.acceptedParticipantsCount || 0) + 1,
+        }
+    })
+}
+
+// 참가 요청 거절: 신청자 목록에서만 뺀다
+export function rejectPartyMember(partyId: number, memberId: number) {
+    return updatePartyDetail(partyId, (party) => ({
+        ...party,
+        AppliedPartyMembers: party.AppliedPartyMembers?.filter((applicant) => applicant.id !== memberId),
+    }))
+}
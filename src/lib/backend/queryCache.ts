@@ -0,0 +1,192 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+
+import type { paths } from '@/lib/backend/apiV1/schema'
+import type { ApiResult } from '@/lib/backend/client'
+import type { ApiError } from '@/lib/backend/errors'
+
+// 캐시 키는 openapi 경로 + 요청 파라미터
+// 예) ['/api/v1/parties/{id}', { id: 3 }], ['/api/v1/parties/main']
+export type QueryPath = keyof paths
+export type QueryKey = readonly [path: QueryPath, params?: unknown]
+
+type QuerySnapshot<T> = {
+    data?: T
+    error?: ApiError
+    stale: boolean
+    fetching: boolean
+}
+
+type QueryEntry = {
+    key: QueryKey
+    data?: unknown
+    error?: ApiError
+    stale: boolean
+    promise?: Promise<void>
+    fetcher?: () => Promise<ApiResult<unknown>>
+    listeners: Set<() => void>
+    // useSyncExternalStore는 스냅샷 객체가 바뀌었을 때만 다시 렌더링하므로 변경 시점에만 새로 만든다
+    snapshot: QuerySnapshot<unknown>
+}
+
+const EMPTY_SNAPSHOT: QuerySnapshot<never> = { stale: true, fetching: false }
+
+const entries = new Map<string, QueryEntry>()
+
+// 파라미터 객체의 키 순서가 달라도 같은 키가 되도록 정렬해서 직렬화
+const hashQueryKey = (key: QueryKey) =>
+    JSON.stringify(key, (_, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+            : value,
+    )
+
+const getEntry = (key: QueryKey) => {
+    const hash = hashQueryKey(key)
+    let entry = entries.get(hash)
+    if (!entry) {
+        entry = { key, stale: true, listeners: new Set(), snapshot: EMPTY_SNAPSHOT }
+        entries.set(hash, entry)
+    }
+    return entry
+}
+
+const notify = (entry: QueryEntry) => {
+    entry.snapshot = { data: entry.data, error: entry.error, stale: entry.stale, fetching: !!entry.promise }
+    entry.listeners.forEach((listener) => listener())
+}
+
+const fetchEntry = (entry: QueryEntry) => {
+    if (entry.promise) return entry.promise
+    if (!entry.fetcher) return Promise.resolve()
+
+    entry.promise = entry
+        .fetcher()
+        .then(({ data, error }) => {
+            if (error) {
+                entry.error = error
+            } else {
+                entry.data = data
+                entry.error = undefined
+                entry.stale = false
+            }
+        })
+        .finally(() => {
+            entry.promise = undefined
+            notify(entry)
+        })
+
+    notify(entry)
+    return entry.promise
+}
+
+// 캐시된 값 조회
+export function getQueryData<T>(key: QueryKey) {
+    return entries.get(hashQueryKey(key))?.data as T | undefined
+}
+
+// 캐시 값 직접 수정 (낙관적 업데이트, 서버 응답 반영 등)
+export function setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T | undefined)) {
+    const entry = getEntry(key)
+    entry.data =
+        typeof updater === 'function' ? (updater as (prev: T | undefined) => T | undefined)(entry.data as T) : updater
+    entry.error = undefined
+    notify(entry)
+}
+
+// 같은 경로로 캐시된 모든 값을 한 번에 수정 (검색 조건, 페이지가 다른 목록까지 모두)
+export function updateQueries<T>(path: QueryPath, updater: (data: T, key: QueryKey) => T) {
+    entries.forEach((entry) => {
+        if (entry.key[0] !== path || entry.data === undefined) return
+
+        const next = updater(entry.data as T, entry.key)
+        if (next === entry.data) return
+
+        entry.data = next
+        notify(entry)
+    })
+}
+
+// 같은 경로의 캐시를 만료시킨다
+// 화면에서 사용 중인 값은 바로 다시 조회하고, 나머지는 다음에 사용할 때 조회한다
+export function invalidateQueries(path: QueryPath) {
+    const refetches: Promise<void>[] = []
+
+    entries.forEach((entry) => {
+        if (entry.key[0] !== path) return
+
+        entry.stale = true
+        if (entry.listeners.size > 0) {
+            refetches.push(fetchEntry(entry))
+        }
+    })
+
+    return Promise.all(refetches).then(() => undefined)
+}
+
+// 캐시 항목 구독 (같은 키는 같은 항목 객체를 돌려주므로 렌더링마다 키가 새로 만들어져도 다시 구독하지 않는다)
+const useQuerySnapshot = <T>(key: QueryKey) => {
+    const entry = getEntry(key)
+
+    const subscribe = useCallback(
+        (listener: () => void) => {
+            entry.listeners.add(listener)
+            return () => {
+                entry.listeners.delete(listener)
+            }
+        },
+        [entry],
+    )
+
+    const snapshot = useSyncExternalStore(
+        subscribe,
+        () => entry.snapshot as QuerySnapshot<T>,
+        () => EMPTY_SNAPSHOT,
+    )
+
+    return { entry, snapshot }
+}
+
+// 조회 없이 캐시 값만 구독하는 훅 (무한 스크롤처럼 화면에서 직접 setQueryData로 채우는 목록용)
+export function useQueryData<T>(key: QueryKey) {
+    return useQuerySnapshot<T>(key).snapshot.data
+}
+
+// 캐시 키로 조회 결과를 구독하는 훅
+// fetcher는 unwrap()으로 감싼 client 호출을 돌려주면 된다
+// 예) useQuery(['/api/v1/parties/main'], () => unwrap(client.GET('/api/v1/parties/main')))
+export function useQuery<T>(key: QueryKey, fetcher: () => Promise<ApiResult<T>>, options: { enabled?: boolean } = {}) {
+    const { enabled = true } = options
+    const { entry, snapshot } = useQuerySnapshot<T>(key)
+
+    // 렌더링마다 새로 만들어지는 fetcher 대신 항상 최신 fetcher를 쓰도록 ref에 보관
+    const fetcherRef = useRef(fetcher)
+    fetcherRef.current = fetcher
+
+    useEffect(() => {
+        if (!enabled) return
+
+        entry.fetcher = () => fetcherRef.current()
+        if (entry.stale) {
+            fetchEntry(entry)
+        }
+    }, [entry, enabled])
+
+    const refetch = useCallback(() => {
+        entry.fetcher = () => fetcherRef.current()
+        entry.stale = true
+        return fetchEntry(entry)
+    }, [entry])
+
+    // 처음 조회 중일 때만 로딩 (다시 조회하는 동안에는 이전 값을 그대로 보여준다)
+    const loading =
+        enabled && snapshot.data === undefined && snapshot.error === undefined && (snapshot.stale || snapshot.fetching)
+
+    return {
+        data: snapshot.data,
+        error: snapshot.error,
+        loading,
+        refetch,
+    }
+}
@@ -0,0 +1,259 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import { formatElapsedTime } from '@/lib/diaryCard'
+import { parseISO } from 'date-fns'
+
+// 탈출일지 피벗 분석
+// 일지 목록(DiaryListDto)과 상세(DiaryDto)를 합친 원본 데이터로 행/열 기준과 지표를 골라 집계한다
+// 예) 매장별 성공률, 인원별 평균 힌트, 장르 회차별 평균 소요 시간
+
+type DiaryListDto = components['schemas']['DiaryListDto']
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 목록 항목 + 상세 (상세를 아직 못 불러온 일지는 목록 값만 있다)
+export type AnalyticsDiary = DiaryListDto & Partial<DiaryDto>
+
+// 집계 단위 (장르 기준으로 나눌 때는 태그마다 하나씩 만든다)
+type Fact = {
+    diary: AnalyticsDiary
+    genre?: string
+    genreRound?: number // 같은 장르를 몇 번째로 했는지
+}
+
+type Dimension = {
+    key: string
+    label: string
+    value: (fact: Fact) => string
+    perGenre?: boolean // 태그마다 나눠서 집계
+    needsDetail?: boolean // 일지 상세가 있어야 알 수 있는 값
+    order?: 'count' | 'label' | 'number' | string[] // 행/열 정렬 (기본: 많은 순, number는 앞의 숫자 순)
+}
+
+type Measure = {
+    key: string
+    label: string
+    compute: (diaries: AnalyticsDiary[]) => number | null
+    format: (value: number) => string
+    needsDetail?: boolean
+}
+
+const NONE = '기록 없음'
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토']
+
+const average = (values: number[]) =>
+    values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+const percent = (count: number, total: number) => (total ? (count / total) * 100 : null)
+const round1 = (value: number) => String(Math.round(value * 10) / 10)
+
+// 함께한 사람은 나를 뺀 닉네임 목록 ("홍길동, 김철수")
+const partySize = (diary: AnalyticsDiary) => {
+    if (!diary.participants?.trim()) return NONE
+    const others = diary.participants.split(',').filter((name) => name.trim()).length
+    return `${others + 1}명`
+}
+
+export const DIMENSIONS: Dimension[] = [
+    { key: 'store', label: '매장', value: ({ diary }) => diary.storeName || NONE },
+    { key: 'theme', label: '테마', value: ({ diary }) => diary.themeName || NONE },
+    { key: 'genre', label: '장르', value: ({ genre }) => genre ?? NONE, perGenre: true },
+    {
+        key: 'genreRound',
+        label: '장르 회차',
+        value: ({ genreRound }) => (!genreRound ? NONE : genreRound >= 5 ? '5회차 이상' : `${genreRound}회차`),
+        perGenre: true,
+        order: 'number',
+    },
+    { key: 'year', label: '연도', value: ({ diary }) => diary.escapeDate?.slice(0, 4) ?? NONE, order: 'label' },
+    { key: 'month', label: '월', value: ({ diary }) => diary.escapeDate?.slice(0, 7) ?? NONE, order: 'label' },
+    {
+        key: 'weekday',
+        label: '요일',
+        value: ({ diary }) => (diary.escapeDate ? WEEKDAYS[parseISO(diary.escapeDate).getDay()] : NONE),
+        order: WEEKDAYS,
+    },
+    { key: 'partySize', label: '인원', value: ({ diary }) => partySize(diary), needsDetail: true, order: 'number' },
+    {
+        key: 'result',
+        label: '탈출 결과',
+        value: ({ diary }) => (diary.escapeResult === undefined ? NONE : diary.escapeResult ? '성공' : '실패'),
+        order: ['성공', '실패', NONE],
+    },
+    {
+        key: 'hintCount',
+        label: '힌트 수',
+        value: ({ diary }) => {
+            const hints = diary.hintCount ?? 0
+            return hints >= 3 ? '3개 이상' : `${hints}개`
+        },
+        order: 'label',
+    },
+    {
+        key: 'difficulty',
+        label: '체감 난이도',
+        value: ({ diary }) => (diary.difficulty ? `${diary.difficulty}점` : NONE),
+        needsDetail: true,
+        order: 'label',
+    },
+]
+
+export const MEASURES: Measure[] = [
+    { key: 'count', label: '일지 수', compute: (diaries) => diaries.length, format: (value) => `${value}` },
+    {
+        key: 'successRate',
+        label: '성공률',
+        compute: (diaries) => percent(diaries.filter((diary) => diary.escapeResult).length, diaries.length),
+        format: (value) => `${Math.round(value)}%`,
+    },
+    {
+        key: 'averageHints',
+        label: '평균 힌트',
+        compute: (diaries) => average(diaries.map((diary) => diary.hintCount ?? 0)),
+        format: round1,
+    },
+    {
+        key: 'noHintRate',
+        label: '노힌트 성공률',
+        compute: (diaries) =>
+            percent(diaries.filter((diary) => diary.escapeResult && !diary.hintCount).length, diaries.length),
+        format: (value) => `${Math.round(value)}%`,
+    },
+    {
+        key: 'averageTime',
+        label: '평균 소요 시간 (성공)',
+        compute: (diaries) =>
+            average(diaries.flatMap((diary) => (diary.escapeResult && diary.elapsedTime ? [diary.elapsedTime] : []))),
+        format: (value) => formatElapsedTime(Math.round(value)),
+    },
+    {
+        key: 'averageSatisfaction',
+        label: '평균 만족도',
+        compute: (diaries) => average(diaries.flatMap((diary) => (diary.satisfaction ? [diary.satisfaction] : []))),
+        format: round1,
+        needsDetail: true,
+    },
+    {
+        key: 'averageDifficulty',
+        label: '평균 체감 난이도',
+        compute: (diaries) => average(diaries.flatMap((diary) => (diary.difficulty ? [diary.difficulty] : []))),
+        format: round1,
+        needsDetail: true,
+    },
+]
+
+// 자주 쓰는 분석
+export const PIVOT_PRESETS: { label: string; row: string; column?: string; measure: string }[] = [
+    { label: '매장별 성공률', row: 'store', measure: 'successRate' },
+    { label: '인원별 평균 힌트', row: 'partySize', measure: 'averageHints' },
+    { label: '장르 회차별 소요 시간', row: 'genre', column: 'genreRound', measure: 'averageTime' },
+    { label: '월별 장르 분포', row: 'month', column: 'genre', measure: 'count' },
+]
+
+export const getDimension = (key?: string) => DIMENSIONS.find((dimension) => dimension.key === key)
+export const getMeasure = (key: string) => MEASURES.find((measure) => measure.key === key) ?? MEASURES[0]
+
+// 장르 기준 집계용: 일지를 날짜순으로 보면서 태그마다 몇 번째인지 센다
+const toGenreFacts = (diaries: AnalyticsDiary[]): Fact[] => {
+    const rounds = new Map<string, number>()
+
+    return [...diaries]
+        .sort((a, b) => (a.escapeDate ?? '').localeCompare(b.escapeDate ?? '') || (a.id ?? 0) - (b.id ?? 0))
+        .flatMap((diary) => {
+            if (!diary.tags?.length) return [{ diary }]
+            return diary.tags.map((genre) => {
+                const genreRound = (rounds.get(genre) ?? 0) + 1
+                rounds.set(genre, genreRound)
+                return { diary, genre, genreRound }
+            })
+        })
+}
+
+export type PivotCell = { value: number | null; count: number }
+
+export type PivotResult = {
+    rows: string[]
+    columns: string[]
+    cells: PivotCell[][] // [행][열]
+    rowTotals: PivotCell[]
+    columnTotals: PivotCell[]
+    total: PivotCell
+}
+
+export type PivotOptions = {
+    row: string
+    column?: string
+    measure: string
+    minCount?: number // 일지 수가 이보다 적은 행은 숨긴다
+}
+
+const sortKeys = (keys: string[], counts: Map<string, number>, order: Dimension['order'] = 'count') => {
+    if (Array.isArray(order)) {
+        return [...keys].sort((a, b) => {
+            const indexA = order.indexOf(a)
+            const indexB = order.indexOf(b)
+            return (indexA < 0 ? order.length : indexA) - (indexB < 0 ? order.length : indexB)
+        })
+    }
+    if (order === 'number') {
+        // '2명'과 '10명'처럼 앞의 숫자로 비교하고, 숫자가 없는 값('기록 없음')은 마지막
+        return [...keys].sort((a, b) => {
+            const numberA = parseInt(a, 10)
+            const numberB = parseInt(b, 10)
+            if (Number.isNaN(numberA) || Number.isNaN(numberB)) {
+                return Number(Number.isNaN(numberA)) - Number(Number.isNaN(numberB))
+            }
+            return numberA - numberB
+        })
+    }
+    if (order === 'label') {
+        // '기록 없음'은 항상 마지막
+        return [...keys].sort((a, b) =>
+            a === NONE ? 1 : b === NONE ? -1 : a.localeCompare(b, 'ko', { numeric: true }),
+        )
+    }
+    return [...keys].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b, 'ko'))
+}
+
+export function pivotDiaries(diaries: AnalyticsDiary[], { row, column, measure, minCount = 1 }: PivotOptions) {
+    const rowDimension = getDimension(row) ?? DIMENSIONS[0]
+    const columnDimension = getDimension(column)
+    const { compute } = getMeasure(measure)
+
+    const facts =
+        rowDimension.perGenre || columnDimension?.perGenre ? toGenreFacts(diaries) : diaries.map((diary) => ({ diary }))
+
+    // 같은 일지가 한 칸에 두 번 들어가지 않도록 칸마다 일지를 모은다
+    const groups = new Map<string, Map<string, Set<AnalyticsDiary>>>()
+    const rowGroups = new Map<string, Set<AnalyticsDiary>>()
+    const columnGroups = new Map<string, Set<AnalyticsDiary>>()
+
+    facts.forEach((fact) => {
+        const rowKey = rowDimension.value(fact)
+        const columnKey = columnDimension ? columnDimension.value(fact) : '전체'
+
+        const cells = groups.get(rowKey) ?? new Map<string, Set<AnalyticsDiary>>()
+        groups.set(rowKey, cells)
+        cells.set(columnKey, (cells.get(columnKey) ?? new Set()).add(fact.diary))
+        rowGroups.set(rowKey, (rowGroups.get(rowKey) ?? new Set()).add(fact.diary))
+        columnGroups.set(columnKey, (columnGroups.get(columnKey) ?? new Set()).add(fact.diary))
+    })
+
+    const toCell = (group?: Set<AnalyticsDiary>): PivotCell =>
+        group?.size ? { value: compute([...group]), count: group.size } : { value: null, count: 0 }
+    const sizes = (map: Map<string, Set<AnalyticsDiary>>) =>
+        new Map([...map.entries()].map(([key, group]) => [key, group.size]))
+
+    const rows = sortKeys(
+        [...rowGroups.keys()].filter((key) => (rowGroups.get(key)?.size ?? 0) >= minCount),
+        sizes(rowGroups),
+        rowDimension.order,
+    )
+    const columns = sortKeys([...columnGroups.keys()], sizes(columnGroups), columnDimension?.order)
+
+    return {
+        rows,
+        columns,
+        cells: rows.map((rowKey) => columns.map((columnKey) => toCell(groups.get(rowKey)?.get(columnKey)))),
+        rowTotals: rows.map((rowKey) => toCell(rowGroups.get(rowKey))),
+        columnTotals: columns.map((columnKey) => toCell(columnGroups.get(columnKey))),
+        total: toCell(new Set(diaries)),
+    } satisfies PivotResult
+}
@@ -0,0 +1,223 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import { RATING_FIELDS, RatingField } from '@/lib/diaryForm'
+
+// 탈출일지 공유용 카드 이미지(PNG) 생성
+// SNS에 올리기 좋은 세로형(4:5) 카드에 테마 썸네일, 탈출 결과, 시간, 평가 레이더 차트를 그린다
+
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 레이더 차트에 표시하는 평가 항목
+const RADAR_FIELDS: RatingField[] = ['difficulty', 'fear', 'activity', 'story', 'production', 'interior']
+
+export function getDiaryRadarData(diary: DiaryDto) {
+    return RATING_FIELDS.filter(({ field }) => RADAR_FIELDS.includes(field)).map(({ field, label }) => ({
+        label,
+        value: diary[field] ?? 0,
+    }))
+}
+
+// 초 → 'n분 n초'
+export function formatElapsedTime(seconds?: number) {
+    if (!seconds) return '기록 없음'
+    return `${Math.floor(seconds / 60)}분 ${seconds % 60}초`
+}
+
+const CARD_WIDTH = 1080
+const CARD_HEIGHT = 1350
+const PADDING = 64
+const HEADER_HEIGHT = 560
+const FONT_FAMILY = "'Pretendard Variable', -apple-system, BlinkMacSystemFont, system-ui, sans-serif"
+const ACCENT_COLOR = '#FFB130'
+
+// 다른 도메인의 썸네일은 CORS를 허용할 때만 그릴 수 있다 (허용하지 않으면 캔버스를 내보낼 수 없으므로 생략)
+const loadImage = (url: string) =>
+    new Promise<HTMLImageElement | null>((resolve) => {
+        const image = new Image()
+        image.crossOrigin = 'anonymous'
+        image.onload = () => resolve(image)
+        image.onerror = () => resolve(null)
+        image.src = url
+    })
+
+// 너비를 넘는 글자는 말줄임표로 자른다
+const fitText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+    if (context.measureText(text).width <= maxWidth) return text
+
+    let fitted = text
+    while (fitted.length > 0 && context.measureText(`${fitted}…`).width > maxWidth) {
+        fitted = fitted.slice(0, -1)
+    }
+    return `${fitted}…`
+}
+
+const roundRect = (
+    context: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number,
+    color: string,
+) => {
+    context.beginPath()
+    context.roundRect(x, y, width, height, radius)
+    context.fillStyle = color
+    context.fill()
+}
+
+// 이미지를 영역에 꽉 차게 (가운데 기준으로 잘라서) 그린다
+const drawCover = (context: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+    const scale = Math.max(width / image.width, height / image.height)
+    const drawWidth = image.width * scale
+    const drawHeight = image.height * scale
+    context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+}
+
+const drawHeader = (context: CanvasRenderingContext2D, diary: DiaryDto, thumbnail: HTMLImageElement | null) => {
+    context.save()
+    context.beginPath()
+    context.rect(0, 0, CARD_WIDTH, HEADER_HEIGHT)
+    context.clip()
+    if (thumbnail) {
+        drawCover(context, thumbnail, CARD_WIDTH, HEADER_HEIGHT)
+    } else {
+        context.fillStyle = '#374151'
+        context.fillRect(0, 0, CARD_WIDTH, HEADER_HEIGHT)
+    }
+
+    const gradient = context.createLinearGradient(0, HEADER_HEIGHT * 0.3, 0, HEADER_HEIGHT)
+    gradient.addColorStop(0, 'rgba(17, 24, 39, 0)')
+    gradient.addColorStop(1, 'rgba(17, 24, 39, 1)')
+    context.fillStyle = gradient
+    context.fillRect(0, 0, CARD_WIDTH, HEADER_HEIGHT)
+    context.restore()
+
+    context.fillStyle = ACCENT_COLOR
+    context.font = `bold 32px ${FONT_FAMILY}`
+    context.fillText('ESCAPE DIARY', PADDING, PADDING + 24)
+
+    context.fillStyle = '#FFFFFF'
+    context.font = `bold 64px ${FONT_FAMILY}`
+    context.fillText(fitText(context, diary.themeName || '테마', CARD_WIDTH - PADDING * 2), PADDING, HEADER_HEIGHT - 80)
+
+    context.fillStyle = '#D1D5DB'
+    context.font = `32px ${FONT_FAMILY}`
+    const subtitle = [diary.storeName, diary.escapeDate?.replace(/-/g, '.')].filter(Boolean).join(' · ')
+    context.fillText(fitText(context, subtitle, CARD_WIDTH - PADDING * 2), PADDING, HEADER_HEIGHT - 28)
+}
+
+// 결과, 시간, 힌트 세 칸
+const drawSummary = (context: CanvasRenderingContext2D, diary: DiaryDto, top: number) => {
+    const gap = 24
+    const boxWidth = (CARD_WIDTH - PADDING * 2 - gap * 2) / 3
+    const boxHeight = 150
+    const items = [
+        {
+            label: '탈출 결과',
+            value: diary.escapeResult === undefined ? '-' : diary.escapeResult ? '탈출 성공' : '탈출 실패',
+            color: diary.escapeResult === false ? '#EF4444' : '#10B981',
+        },
+        { label: '진행 시간', value: formatElapsedTime(diary.elapsedTime), color: '#FFFFFF' },
+        { label: '힌트', value: `${diary.hintCount ?? 0}회`, color: '#FFFFFF' },
+    ]
+
+    items.forEach((item, index) => {
+        const x = PADDING + index * (boxWidth + gap)
+        roundRect(context, x, top, boxWidth, boxHeight, 24, '#1F2937')
+
+        context.fillStyle = '#9CA3AF'
+        context.font = `28px ${FONT_FAMILY}`
+        context.fillText(item.label, x + 32, top + 52)
+
+        context.fillStyle = item.color
+        context.font = `bold 44px ${FONT_FAMILY}`
+        context.fillText(fitText(context, item.value, boxWidth - 64), x + 32, top + 112)
+    })
+}
+
+// 레이더 차트(RadarChart 캔버스)와 항목별 점수
+const drawRatings = (
+    context: CanvasRenderingContext2D,
+    diary: DiaryDto,
+    radarCanvas: HTMLCanvasElement | null,
+    top: number,
+) => {
+    const panelHeight = 480
+    roundRect(context, PADDING, top, CARD_WIDTH - PADDING * 2, panelHeight, 32, '#FFFFFF')
+
+    const radarSize = 420
+    if (radarCanvas) {
+        context.drawImage(radarCanvas, PADDING + 24, top + (panelHeight - radarSize) / 2, radarSize, radarSize)
+    }
+
+    const listX = PADDING + radarSize + 80
+    getDiaryRadarData(diary).forEach((item, index) => {
+        const y = top + 88 + index * 64
+
+        context.fillStyle = '#374151'
+        context.font = `30px ${FONT_FAMILY}`
+        context.fillText(item.label, listX, y)
+
+        context.fillStyle = ACCENT_COLOR
+        context.font = `30px ${FONT_FAMILY}`
+        context.fillText('★'.repeat(item.value) + '☆'.repeat(Math.max(5 - item.value, 0)), listX + 140, y)
+    })
+}
+
+export async function createDiaryCard(diary: DiaryDto, radarCanvas: HTMLCanvasElement | null) {
+    await document.fonts.ready
+    const thumbnail = diary.thumbnailUrl ? await loadImage(diary.thumbnailUrl) : null
+
+    const canvas = document.createElement('canvas')
+    canvas.width = CARD_WIDTH
+    canvas.height = CARD_HEIGHT
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+        throw new Error('카드 이미지를 만들 수 없는 브라우저입니다.')
+    }
+
+    context.fillStyle = '#111827'
+    context.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT)
+
+    drawHeader(context, diary, thumbnail)
+    drawSummary(context, diary, HEADER_HEIGHT + 40)
+    drawRatings(context, diary, radarCanvas, HEADER_HEIGHT + 230)
+
+    context.fillStyle = '#6B7280'
+    context.font = `26px ${FONT_FAMILY}`
+    context.textAlign = 'center'
+    context.fillText('또방 · 방탈출 커뮤니티', CARD_WIDTH / 2, CARD_HEIGHT - 30)
+
+    return canvas
+}
+
+const toPngFile = (canvas: HTMLCanvasElement, fileName: string) =>
+    new Promise<File>((resolve, reject) =>
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], fileName, { type: 'image/png' }))
+            } else {
+                reject(new Error('카드 이미지를 저장하지 못했습니다.'))
+            }
+        }, 'image/png'),
+    )
+
+export async function downloadDiaryCard(canvas: HTMLCanvasElement, fileName: string) {
+    const file = await toPngFile(canvas, fileName)
+    const url = URL.createObjectURL(file)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+// 모바일 공유 시트로 공유 (파일 공유를 지원하지 않으면 false)
+export async function shareDiaryCard(canvas: HTMLCanvasElement, fileName: string, title: string) {
+    const file = await toPngFile(canvas, fileName)
+    if (!navigator.canShare?.({ files: [file] })) return false
+
+    await navigator.share({ files: [file], title })
+    return true
+}
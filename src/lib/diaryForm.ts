@@ -0,0 +1,207 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+
+// 탈출일지 작성/수정 폼 스키마
+// 폼 값과 DiaryRequestDto 사이의 변환, 항목별 검증, 진행/잔여 시간 변환을 한곳에서 관리한다
+
+type DiaryRequestDto = components['schemas']['DiaryRequestDto']
+type DiaryDto = components['schemas']['DiaryDto']
+
+// 평가 항목 (DiaryRequestDto 필드명과 동일)
+export type RatingField = keyof Pick<
+    DiaryRequestDto,
+    'interior' | 'question' | 'story' | 'production' | 'satisfaction' | 'difficulty' | 'fear' | 'activity'
+>
+
+export const RATING_FIELDS: { field: RatingField; label: string; color: string }[] = [
+    { field: 'interior', label: '인테리어', color: '#FCD34D' },
+    { field: 'question', label: '문제 구성', color: '#FCD34D' },
+    { field: 'story', label: '스토리', color: '#FCD34D' },
+    { field: 'production', label: '연출', color: '#FCD34D' },
+    { field: 'satisfaction', label: '만족도', color: '#FCD34D' },
+    { field: 'difficulty', label: '난이도', color: '#3B82F6' },
+    { field: 'fear', label: '공포도', color: '#EF4444' },
+    { field: 'activity', label: '활동성', color: '#10B981' },
+]
+
+export const MAX_RATING = 5
+
+// 백엔드 timeType 값
+export type DiaryTimeType = 'ELAPSED' | 'REMAINING'
+
+export const TIME_TYPE_LABELS: Record<DiaryTimeType, string> = {
+    ELAPSED: '진행 시간',
+    REMAINING: '잔여 시간',
+}
+
+export type DiaryFormTheme = {
+    id: number
+    name: string
+    storeName: string
+}
+
+export type DiaryFormValues = {
+    theme: DiaryFormTheme | null
+    escapeDate: string
+    participants: string
+    ratings: Record<RatingField, number>
+    deviceRatio: number
+    noDevice: boolean
+    hintCount: number | null
+    escapeResult: boolean | null
+    timeType: DiaryTimeType
+    time: string // '분:초' (예: 45:30)
+    review: string
+}
+
+export type DiaryFormErrors = Partial<Record<keyof DiaryFormValues, string>>
+
+export const EMPTY_DIARY_FORM: DiaryFormValues = {
+    theme: null,
+    escapeDate: '',
+    participants: '',
+    ratings: {
+        interior: 0,
+        question: 0,
+        story: 0,
+        production: 0,
+        satisfaction: 0,
+        difficulty: 0,
+        fear: 0,
+        activity: 0,
+    },
+    deviceRatio: 0,
+    noDevice: false,
+    hintCount: null,
+    escapeResult: true,
+    timeType: 'ELAPSED',
+    time: '00:00',
+    review: '',
+}
+
+// ==================== 시간 변환 ====================
+
+const TIME_PATTERN = /^(\d{1,3}):(\d{1,2})$/
+
+// '분:초' → 초 (형식이 맞지 않으면 null)
+export function parseDiaryTime(time: string): number | null {
+    const match = TIME_PATTERN.exec(time.trim())
+    if (!match) return null
+
+    const minutes = Number(match[1])
+    const seconds = Number(match[2])
+    if (seconds >= 60) return null
+
+    return minutes * 60 + seconds
+}
+
+// 초 → '분:초' (두 자리씩 채운다)
+export function formatDiaryTime(totalSeconds: number): string {
+    const minutes = Math.floor(totalSeconds / 60)
+    const seconds = totalSeconds % 60
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
+
+// 진행 시간 ↔ 잔여 시간 변환 (테마 시간 기준, 테마 시간을 모르면 그대로 둔다)
+export function convertDiaryTime(time: string, runtimeMinutes: number | null): string {
+    const seconds = parseDiaryTime(time)
+    if (seconds === null || !runtimeMinutes) return time
+
+    return formatDiaryTime(Math.max(runtimeMinutes * 60 - seconds, 0))
+}
+
+// 입력한 시간을 진행 시간(초)으로 환산
+export function getElapsedSeconds(values: DiaryFormValues, runtimeMinutes: number | null): number | null {
+    const seconds = parseDiaryTime(values.time || '00:00')
+    if (seconds === null) return null
+    if (values.timeType === 'ELAPSED') return seconds
+    if (!runtimeMinutes) return null
+
+    return runtimeMinutes * 60 - seconds
+}
+
+// ==================== 검증 ====================
+
+export function validateDiaryForm(values: DiaryFormValues, runtimeMinutes: number | null): DiaryFormErrors {
+    const errors: DiaryFormErrors = {}
+
+    if (!values.theme || values.theme.id <= 0) {
+        errors.theme = '테마를 선택해주세요.'
+    }
+
+    if (values.escapeDate) {
+        const escapeDate = new Date(`${values.escapeDate}T00:00:00`)
+        if (isNaN(escapeDate.getTime())) {
+            errors.escapeDate = '진행 날짜를 올바르게 입력해주세요.'
+        } else if (escapeDate > new Date()) {
+            errors.escapeDate = '진행 날짜는 오늘 이후로 입력할 수 없습니다.'
+        }
+    }
+
+    if (RATING_FIELDS.some(({ field }) => values.ratings[field] < 0 || values.ratings[field] > MAX_RATING)) {
+        errors.ratings = `평가는 0~${MAX_RATING}점 사이로 입력해주세요.`
+    }
+
+    if (!values.noDevice && (values.deviceRatio < 0 || values.deviceRatio > 100)) {
+        errors.deviceRatio = '장치 비중은 0~100% 사이로 입력해주세요.'
+    }
+
+    if (values.hintCount !== null && (!Number.isInteger(values.hintCount) || values.hintCount < 0)) {
+        errors.hintCount = '힌트 사용 횟수는 0 이상의 숫자로 입력해주세요.'
+    }
+
+    const seconds = parseDiaryTime(values.time || '00:00')
+    if (seconds === null) {
+        errors.time = "시간을 '분:초' 형식으로 입력해주세요. (예: 30:00, 초는 59까지)"
+    } else if (runtimeMinutes && seconds > runtimeMinutes * 60) {
+        errors.time = `${TIME_TYPE_LABELS[values.timeType]}은 테마 시간(${runtimeMinutes}분)보다 길 수 없습니다.`
+    }
+
+    return errors
+}
+
+// ==================== DiaryRequestDto 변환 ====================
+
+export function toDiaryRequest(values: DiaryFormValues): DiaryRequestDto {
+    const seconds = parseDiaryTime(values.time || '00:00') ?? 0
+
+    return {
+        themeId: values.theme?.id ?? 0,
+        escapeDate: values.escapeDate || undefined,
+        participants: values.participants,
+        ...values.ratings,
+        deviceRatio: values.noDevice ? 0 : values.deviceRatio,
+        hintCount: values.hintCount ?? 0,
+        escapeResult: values.escapeResult ?? undefined,
+        timeType: values.timeType,
+        elapsedTime: formatDiaryTime(seconds),
+        review: values.review,
+    }
+}
+
+// 조회한 일지를 폼 값으로 (시간은 진행 시간(초)으로만 내려온다)
+export function fromDiaryDto(diary: DiaryDto): DiaryFormValues {
+    return {
+        theme: diary.themeId
+            ? { id: diary.themeId, name: diary.themeName ?? '', storeName: diary.storeName ?? '' }
+            : null,
+        escapeDate: diary.escapeDate ?? '',
+        participants: diary.participants ?? '',
+        ratings: {
+            interior: diary.interior ?? 0,
+            question: diary.question ?? 0,
+            story: diary.story ?? 0,
+            production: diary.production ?? 0,
+            satisfaction: diary.satisfaction ?? 0,
+            difficulty: diary.difficulty ?? 0,
+            fear: diary.fear ?? 0,
+            activity: diary.activity ?? 0,
+        },
+        deviceRatio: diary.deviceRatio ?? 0,
+        noDevice: diary.deviceRatio === 0,
+        hintCount: diary.hintCount ?? null,
+        escapeResult: diary.escapeResult ?? null,
+        timeType: 'ELAPSED',
+        time: formatDiaryTime(diary.elapsedTime ?? 0),
+        review: diary.review ?? '',
+    }
+}
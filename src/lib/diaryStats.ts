@@ -0,0 +1,193 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import { eachMonthOfInterval, endOfMonth, format, parseISO, startOfMonth, subDays, subMonths } from 'date-fns'
+
+// 내 탈출일지 목록으로 만드는 기간별 통계
+// 사용자 분석 API(/api/v1/members/stat)는 전체 기간 값만 주므로 기간을 고르면 일지 목록을 직접 집계한다
+
+type DiaryListDto = components['schemas']['DiaryListDto']
+
+export type StatRange = {
+    startDate?: string // yyyy-MM-dd
+    endDate?: string
+}
+
+export type StatRangePreset = 'all' | '3m' | '6m' | '1y' | 'thisYear' | 'custom'
+
+export const STAT_RANGE_PRESETS: { key: StatRangePreset; label: string }[] = [
+    { key: 'all', label: '전체' },
+    { key: '3m', label: '최근 3개월' },
+    { key: '6m', label: '최근 6개월' },
+    { key: '1y', label: '최근 1년' },
+    { key: 'thisYear', label: '올해' },
+    { key: 'custom', label: '직접 선택' },
+]
+
+// 최근 기간 비교에서 고를 수 있는 개월 수
+export const COMPARE_MONTH_OPTIONS = [1, 3, 6]
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+// 프리셋의 기간 (직접 선택은 화면에서 고른 값을 그대로 쓴다)
+export function getPresetRange(preset: StatRangePreset, today = new Date()): StatRange {
+    switch (preset) {
+        case '3m':
+            return { startDate: toDateString(subMonths(today, 3)), endDate: toDateString(today) }
+        case '6m':
+            return { startDate: toDateString(subMonths(today, 6)), endDate: toDateString(today) }
+        case '1y':
+            return { startDate: toDateString(subMonths(today, 12)), endDate: toDateString(today) }
+        case 'thisYear':
+            return { startDate: `${today.getFullYear()}-01-01`, endDate: toDateString(today) }
+        default:
+            return {}
+    }
+}
+
+// 'yyyy-MM' 달의 첫날 ~ 마지막 날
+export function getMonthRange(month: string): StatRange {
+    const date = parseISO(`${month}-01`)
+    return { startDate: toDateString(startOfMonth(date)), endDate: toDateString(endOfMonth(date)) }
+}
+
+const rate = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 10 : 0)
+const average = (values: number[]) =>
+    values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0
+
+export type GenreStat = {
+    name: string
+    count: number
+    percent: number // 전체 일지 중 비율
+    successRate: number
+    failRate: number
+}
+
+export type DiarySummary = {
+    totalCount: number
+    successRate: number
+    noHintSuccessCount: number
+    noHintSuccessRate: number
+    averageHintCount: number
+    averageTime: number // 성공한 방의 평균 소요 시간 (초)
+}
+
+const summarize = (diaries: DiaryListDto[]): DiarySummary => {
+    const successes = diaries.filter((diary) => diary.escapeResult)
+    const noHintSuccesses = successes.filter((diary) => !diary.hintCount)
+
+    return {
+        totalCount: diaries.length,
+        successRate: rate(successes.length, diaries.length),
+        noHintSuccessCount: noHintSuccesses.length,
+        noHintSuccessRate: rate(noHintSuccesses.length, diaries.length),
+        averageHintCount: average(diaries.map((diary) => diary.hintCount ?? 0)),
+        averageTime: Math.round(average(successes.flatMap((diary) => (diary.elapsedTime ? [diary.elapsedTime] : [])))),
+    }
+}
+
+// 장르(테마 태그)별 진행 수와 성공률 (많이 한 순)
+const summarizeGenres = (diaries: DiaryListDto[]): GenreStat[] => {
+    const genres = new Map<string, { count: number; success: number }>()
+    diaries.forEach((diary) => {
+        diary.tags?.forEach((tag) => {
+            const genre = genres.get(tag) ?? { count: 0, success: 0 }
+            genre.count++
+            if (diary.escapeResult) genre.success++
+            genres.set(tag, genre)
+        })
+    })
+
+    return [...genres.entries()]
+        .map(([name, { count, success }]) => {
+            const successRate = rate(success, count)
+            return {
+                name,
+                count,
+                percent: rate(count, diaries.length),
+                successRate,
+                failRate: Math.round((100 - successRate) * 10) / 10,
+            }
+        })
+        .sort((a, b) => b.count - a.count)
+}
+
+// 월별 진행 수 (기간 안의 빈 달도 0으로 채운다)
+const summarizeMonthly = (diaries: DiaryListDto[], range: StatRange) => {
+    const counts = new Map<string, number>()
+    diaries.forEach((diary) => {
+        if (!diary.escapeDate) return
+        const month = diary.escapeDate.slice(0, 7)
+        counts.set(month, (counts.get(month) ?? 0) + 1)
+    })
+
+    const months = [...counts.keys()].sort()
+    const start = range.startDate ?? (months[0] && `${months[0]}-01`)
+    const end = range.endDate ?? (months.length > 0 ? `${months[months.length - 1]}-01` : undefined)
+    if (!start || !end || start > end) return []
+
+    return eachMonthOfInterval({ start: parseISO(start), end: parseISO(end) }).map((date) => {
+        const month = format(date, 'yyyy-MM')
+        return { month, count: counts.get(month) ?? 0 }
+    })
+}
+
+export function getDiaryStats(diaries: DiaryListDto[], range: StatRange) {
+    return {
+        ...summarize(diaries),
+        genres: summarizeGenres(diaries),
+        monthly: summarizeMonthly(diaries, range),
+    }
+}
+
+// 비교에 필요한 일지 범위 (가장 긴 비교 기간의 두 배)
+export function getCompareFetchRange(today = new Date()): StatRange {
+    const months = Math.max(...COMPARE_MONTH_OPTIONS) * 2
+    return { startDate: toDateString(subMonths(today, months)), endDate: toDateString(today) }
+}
+
+// 최근 N개월과 그 직전 N개월 비교
+export function comparePeriods(diaries: DiaryListDto[], months: number, today = new Date()) {
+    const currentStart = subMonths(today, months)
+    const current: StatRange = { startDate: toDateString(currentStart), endDate: toDateString(today) }
+    const previous: StatRange = {
+        startDate: toDateString(subMonths(currentStart, months)),
+        endDate: toDateString(subDays(currentStart, 1)),
+    }
+
+    const inRange = ({ startDate = '', endDate = '9999-12-31' }: StatRange) =>
+        diaries.filter((diary) => !!diary.escapeDate && diary.escapeDate >= startDate && diary.escapeDate <= endDate)
+
+    return {
+        current: { range: current, summary: summarize(inRange(current)) },
+        previous: { range: previous, summary: summarize(inRange(previous)) },
+    }
+}
+
+// 통계에서 내 탈출일지 목록으로 이동할 때 넘기는 검색 조건 (DiaryFilterRequest의 일부)
+export type DiaryListQuery = StatRange & {
+    tagIds?: number[]
+    genreNames?: string[] // 필터 표시용 장르 이름
+}
+
+export function toDiaryListHref({ startDate, endDate, tagIds, genreNames }: DiaryListQuery) {
+    const params = new URLSearchParams()
+    if (startDate) params.set('startDate', startDate)
+    if (endDate) params.set('endDate', endDate)
+    if (tagIds?.length) params.set('tagIds', tagIds.join(','))
+    if (genreNames?.length) params.set('genreNames', genreNames.join(','))
+
+    const query = params.toString()
+    return query ? `/my/diary?${query}` : '/my/diary'
+}
+
+export function parseDiaryListQuery(params: URLSearchParams): DiaryListQuery {
+    const list = (key: string) => params.get(key)?.split(',').filter(Boolean) ?? []
+
+    return {
+        startDate: params.get('startDate') || undefined,
+        endDate: params.get('endDate') || undefined,
+        tagIds: list('tagIds')
+            .map(Number)
+            .filter((id) => Number.isInteger(id)),
+        genreNames: list('genreNames'),
+    }
+}
@@ -0,0 +1,63 @@
+// 업로드 전 사진 압축
+// 휴대폰 원본 사진(5~10MB)은 업로드 시간이 초과되므로 브라우저에서 줄여서 올린다
+// - 긴 변 기준으로 축소하고 JPEG로 다시 인코딩
+// - EXIF 방향대로 돌려서 그린다 (다시 인코딩하면 방향 정보가 사라지므로)
+// - 다시 인코딩하면서 위치(GPS) 등 EXIF 메타데이터는 모두 제거된다
+
+export type CompressImageOptions = {
+    maxDimension?: number // 긴 변 최대 픽셀
+    quality?: number // JPEG 품질 (0~1)
+}
+
+const DEFAULT_MAX_DIMENSION = 1920
+const DEFAULT_QUALITY = 0.8
+
+// EXIF 방향을 적용해서 디코딩 (지원하지 않는 브라우저는 img 요소로 디코딩, 최신 브라우저는 img도 방향을 적용한다)
+const decodeImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' })
+    } catch {
+        const url = URL.createObjectURL(file)
+        try {
+            const image = new Image()
+            image.src = url
+            await image.decode()
+            return image
+        } finally {
+            URL.revokeObjectURL(url)
+        }
+    }
+}
+
+const toJpegName = (fileName: string) => `${fileName.replace(/\.[^.]+$/, '') || 'photo'}.jpg`
+
+export async function compressImage(file: File, options: CompressImageOptions = {}): Promise<File> {
+    const { maxDimension = DEFAULT_MAX_DIMENSION, quality = DEFAULT_QUALITY } = options
+
+    const image = await decodeImage(file)
+    const scale = Math.min(1, maxDimension / Math.max(image.width, image.height))
+    const width = Math.round(image.width * scale)
+    const height = Math.round(image.height * scale)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+        throw new Error('이미지를 처리할 수 없는 브라우저입니다.')
+    }
+
+    // 투명한 PNG는 JPEG로 바꾸면 검게 나오므로 흰 배경을 먼저 칠한다
+    context.fillStyle = '#FFFFFF'
+    context.fillRect(0, 0, width, height)
+    context.drawImage(image, 0, 0, width, height)
+    if ('close' in image) image.close()
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality))
+    if (!blob) {
+        throw new Error('이미지를 압축하지 못했습니다.')
+    }
+
+    return new File([blob], toJpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified })
+}
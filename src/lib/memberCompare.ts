@@ -0,0 +1,41 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+
+// 다른 회원과 내 방탈출 성향 비교 (모임장이 참가 신청자를 고를 때 사용)
+
+type EscapeProfileSummaryDto = components['schemas']['EscapeProfileSummaryDto']
+type MemberTagResponse = components['schemas']['MemberTagResponse']
+
+export const COMPARE_STATS: { key: keyof EscapeProfileSummaryDto; label: string; unit: string; max?: number }[] = [
+    { key: 'totalCount', label: '총 참여', unit: '회' },
+    { key: 'successRate', label: '탈출 성공률', unit: '%', max: 100 },
+    { key: 'noHintSuccessRate', label: '노힌트 성공률', unit: '%', max: 100 },
+]
+
+export type StatComparison = {
+    label: string
+    unit: string
+    mine: number
+    theirs: number
+    max: number // 막대 길이 기준
+}
+
+export function compareStats(mine?: EscapeProfileSummaryDto | null, theirs?: EscapeProfileSummaryDto | null) {
+    return COMPARE_STATS.map(({ key, label, unit, max }): StatComparison => {
+        const myValue = Math.round((mine?.[key] ?? 0) * 10) / 10
+        const theirValue = Math.round((theirs?.[key] ?? 0) * 10) / 10
+        return { label, unit, mine: myValue, theirs: theirValue, max: max ?? Math.max(myValue, theirValue, 1) }
+    })
+}
+
+// 선호 태그 겹침 (이름 기준, 내 태그 순서 유지)
+export function compareTags(mine: MemberTagResponse[] = [], theirs: MemberTagResponse[] = []) {
+    const names = (tags: MemberTagResponse[]) => tags.flatMap((tag) => (tag.name ? [tag.name] : []))
+    const myNames = names(mine)
+    const theirNames = names(theirs)
+
+    return {
+        common: myNames.filter((name) => theirNames.includes(name)),
+        onlyMine: myNames.filter((name) => !theirNames.includes(name)),
+        onlyTheirs: theirNames.filter((name) => !myNames.includes(name)),
+    }
+}
@@ -0,0 +1,130 @@
+// 모임 일정을 캘린더에 추가하기 위한 ICS(RFC 5545) 파일과 구글 캘린더 링크 생성
+
+export type PartyCalendarEvent = {
+    partyId: number
+    title?: string
+    scheduledAt: string
+    themeName?: string
+    storeName?: string
+    storeAddress?: string
+}
+
+// 테마 플레이 시간 (모임 상세와 같은 기준)
+const PARTY_DURATION_MINUTES = 60
+// 모임 시작 1시간 전에 알림
+const REMINDER_TRIGGER = '-PT1H'
+const CALENDAR_NAME = '또방 모임'
+
+const getPartyUrl = (partyId: number) => `${window.location.origin}/parties/${partyId}`
+
+const getEventTimes = (event: PartyCalendarEvent) => {
+    const start = new Date(event.scheduledAt)
+    const end = new Date(start.getTime() + PARTY_DURATION_MINUTES * 60 * 1000)
+    return { start, end }
+}
+
+const getSummary = (event: PartyCalendarEvent) => event.title || `${event.themeName || '방탈출'} 모임`
+
+const getLocation = (event: PartyCalendarEvent) => [event.storeName, event.storeAddress].filter(Boolean).join(', ')
+
+const getDescription = (event: PartyCalendarEvent) =>
+    [event.themeName && `테마: ${event.themeName}`, `모임 정보: ${getPartyUrl(event.partyId)}`]
+        .filter(Boolean)
+        .join('\n')
+
+// 20250101T090000Z 형식 (UTC)
+const formatUtc = (date: Date) =>
+    date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '')
+
+// 텍스트 값의 특수 문자 이스케이프
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// 한 줄은 75바이트를 넘지 않도록 접는다 (한글이 잘리지 않도록 글자 단위로 계산)
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder()
+    const lines: string[] = []
+    let current = ''
+    let currentBytes = 0
+
+    for (const char of line) {
+        const charBytes = encoder.encode(char).length
+        const limit = lines.length === 0 ? 75 : 74 // 이어지는 줄은 앞에 공백 한 칸이 붙는다
+        if (currentBytes + charBytes > limit) {
+            lines.push(current)
+            current = ''
+            currentBytes = 0
+        }
+        current += char
+        currentBytes += charBytes
+    }
+    lines.push(current)
+
+    return lines.join('\r\n ')
+}
+
+const createEventLines = (event: PartyCalendarEvent, stamp: string) => {
+    const { start, end } = getEventTimes(event)
+    const summary = getSummary(event)
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:party-${event.partyId}@${window.location.hostname}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `LOCATION:${escapeText(getLocation(event))}`,
+        `DESCRIPTION:${escapeText(getDescription(event))}`,
+        `URL:${getPartyUrl(event.partyId)}`,
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(summary)}`,
+        `TRIGGER:${REMINDER_TRIGGER}`,
+        'END:VALARM',
+        'END:VEVENT',
+    ]
+}
+
+export function createPartyCalendar(events: PartyCalendarEvent[]) {
+    const stamp = formatUtc(new Date())
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Love Code Anyway//Party Calendar//KO',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${CALENDAR_NAME}`,
+        ...events.flatMap((event) => createEventLines(event, stamp)),
+        'END:VCALENDAR',
+    ]
+
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// ICS 파일 다운로드 (애플 캘린더, 아웃룩 등에서 열 수 있다)
+export function downloadPartyCalendar(events: PartyCalendarEvent[], fileName: string) {
+    const blob = new Blob([createPartyCalendar(events)], { type: 'text/calendar;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+export function getGoogleCalendarUrl(event: PartyCalendarEvent) {
+    const { start, end } = getEventTimes(event)
+    const params = new URLSearchParams({
+        action: 'TEMPLATE',
+        text: getSummary(event),
+        dates: `${formatUtc(start)}/${formatUtc(end)}`,
+        details: getDescription(event),
+        location: getLocation(event),
+    })
+
+    return `https://calendar.google.com/calendar/render?${params.toString()}`
+}
@@ -0,0 +1,54 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+
+// 모임 후기 키워드
+// 후기 작성 화면과 회원 후기 통계(MemberReviewResponse.keywords)에서 함께 쓴다
+
+type MemberReviewResponse = components['schemas']['MemberReviewResponse']
+export type ReviewKeyword = NonNullable<components['schemas']['KeywordStatResponse']['keyword']>
+
+export const REVIEW_KEYWORD_LABELS: Record<ReviewKeyword, string> = {
+    ATTENDANCE: '시간 약속을 잘 지켜요',
+    COMMUNICATION: '소통이 원활해요',
+    COOPERATION: '협조적이에요',
+    INTUITION: '눈치가 빨라요',
+    LEADERSHIP: '리더십이 좋아요',
+    LATE: '늦게 도착했어요',
+    PASSIVE: '소극적이에요',
+    SELF_CENTERED: '자기중심적이에요',
+    OFF_TOPIC: '자주 딴소리를 해요',
+    RUDE: '무례해요',
+    NO_SHOW: '노쇼했어요',
+}
+
+const POSITIVE_KEYWORDS: ReviewKeyword[] = ['ATTENDANCE', 'COMMUNICATION', 'COOPERATION', 'INTUITION', 'LEADERSHIP']
+
+export const getReviewKeywordLabel = (keyword: string) => REVIEW_KEYWORD_LABELS[keyword as ReviewKeyword] ?? keyword
+
+export type KeywordShare = {
+    keyword: ReviewKeyword
+    label: string
+    count: number
+    percent: number // 같은 분류(긍정/부정) 안에서의 비율
+}
+
+// 받은 후기 키워드를 긍정/부정으로 나눠 많은 순으로 정리
+export function getKeywordDistribution(review?: MemberReviewResponse | null) {
+    const keywords = (review?.keywords ?? []).flatMap(({ keyword, count }) =>
+        keyword && count ? [{ keyword, count }] : [],
+    )
+
+    const toShares = (positive: boolean): KeywordShare[] => {
+        const group = keywords.filter(({ keyword }) => POSITIVE_KEYWORDS.includes(keyword) === positive)
+        const total = group.reduce((sum, { count }) => sum + count, 0)
+        return group
+            .map(({ keyword, count }) => ({
+                keyword,
+                label: REVIEW_KEYWORD_LABELS[keyword],
+                count,
+                percent: total ? (count / total) * 100 : 0,
+            }))
+            .sort((a, b) => b.count - a.count)
+    }
+
+    return { positive: toShares(true), negative: toShares(false) }
+}
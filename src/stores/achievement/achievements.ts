@@ -0,0 +1,129 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { fetchAllDiaries } from '@/lib/backend/diaryList'
+import { Achievement, AchievementResult, evaluateAchievements, getNewAchievements } from '@/lib/achievements'
+import { useEffect, useState } from 'react'
+
+// 내 업적 판정에 필요한 데이터 불러오기
+// 남은 시간 업적은 테마 제한 시간이 필요하므로 테마별 제한 시간을 브라우저에 저장해 두고 모르는 테마만 조회한다
+type DiaryListDto = components['schemas']['DiaryListDto']
+type DiaryDto = components['schemas']['DiaryDto']
+
+const RUNTIME_STORAGE_KEY = 'themeRuntimes'
+const RUNTIME_CONCURRENCY = 4
+
+const readRuntimes = (): Record<number, number> => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(RUNTIME_STORAGE_KEY) ?? '{}')
+        return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+    } catch {
+        return {}
+    }
+}
+
+// 테마 제한 시간을 기억해 둔다 (일지 작성 화면에서 이미 조회한 값)
+export function rememberThemeRuntime(themeId: number, runtime: number) {
+    const runtimes = readRuntimes()
+    if (runtimes[themeId] === runtime) return
+    localStorage.setItem(RUNTIME_STORAGE_KEY, JSON.stringify({ ...runtimes, [themeId]: runtime }))
+}
+
+// 남은 시간을 따질 수 있는 일지(성공 + 소요 시간 기록)의 테마 제한 시간
+const loadRuntimes = async (diaries: DiaryListDto[]) => {
+    const runtimes = readRuntimes()
+    const missing = [
+        ...new Set(
+            diaries.flatMap((diary) =>
+                diary.escapeResult && diary.elapsedTime && diary.themeId !== undefined && !(diary.themeId in runtimes)
+                    ? [diary.themeId]
+                    : [],
+            ),
+        ),
+    ]
+
+    let fetchedCount = 0
+    let next = 0
+    const worker = async () => {
+        while (next < missing.length) {
+            const themeId = missing[next++]
+            const { data, error } = await unwrap(
+                client.GET('/api/v1/themes/{id}', {
+                    params: {
+                        path: { id: themeId },
+                    },
+                }),
+            )
+            // 조회에 실패한 테마는 기억하지 않고 다음에 다시 조회한다
+            if (error) {
+                console.error('테마 제한 시간 조회 실패:', themeId, error)
+                continue
+            }
+
+            // 제한 시간이 없는 테마는 0으로 기억해 다시 조회하지 않는다
+            runtimes[themeId] = data?.runtime ?? 0
+            fetchedCount++
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(RUNTIME_CONCURRENCY, missing.length) }, worker))
+
+    if (fetchedCount > 0) {
+        localStorage.setItem(RUNTIME_STORAGE_KEY, JSON.stringify(runtimes))
+    }
+    return runtimes
+}
+
+// 일지를 불러오지 못하면 results 없이 error를 돌려준다
+export function useMyAchievements(enabled = true) {
+    const [results, setResults] = useState<AchievementResult[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!enabled) return
+
+        let cancelled = false
+        const load = async () => {
+            setError(null)
+            const { data, error } = await fetchAllDiaries({})
+            if (error) {
+                console.error('업적 판정용 일지 조회 실패:', error)
+                if (!cancelled) setError(error.message || '업적을 불러오지 못했습니다.')
+                return
+            }
+
+            const runtimes = await loadRuntimes(data)
+            if (!cancelled) setResults(evaluateAchievements(data, { runtimes }))
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [enabled])
+
+    return { results, error }
+}
+
+// 일지를 저장한 뒤 새로 달성한 업적
+// previous: 수정 전 일지 (새로 작성했으면 없음)
+export async function findNewAchievements(diaryId: number, previous?: DiaryDto): Promise<Achievement[]> {
+    const { data: after, error } = await fetchAllDiaries({})
+    if (error) return []
+
+    const before = previous
+        ? after.map((diary) =>
+              diary.id === diaryId
+                  ? {
+                        ...diary,
+                        escapeDate: previous.escapeDate,
+                        escapeResult: previous.escapeResult,
+                        hintCount: previous.hintCount,
+                        elapsedTime: previous.elapsedTime,
+                    }
+                  : diary,
+          )
+        : after.filter((diary) => diary.id !== diaryId)
+
+    const runtimes = await loadRuntimes(after)
+    return getNewAchievements(before, after, { runtimes })
+}
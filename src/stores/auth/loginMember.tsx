@@ -1,6 +1,6 @@
 'use client'
 
-import { createContext, use, useState } from 'react'
+import { createContext, use, useCallback, useState } from 'react'
 
 import { useRouter } from 'next/navigation'
 
@@ -8,13 +8,15 @@ import client from '@/lib/backend/client'
 
 import { components } from '@/lib/backend/apiV1/schema'
 
-type Member = components['schemas']['BasicProfileResponse']
+// 내 정보 응답에는 회원 ID도 오지만 스키마(BasicProfileResponse)에는 빠져 있다
+type Member = components['schemas']['BasicProfileResponse'] & { id?: number }
 
 export const LoginMemberContext = createContext<{
     loginMember: Member
     setLoginMember: (member: Member) => void
     isLoginMemberPending: boolean
     isLogin: boolean
+    isAdmin: boolean
     logout: (callback: () => void) => void
     logoutAndHome: () => void
 }>({
@@ -28,6 +30,7 @@ export const LoginMemberContext = createContext<{
     setLoginMember: () => {},
     isLoginMemberPending: true,
     isLogin: false,
+    isAdmin: false,
     logout: (callback: () => void) => {},
     logoutAndHome: () => {},
 })
@@ -47,14 +50,19 @@ export function useLoginMember() {
 
     const [isLoginMemberPending, setLoginMemberPending] = useState(true)
     const [loginMember, _setLoginMember] = useState<Member>(createEmptyMember())
+    // 회원 정보 응답에 권한이 없어 관리자 API 접근 가능 여부로 판단한다
+    const [isAdmin, setIsAdmin] = useState(false)
 
-    const removeLoginMember = () => {
+    // 로그인 만료 핸들러 등록 effect의 의존성이므로 매 렌더링마다 새로 만들지 않는다
+    const removeLoginMember = useCallback(() => {
         _setLoginMember(createEmptyMember())
+        setIsAdmin(false)
         setLoginMemberPending(false)
-    }
+    }, [])
 
-    const setLoginMember = (member: Member) => {
+    const setLoginMember = (member: Member, admin: boolean = isAdmin) => {
         _setLoginMember(member)
+        setIsAdmin(admin)
         setLoginMemberPending(false)
     }
 
@@ -80,7 +88,9 @@ export function useLoginMember() {
         setLoginMember,
         isLoginMemberPending,
         setNoLoginMember,
+        removeLoginMember,
         isLogin,
+        isAdmin,
         logout,
         logoutAndHome,
     }
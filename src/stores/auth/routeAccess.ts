@@ -0,0 +1,37 @@
+// 경로별 접근 권한 선언
+// - member: 로그인 필요
+// - admin: 운영자 권한 필요
+export type RouteAccess = 'public' | 'member' | 'admin'
+
+const routeAccessRules: { pattern: RegExp; access: Exclude<RouteAccess, 'public'> }[] = [
+    { pattern: /^\/admin(\/|$)/, access: 'admin' },
+    { pattern: /^\/my(\/|$)/, access: 'member' },
+    { pattern: /^\/parties\/new$/, access: 'member' },
+    { pattern: /^\/parties\/\d+(\/edit)?$/, access: 'member' },
+]
+
+export function getRouteAccess(pathname: string): RouteAccess {
+    return routeAccessRules.find((rule) => rule.pattern.test(pathname))?.access ?? 'public'
+}
+
+// 카카오 로그인은 외부 페이지를 거쳐 메인으로 돌아오므로 원래 경로를 세션에 보관한다
+const REDIRECT_STORAGE_KEY = 'loginRedirectPath'
+
+// 외부 주소로의 이동을 막기 위해 사이트 내부 경로만 허용
+export function isSafeRedirectPath(path: string | null | undefined): path is string {
+    return !!path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/login')
+}
+
+export function saveLoginRedirectPath(path: string | null | undefined) {
+    if (!isSafeRedirectPath(path)) {
+        sessionStorage.removeItem(REDIRECT_STORAGE_KEY)
+        return
+    }
+    sessionStorage.setItem(REDIRECT_STORAGE_KEY, path)
+}
+
+export function consumeLoginRedirectPath(): string | null {
+    const path = sessionStorage.getItem(REDIRECT_STORAGE_KEY)
+    sessionStorage.removeItem(REDIRECT_STORAGE_KEY)
+    return isSafeRedirectPath(path) ? path : null
+}
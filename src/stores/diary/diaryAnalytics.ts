@@ -0,0 +1,141 @@
+import type { components } from '@/lib/backend/apiV1/schema'
+import type { ApiError } from '@/lib/backend/errors'
+import { fetchAllDiaries, fetchDiaryDetails } from '@/lib/backend/diaryList'
+import type { AnalyticsDiary } from '@/lib/diaryAnalytics'
+import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+
+// 탈출일지 분석용 원본 데이터 캐시 (사용자별로 localStorage에 보관)
+// 목록은 열 때마다 다시 받고, 상세는 목록 값이 바뀐 일지만 다시 받는다 (일지가 많아도 두 번째부터는 빠르다)
+type DiaryListDto = components['schemas']['DiaryListDto']
+type DiaryDto = components['schemas']['DiaryDto']
+
+type AnalyticsCache = {
+    items: DiaryListDto[]
+    details: Record<number, DiaryDto>
+    syncedAt: string
+}
+
+type SyncProgress = { loaded: number; total: number }
+
+const STORAGE_PREFIX = 'diaryAnalytics'
+// 이 시간 안에 다시 열면 서버에 묻지 않고 캐시를 그대로 쓴다
+const FRESH_MS = 5 * 60 * 1000
+
+const readCache = (storageKey: string): AnalyticsCache | null => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(storageKey) ?? 'null')
+        return saved && Array.isArray(saved.items) && saved.details ? saved : null
+    } catch {
+        return null
+    }
+}
+
+const writeCache = (storageKey: string, cache: AnalyticsCache) => {
+    try {
+        localStorage.setItem(storageKey, JSON.stringify(cache))
+    } catch (error) {
+        // 저장 공간이 부족하면 캐시 없이 쓴다
+        console.error('분석 캐시 저장 실패:', error)
+    }
+}
+
+// 목록에 보이는 값이 상세와 다르면 수정된 일지로 보고 상세를 다시 받는다
+const isStale = (item: DiaryListDto, detail?: DiaryDto) =>
+    !detail ||
+    detail.escapeDate !== item.escapeDate ||
+    detail.escapeResult !== item.escapeResult ||
+    detail.hintCount !== item.hintCount ||
+    detail.elapsedTime !== item.elapsedTime ||
+    detail.themeId !== item.themeId
+
+const toAnalyticsDiaries = ({ items, details }: AnalyticsCache): AnalyticsDiary[] =>
+    items.map((item) => ({ ...(item.id ? details[item.id] : undefined), ...item }))
+
+// 일지를 작성/수정/삭제하면 캐시에서 지우고, 다음에 열 때 목록부터 다시 받게 한다
+export function forgetDiaryAnalytics(diaryId: number) {
+    Object.keys(localStorage)
+        .filter((key) => key.startsWith(`${STORAGE_PREFIX}:`))
+        .forEach((key) => {
+            const cache = readCache(key)
+            if (!cache) return
+
+            const details = { ...cache.details }
+            delete details[diaryId]
+            writeCache(key, { ...cache, details, syncedAt: '' })
+        })
+}
+
+export function useDiaryAnalytics() {
+    const { loginMember } = useGlobalLoginMember()
+    const storageKey = loginMember?.nickname ? `${STORAGE_PREFIX}:${loginMember.nickname}` : null
+
+    const [cache, setCache] = useState<AnalyticsCache | null>(null)
+    const [syncing, setSyncing] = useState(false)
+    const [progress, setProgress] = useState<SyncProgress | null>(null)
+    const [error, setError] = useState<ApiError | null>(null)
+
+    const sync = useCallback(
+        async (force: boolean) => {
+            if (!storageKey) return
+
+            const cached = readCache(storageKey)
+            setCache(cached)
+            if (!force && cached?.syncedAt && Date.now() - new Date(cached.syncedAt).getTime() < FRESH_MS) return
+
+            setSyncing(true)
+            setError(null)
+            setProgress(null)
+
+            const list = await fetchAllDiaries({})
+            if (list.error) {
+                setError(list.error)
+                setSyncing(false)
+                return
+            }
+
+            const previous = force ? {} : (cached?.details ?? {})
+            const staleIds = list.data.flatMap((item) => (item.id && isStale(item, previous[item.id]) ? [item.id] : []))
+            setProgress({ loaded: 0, total: staleIds.length })
+
+            const fetched = await fetchDiaryDetails(staleIds, (loaded) =>
+                setProgress({ loaded, total: staleIds.length }),
+            )
+            if (fetched.error) {
+                setError(fetched.error)
+                setSyncing(false)
+                return
+            }
+
+            // 목록에서 사라진(삭제된) 일지의 상세는 버린다
+            const details: Record<number, DiaryDto> = {}
+            list.data.forEach((item) => {
+                if (item.id && previous[item.id]) details[item.id] = previous[item.id]
+            })
+            fetched.data.forEach((detail) => {
+                if (detail.id) details[detail.id] = detail
+            })
+
+            const next = { items: list.data, details, syncedAt: new Date().toISOString() }
+            writeCache(storageKey, next)
+            setCache(next)
+            setSyncing(false)
+        },
+        [storageKey],
+    )
+
+    useEffect(() => {
+        sync(false)
+    }, [sync])
+
+    const diaries = useMemo(() => (cache ? toAnalyticsDiaries(cache) : null), [cache])
+
+    return {
+        diaries,
+        syncedAt: cache?.syncedAt || null,
+        syncing,
+        progress,
+        error,
+        refresh: () => sync(true),
+    }
+}
@@ -0,0 +1,77 @@
+import { useSyncExternalStore } from 'react'
+
+// 탈출일지 사진 목록 (일지 ID → 사진 주소 목록)
+// 일지 API에는 사진 주소가 하나(imageUrl, 대표 사진)뿐이므로 여러 장 올린 사진 주소는 이 브라우저에만 저장한다
+// 다른 기기나 브라우저에서는 대표 사진만 보인다
+export type DiaryGalleries = Record<number, string[]>
+
+const STORAGE_KEY = 'diaryGalleries'
+const EMPTY: DiaryGalleries = {}
+
+let diaryGalleries: DiaryGalleries | null = null
+const listeners = new Set<() => void>()
+
+const readStorage = (): DiaryGalleries => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+        return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+    } catch {
+        return {}
+    }
+}
+
+export function getDiaryGalleries() {
+    if (typeof window === 'undefined') return EMPTY
+    diaryGalleries ??= readStorage()
+    return diaryGalleries
+}
+
+const setDiaryGalleries = (next: DiaryGalleries) => {
+    diaryGalleries = next
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    listeners.forEach((listener) => listener())
+}
+
+// 서버의 대표 사진이 항상 첫 번째가 되도록 맞춘다
+// (업로드할 때마다 대표 사진이 바뀌므로 저장한 순서와 다를 수 있고, 대표 사진은 서버에서 지울 수 없다)
+const putCoverFirst = (imageUrls: string[], coverUrl?: string) =>
+    coverUrl ? [coverUrl, ...imageUrls.filter((url) => url !== coverUrl)] : imageUrls
+
+// 일지의 사진 목록 (저장한 목록이 없으면 대표 사진 하나)
+export function getDiaryImages(diaryId: number, imageUrl?: string, galleries = getDiaryGalleries()) {
+    return putCoverFirst(galleries[diaryId] ?? [], imageUrl)
+}
+
+export function saveDiaryGallery(diaryId: number, imageUrls: string[], coverUrl?: string) {
+    setDiaryGalleries({ ...getDiaryGalleries(), [diaryId]: putCoverFirst(imageUrls, coverUrl) })
+}
+
+// 일지를 삭제하면 사진 목록도 지운다
+export function forgetDiaryGallery(diaryId: number) {
+    const current = getDiaryGalleries()
+    if (!(diaryId in current)) return
+
+    const next = { ...current }
+    delete next[diaryId]
+    setDiaryGalleries(next)
+}
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY) return
+        diaryGalleries = readStorage()
+        listener()
+    }
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+    }
+}
+
+export function useDiaryGalleries() {
+    return useSyncExternalStore(subscribe, getDiaryGalleries, () => EMPTY)
+}
@@ -0,0 +1,66 @@
+import { useSyncExternalStore } from 'react'
+
+// 모임에서 바로 작성한 탈출일지 기록 (모임 ID → 일지 ID)
+// 일지 API에는 모임 정보가 없으므로 브라우저에 저장해 모임 히스토리에서 작성 여부를 표시한다
+export type PartyDiaries = Record<number, number>
+
+const STORAGE_KEY = 'partyDiaries'
+const EMPTY: PartyDiaries = {}
+
+let partyDiaries: PartyDiaries | null = null
+const listeners = new Set<() => void>()
+
+const readStorage = (): PartyDiaries => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+        return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+    } catch {
+        return {}
+    }
+}
+
+export function getPartyDiaries() {
+    if (typeof window === 'undefined') return EMPTY
+    partyDiaries ??= readStorage()
+    return partyDiaries
+}
+
+const setPartyDiaries = (next: PartyDiaries) => {
+    partyDiaries = next
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    listeners.forEach((listener) => listener())
+}
+
+export function savePartyDiary(partyId: number, diaryId: number) {
+    setPartyDiaries({ ...getPartyDiaries(), [partyId]: diaryId })
+}
+
+// 일지를 삭제하면 모임과의 연결도 지운다
+export function forgetDiary(diaryId: number) {
+    const current = getPartyDiaries()
+    if (!Object.values(current).includes(diaryId)) return
+
+    setPartyDiaries(
+        Object.fromEntries(Object.entries(current).filter(([, id]) => id !== diaryId)) as unknown as PartyDiaries,
+    )
+}
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY) return
+        partyDiaries = readStorage()
+        listener()
+    }
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+    }
+}
+
+export function usePartyDiaries() {
+    return useSyncExternalStore(subscribe, getPartyDiaries, () => EMPTY)
+}
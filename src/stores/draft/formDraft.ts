@@ -0,0 +1,137 @@
+import { useGlobalLoginMember } from '@/stores/auth/loginMember'
+import { useFeedback } from '@/stores/feedback/feedback'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// 작성 중인 폼 임시 저장
+// 폼 종류와 사용자별로 localStorage에 보관하고, 다시 열면 불러올지 묻는다
+// (File 같은 직렬화할 수 없는 값은 저장하지 않는다)
+type Draft<T> = {
+    values: T
+    savedAt: string
+}
+
+type UseFormDraftOptions<T> = {
+    formKey: string // 예: 'diary-new', `party-edit-${id}`
+    values: T
+    onRestore: (values: T) => void
+    enabled?: boolean // 수정 폼은 기존 데이터를 불러온 뒤에 켠다
+}
+
+const STORAGE_PREFIX = 'formDraft'
+const AUTOSAVE_DELAY_MS = 1000
+
+const readDraft = <T>(storageKey: string): Draft<T> | null => {
+    try {
+        const saved = localStorage.getItem(storageKey)
+        return saved ? JSON.parse(saved) : null
+    } catch {
+        return null
+    }
+}
+
+const formatSavedAt = (savedAt: string) =>
+    new Date(savedAt).toLocaleString('ko-KR', {
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+
+export function useFormDraft<T>({ formKey, values, onRestore, enabled = true }: UseFormDraftOptions<T>) {
+    const { loginMember } = useGlobalLoginMember()
+    const { confirm } = useFeedback()
+    // 처음 폼을 열었을 때의 값 (이 값과 같으면 저장하지 않는다)
+    const [initialJson, setInitialJson] = useState<string | null>(null)
+    const [savedAt, setSavedAt] = useState<string | null>(null)
+    const [isCleared, setIsCleared] = useState(false)
+
+    const storageKey = enabled && loginMember?.nickname ? `${STORAGE_PREFIX}:${loginMember.nickname}:${formKey}` : null
+    const valuesJson = JSON.stringify(values)
+
+    const valuesJsonRef = useRef(valuesJson)
+    valuesJsonRef.current = valuesJson
+    const onRestoreRef = useRef(onRestore)
+    onRestoreRef.current = onRestore
+
+    // 폼을 열면 임시 저장된 내용을 불러올지 묻는다
+    useEffect(() => {
+        if (!storageKey) return
+
+        let cancelled = false
+        const currentJson = valuesJsonRef.current
+        const draft = readDraft<T>(storageKey)
+
+        if (!draft || JSON.stringify(draft.values) === currentJson) {
+            setInitialJson(currentJson)
+            return
+        }
+
+        confirm({
+            title: '임시 저장된 내용',
+            message: `${formatSavedAt(draft.savedAt)}에 작성 중이던 내용이 있습니다.\n불러오시겠습니까?`,
+            confirmText: '불러오기',
+            cancelText: '새로 작성',
+        }).then((restore) => {
+            if (cancelled) return
+
+            if (restore) {
+                onRestoreRef.current(draft.values)
+                setSavedAt(draft.savedAt)
+            } else {
+                localStorage.removeItem(storageKey)
+            }
+            setInitialJson(currentJson)
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [storageKey, confirm])
+
+    const isReady = !!storageKey && initialJson !== null && !isCleared
+    const isDirty = isReady && valuesJson !== initialJson
+
+    // 입력이 멈추면 자동 저장 (처음 값으로 되돌리면 임시 저장도 지운다)
+    useEffect(() => {
+        if (!isReady || !storageKey) return
+
+        const timer = setTimeout(() => {
+            if (!isDirty) {
+                localStorage.removeItem(storageKey)
+                setSavedAt(null)
+                return
+            }
+
+            const now = new Date().toISOString()
+            localStorage.setItem(storageKey, JSON.stringify({ values: JSON.parse(valuesJson), savedAt: now }))
+            setSavedAt(now)
+        }, AUTOSAVE_DELAY_MS)
+
+        return () => clearTimeout(timer)
+    }, [isReady, isDirty, storageKey, valuesJson])
+
+    // 저장하지 않은 내용이 있으면 페이지를 떠날 때 경고
+    useEffect(() => {
+        if (!isDirty) return
+
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault()
+            e.returnValue = ''
+        }
+        window.addEventListener('beforeunload', handleBeforeUnload)
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+    }, [isDirty])
+
+    // 등록/수정에 성공하면 임시 저장을 지운다
+    const clearDraft = useCallback(() => {
+        if (storageKey) localStorage.removeItem(storageKey)
+        setIsCleared(true)
+        setSavedAt(null)
+    }, [storageKey])
+
+    return {
+        savedAt: savedAt ? formatSavedAt(savedAt) : null,
+        isDirty,
+        clearDraft,
+    }
+}
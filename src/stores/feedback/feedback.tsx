@@ -0,0 +1,148 @@
+'use client'
+
+import { createContext, use, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+export type ToastType = 'success' | 'error' | 'info' | 'undo'
+
+export type ToastItem = {
+    id: number
+    type: ToastType
+    message: string
+}
+
+// 실행 취소 토스트 콜백
+// - onUndo: 실행 취소 버튼을 눌렀을 때
+// - onCommit: 실행 취소 없이 토스트가 닫혔을 때 (지연 삭제 등 실제 요청을 여기서 보낸다)
+//   페이지를 떠날 때도 바로 호출되므로 요청에는 keepalive를 붙인다
+export type UndoOptions = {
+    onUndo: () => void
+    onCommit?: () => void
+}
+
+export type ConfirmOptions = {
+    title?: string
+    message: string
+    confirmText?: string
+    cancelText?: string
+    danger?: boolean // 삭제, 취소처럼 되돌릴 수 없는 동작은 빨간 버튼으로 표시
+}
+
+export type ConfirmRequest = ConfirmOptions & {
+    resolve: (confirmed: boolean) => void
+}
+
+const TOAST_DURATION_MS = 3000
+const UNDO_TOAST_DURATION_MS = 5000
+
+export const FeedbackContext = createContext<{
+    toast: {
+        success: (message: string) => void
+        error: (message: string) => void
+        info: (message: string) => void
+        undo: (message: string, options: UndoOptions) => void
+    }
+    confirm: (options: ConfirmOptions | string) => Promise<boolean>
+}>({
+    toast: {
+        success: () => {},
+        error: () => {},
+        info: () => {},
+        undo: () => {},
+    },
+    confirm: async () => false,
+})
+
+export function useFeedbackStore() {
+    const [toasts, setToasts] = useState<ToastItem[]>([])
+    const [confirmRequest, setConfirmRequest] = useState<ConfirmRequest | null>(null)
+    const confirmRequestRef = useRef<ConfirmRequest | null>(null)
+    const nextToastIdRef = useRef(0)
+    // 아직 확정되지 않은 실행 취소 토스트의 콜백
+    const pendingUndoRef = useRef(new Map<number, UndoOptions>())
+
+    // 토스트 닫기 (실행 취소 토스트는 이때 확정된다)
+    const dismissToast = useCallback((id: number) => {
+        setToasts((prev) => prev.filter((toast) => toast.id !== id))
+
+        const pending = pendingUndoRef.current.get(id)
+        if (pending) {
+            pendingUndoRef.current.delete(id)
+            pending.onCommit?.()
+        }
+    }, [])
+
+    const undoToast = useCallback((id: number) => {
+        setToasts((prev) => prev.filter((toast) => toast.id !== id))
+
+        const pending = pendingUndoRef.current.get(id)
+        if (pending) {
+            pendingUndoRef.current.delete(id)
+            pending.onUndo()
+        }
+    }, [])
+
+    // 페이지를 떠나면 타이머가 돌지 않으므로 확정되지 않은 실행 취소 토스트를 바로 확정한다
+    useEffect(() => {
+        const flushPendingUndo = () => {
+            const pending = [...pendingUndoRef.current.values()]
+            pendingUndoRef.current.clear()
+            pending.forEach((options) => options.onCommit?.())
+        }
+
+        window.addEventListener('pagehide', flushPendingUndo)
+        return () => window.removeEventListener('pagehide', flushPendingUndo)
+    }, [])
+
+    const showToast = useCallback(
+        (type: ToastType, message: string, undoOptions?: UndoOptions) => {
+            const id = nextToastIdRef.current++
+            if (undoOptions) {
+                pendingUndoRef.current.set(id, undoOptions)
+            }
+            setToasts((prev) => [...prev, { id, type, message }])
+            setTimeout(() => dismissToast(id), type === 'undo' ? UNDO_TOAST_DURATION_MS : TOAST_DURATION_MS)
+        },
+        [dismissToast],
+    )
+
+    // 확인 창이 열려 있는데 다시 요청하면 앞의 요청은 취소로 끝내고 새 창으로 바꾼다
+    const confirm = useCallback((options: ConfirmOptions | string) => {
+        return new Promise<boolean>((resolve) => {
+            const confirmOptions = typeof options === 'string' ? { message: options } : options
+            const request = { ...confirmOptions, resolve }
+            confirmRequestRef.current?.resolve(false)
+            confirmRequestRef.current = request
+            setConfirmRequest(request)
+        })
+    }, [])
+
+    const resolveConfirm = useCallback((confirmed: boolean) => {
+        confirmRequestRef.current?.resolve(confirmed)
+        confirmRequestRef.current = null
+        setConfirmRequest(null)
+    }, [])
+
+    const toast = useMemo(
+        () => ({
+            success: (message: string) => showToast('success', message),
+            error: (message: string) => showToast('error', message),
+            info: (message: string) => showToast('info', message),
+            undo: (message: string, options: UndoOptions) => showToast('undo', message, options),
+        }),
+        [showToast],
+    )
+
+    return {
+        toasts,
+        dismissToast,
+        undoToast,
+        confirmRequest,
+        resolveConfirm,
+        toast,
+        confirm,
+    }
+}
+
+export function useFeedback() {
+    return use(FeedbackContext)
+}
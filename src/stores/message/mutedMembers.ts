@@ -0,0 +1,124 @@
+import { components } from '@/lib/backend/apiV1/schema'
+import client, { unwrap } from '@/lib/backend/client'
+import { useSyncExternalStore } from 'react'
+
+type AlarmResponse = components['schemas']['AlarmResponse']
+
+// 차단한 회원 목록
+// 서버에서 차단을 지원하기 전까지는 브라우저에만 저장하고, 쪽지와 쪽지 알림을 화면에서 숨긴다
+export type MutedMember = {
+    memberId: number
+    nickname?: string
+    mutedAt: string
+}
+
+const STORAGE_KEY = 'mutedMembers'
+const EMPTY: MutedMember[] = []
+
+let mutedMembers: MutedMember[] | null = null
+const listeners = new Set<() => void>()
+
+const readStorage = (): MutedMember[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+        return Array.isArray(saved) ? saved : []
+    } catch {
+        return []
+    }
+}
+
+export function getMutedMembers() {
+    if (typeof window === 'undefined') return EMPTY
+    mutedMembers ??= readStorage()
+    return mutedMembers
+}
+
+const setMutedMembers = (next: MutedMember[]) => {
+    mutedMembers = next
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    listeners.forEach((listener) => listener())
+}
+
+export function isMemberMuted(memberId?: number) {
+    return memberId !== undefined && getMutedMembers().some((member) => member.memberId === memberId)
+}
+
+export function muteMember(memberId: number, nickname?: string) {
+    if (isMemberMuted(memberId)) return
+    setMutedMembers([...getMutedMembers(), { memberId, nickname, mutedAt: new Date().toISOString() }])
+}
+
+export function unmuteMember(memberId: number) {
+    setMutedMembers(getMutedMembers().filter((member) => member.memberId !== memberId))
+}
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+
+    // 다른 탭에서 차단 목록을 바꾼 경우도 반영
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY) return
+        mutedMembers = readStorage()
+        listener()
+    }
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+    }
+}
+
+export function useMutedMembers() {
+    return useSyncExternalStore(subscribe, getMutedMembers, () => EMPTY)
+}
+
+// 쪽지 알림의 relId는 쪽지 ID이므로 보낸 사람을 한 번 조회해 기억해 둔다
+const SENDER_CONCURRENCY = 4
+const messageSenderIds = new Map<number, number | undefined>()
+
+const getMessageSenderId = async (messageId: number) => {
+    if (messageSenderIds.has(messageId)) return messageSenderIds.get(messageId)
+
+    const { data } = await unwrap(
+        client.GET('/messages/{id}', {
+            params: {
+                path: { id: messageId },
+            },
+        }),
+    )
+    messageSenderIds.set(messageId, data?.senderId)
+    return data?.senderId
+}
+
+// 차단한 회원이 보낸 쪽지 알림인지 확인
+export async function isMutedAlarm(alarm: AlarmResponse) {
+    if (alarm.alarmType !== 'MESSAGE' || !alarm.relId || getMutedMembers().length === 0) return false
+    return isMemberMuted(await getMessageSenderId(alarm.relId))
+}
+
+// 알림 목록에서 차단한 회원의 쪽지 알림을 뺀다
+// 알림이 많을 수 있으므로 아직 모르는 쪽지의 보낸 사람은 동시 요청 수를 제한해 조회한다
+export async function filterMutedAlarms(alarms: AlarmResponse[]) {
+    if (getMutedMembers().length === 0) return alarms
+
+    const messageIds = [
+        ...new Set(
+            alarms.flatMap((alarm) =>
+                alarm.alarmType === 'MESSAGE' && alarm.relId && !messageSenderIds.has(alarm.relId) ? [alarm.relId] : [],
+            ),
+        ),
+    ]
+
+    let next = 0
+    const worker = async () => {
+        while (next < messageIds.length) {
+            await getMessageSenderId(messageIds[next++])
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(SENDER_CONCURRENCY, messageIds.length) }, worker))
+
+    return alarms.filter(
+        (alarm) => alarm.alarmType !== 'MESSAGE' || !alarm.relId || !isMemberMuted(messageSenderIds.get(alarm.relId)),
+    )
+}